@@ -1,6 +1,7 @@
 import 'fake-indexeddb/auto'
 import { describe, test, expect } from 'vitest'
-import { createOneFS, OneFS, PLATFORM_CAPABILITIES } from '../index'
+import { createOneFS, OneFS, PLATFORM_CAPABILITIES, registerAdapter, ok, err } from '../index'
+import type { BuiltInPlatform, OneFSAdapter } from '../index'
 
 describe('createOneFS', () => {
   test('returns a OneFS instance', () => {
@@ -15,15 +16,22 @@ describe('createOneFS', () => {
 
   test('capabilities match platform', () => {
     const fs = createOneFS({ appName: 'test' })
-    expect(fs.capabilities).toEqual(PLATFORM_CAPABILITIES[fs.platform])
+    expect(fs.capabilities).toEqual(PLATFORM_CAPABILITIES[fs.platform as BuiltInPlatform])
   })
 
   test('supportsDirectories reflects capabilities', () => {
     const fs = createOneFS({ appName: 'test' })
-    const expected = !!PLATFORM_CAPABILITIES[fs.platform].openDirectory
+    const expected = !!PLATFORM_CAPABILITIES[fs.platform as BuiltInPlatform].openDirectory
     expect(fs.supportsDirectories).toBe(expected)
   })
 
+  test('each adapter gets its own copy of the capabilities', () => {
+    const fs = createOneFS({ appName: 'test' })
+    fs.capabilities.watch = 'limited'
+    expect(PLATFORM_CAPABILITIES['web-fallback'].watch).toBe(false)
+    expect(createOneFS({ appName: 'test' }).capabilities.watch).toBe(false)
+  })
+
   test('web-fallback does not support directories', () => {
     const fs = createOneFS({ appName: 'test', preferredAdapter: 'web-fallback' })
     expect(fs.supportsDirectories).toBe(false)
@@ -44,3 +52,68 @@ describe('createOneFS', () => {
     expect(fs.platform).toBe('web-fallback')
   })
 })
+
+describe('registerAdapter', () => {
+  function stubAdapter(platform: string, supported = true): OneFSAdapter {
+    return {
+      platform,
+      capabilities: { ...PLATFORM_CAPABILITIES.memory, watch: false },
+      isSupported: () => supported,
+      openFile: async () => err('cancelled', 'No picker'),
+      saveFile: async () => ok(true),
+      saveFileAs: async () => err('cancelled', 'No picker'),
+      getRecentFiles: async () => [],
+      restoreFile: async () => err('not_found', 'Nothing stored'),
+      removeFromRecent: async () => {},
+      clearRecent: async () => {},
+    }
+  }
+
+  test('higher priority adapters are detected first', () => {
+    const unregister = registerAdapter('custom-fs', () => stubAdapter('custom-fs'), { priority: 100 })
+    try {
+      const fs = createOneFS({ appName: 'test' })
+      expect(fs.platform).toBe('custom-fs')
+      expect(fs.capabilities.watch).toBe(false)
+    } finally {
+      unregister()
+    }
+    expect(createOneFS({ appName: 'test' }).platform).toBe('web-fallback')
+  })
+
+  test('unsupported adapters are skipped', () => {
+    const unregister = registerAdapter('custom-fs', () => stubAdapter('custom-fs', false), { priority: 100 })
+    try {
+      expect(createOneFS({ appName: 'test' }).platform).toBe('web-fallback')
+    } finally {
+      unregister()
+    }
+  })
+
+  test('low priority adapters are reachable through preferredAdapter', () => {
+    const unregister = registerAdapter('custom-fs', () => stubAdapter('custom-fs'))
+    try {
+      expect(createOneFS({ appName: 'test' }).platform).toBe('web-fallback')
+      expect(createOneFS({ appName: 'test', preferredAdapter: 'custom-fs' }).platform).toBe('custom-fs')
+    } finally {
+      unregister()
+    }
+  })
+
+  test('capability overrides are merged over the adapter capabilities', () => {
+    const unregister = registerAdapter('custom-fs', () => stubAdapter('custom-fs'), { capabilities: { watch: 'limited', readDirectory: false } })
+    try {
+      const fs = createOneFS({ appName: 'test', preferredAdapter: 'custom-fs' })
+      expect(fs.capabilities).toMatchObject({ watch: 'limited', readDirectory: false, openDirectory: true })
+    } finally {
+      unregister()
+    }
+  })
+
+  test('replacing a built-in restores it on unregister', () => {
+    const unregister = registerAdapter('web-fallback', () => stubAdapter('web-fallback'))
+    expect(createOneFS({ appName: 'test' }).capabilities.watch).toBe(false)
+    unregister()
+    expect(createOneFS({ appName: 'test' }).capabilities).toEqual(PLATFORM_CAPABILITIES['web-fallback'])
+  })
+})
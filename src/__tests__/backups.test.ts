@@ -0,0 +1,100 @@
+import 'fake-indexeddb/auto'
+import { describe, test, expect, beforeEach } from 'vitest'
+import {
+  resolveBackupConfig,
+  getBackupFolder,
+  getBackupPath,
+  parseBackupName,
+  isInBackupFolder,
+  storeIDBBackup,
+  listIDBBackups,
+  DEFAULT_MAX_BACKUPS,
+} from '../backups'
+import { IDBStorage } from '../storage/idb'
+
+describe('resolveBackupConfig', () => {
+  test('off unless configured', () => {
+    expect(resolveBackupConfig(undefined)).toBeNull()
+    expect(resolveBackupConfig(false)).toBeNull()
+  })
+
+  test('true uses the defaults', () => {
+    expect(resolveBackupConfig(true)).toEqual({ location: 'folder', maxBackups: DEFAULT_MAX_BACKUPS })
+  })
+
+  test('keeps at least one backup', () => {
+    expect(resolveBackupConfig({ location: 'idb', maxBackups: 0 })).toEqual({ location: 'idb', maxBackups: 1 })
+  })
+
+  test('a count that is not a finite number falls back to the default', () => {
+    expect(resolveBackupConfig({ maxBackups: NaN })).toEqual({ location: 'folder', maxBackups: DEFAULT_MAX_BACKUPS })
+    expect(resolveBackupConfig({ maxBackups: Infinity })?.maxBackups).toBe(DEFAULT_MAX_BACKUPS)
+    expect(resolveBackupConfig({ maxBackups: 2.7 })?.maxBackups).toBe(2)
+  })
+})
+
+describe('backup paths', () => {
+  test('sibling backups append a tilde', () => {
+    expect(getBackupPath('/docs/doc.txt', 'sibling', 1000)).toBe('/docs/doc.txt~')
+  })
+
+  test('folder backups go in .backups next to the file', () => {
+    expect(getBackupFolder('/docs/doc.txt')).toBe('/docs/.backups')
+    expect(getBackupPath('/docs/doc.txt', 'folder', 1000)).toBe('/docs/.backups/doc.txt.1000.bak')
+  })
+
+  test('relative paths without a directory', () => {
+    expect(getBackupFolder('abc_doc.txt')).toBe('.backups')
+    expect(getBackupPath('abc_doc.txt', 'folder', 5)).toBe('.backups/abc_doc.txt.5.bak')
+  })
+
+  test('parseBackupName only matches backups of the same file', () => {
+    expect(parseBackupName('doc.txt', 'doc.txt.1000.bak')).toBe(1000)
+    expect(parseBackupName('doc.txt', 'doc.txt.old.bak')).toBeNull()
+    expect(parseBackupName('doc.txt', 'other.txt.1000.bak')).toBeNull()
+    expect(parseBackupName('doc', 'doc.txt.1000.bak')).toBeNull()
+  })
+
+  test('isInBackupFolder matches any .backups segment', () => {
+    expect(isInBackupFolder('/docs/.backups/doc.txt.1000.bak')).toBe(true)
+    expect(isInBackupFolder('.backups')).toBe(true)
+    expect(isInBackupFolder('/docs/my.backups/doc.txt')).toBe(false)
+  })
+})
+
+describe('IndexedDB backups', () => {
+  let storage: IDBStorage
+
+  beforeEach(() => {
+    storage = new IDBStorage('test-app-' + Math.random().toString(36).slice(2))
+  })
+
+  test('lists backups of one file newest first', async () => {
+    await storeIDBBackup(storage, 'file-1', 'a.txt', new Uint8Array([1]), 5)
+    await new Promise((r) => setTimeout(r, 5))
+    await storeIDBBackup(storage, 'file-1', 'a.txt', new Uint8Array([1, 2]), 5)
+    await storeIDBBackup(storage, 'file-2', 'b.txt', new Uint8Array([3]), 5)
+
+    const backups = await listIDBBackups(storage, 'file-1')
+    expect(backups.map((b) => b.size)).toEqual([2, 1])
+    expect(backups[0]).toMatchObject({ name: 'a.txt', location: 'idb' })
+    expect(backups[0]).not.toHaveProperty('content')
+  })
+
+  test('drops the oldest backups beyond maxBackups', async () => {
+    for (let i = 1; i <= 4; i++) {
+      await storeIDBBackup(storage, 'file-1', 'a.txt', new Uint8Array(i), 2)
+      await new Promise((r) => setTimeout(r, 5))
+    }
+
+    const backups = await listIDBBackups(storage, 'file-1')
+    expect(backups.map((b) => b.size)).toEqual([4, 3])
+  })
+
+  test('backup content round-trips', async () => {
+    await storeIDBBackup(storage, 'file-1', 'a.txt', new Uint8Array([7, 8, 9]), 5)
+    const [backup] = await listIDBBackups(storage, 'file-1')
+    const stored = await storage.getBackup(backup.id)
+    expect(new Uint8Array(stored!.content)).toEqual(new Uint8Array([7, 8, 9]))
+  })
+})
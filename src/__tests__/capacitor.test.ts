@@ -0,0 +1,259 @@
+// @vitest-environment node
+import 'fake-indexeddb/auto'
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtemp, mkdir, readFile, readdir, writeFile, rm, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Filesystem } from '@capacitor/filesystem'
+import { CapacitorAdapter } from '../adapters/capacitor'
+import { IDBStorage } from '../storage/idb'
+import type { OneFSBackupConfig, OneFSFile } from '../types'
+
+/** The Documents and Data folders on disk, and renames to refuse */
+const capacitor = vi.hoisted(() => ({ documents: '', data: '', failRenames: 0 }))
+
+/** Filesystem on top of node:fs, enough for the calls the adapter makes here */
+vi.mock('@capacitor/filesystem', async () => {
+  const fs = await import('node:fs/promises')
+  const { join } = await import('node:path')
+  const Directory = { Documents: 'DOCUMENTS', Data: 'DATA' }
+  const Encoding = { UTF8: 'utf8' }
+  const resolve = (path: string, directory?: string) => join(directory === Directory.Data ? capacitor.data : capacitor.documents, path)
+
+  /** Capacitor reports missing paths as "... does not exist" */
+  const call = <T, A>(action: (options: A) => Promise<T>) => async (options: A): Promise<T> => {
+    try {
+      return await action(options)
+    } catch (e) {
+      if ((e as { code?: string }).code === 'ENOENT') throw new Error('File does not exist')
+      throw e
+    }
+  }
+  const toBytes = (data: string, encoding?: string) => (encoding ? Buffer.from(data, 'utf8') : Buffer.from(data, 'base64'))
+  type Options = { path: string; directory?: string; encoding?: string; recursive?: boolean; data: string }
+  type Transfer = { from: string; to: string; directory?: string; toDirectory?: string }
+
+  return {
+    Directory,
+    Encoding,
+    Filesystem: {
+      writeFile: call(async ({ path, directory, data, encoding }: Options) => {
+        await fs.writeFile(resolve(path, directory), toBytes(data, encoding))
+        return { uri: resolve(path, directory) }
+      }),
+      appendFile: call(async ({ path, directory, data, encoding }: Options) => {
+        await fs.appendFile(resolve(path, directory), toBytes(data, encoding))
+      }),
+      readFile: call(async ({ path, directory, encoding }: Options) => {
+        const bytes = await fs.readFile(resolve(path, directory))
+        return { data: bytes.toString(encoding ? 'utf8' : 'base64') }
+      }),
+      stat: call(async ({ path, directory }: Options) => {
+        const info = await fs.stat(resolve(path, directory))
+        return { type: info.isDirectory() ? 'directory' : 'file', size: info.size, mtime: info.mtimeMs, ctime: info.ctimeMs, uri: resolve(path, directory) }
+      }),
+      readdir: call(async ({ path, directory }: Options) => {
+        const dir = resolve(path, directory)
+        const files = await Promise.all((await fs.readdir(dir)).map(async (name) => {
+          const info = await fs.stat(join(dir, name))
+          return { name, type: info.isDirectory() ? 'directory' : 'file', size: info.size, mtime: info.mtimeMs, uri: join(dir, name) }
+        }))
+        return { files }
+      }),
+      mkdir: call(async ({ path, directory, recursive }: Options) => {
+        await fs.mkdir(resolve(path, directory), { recursive })
+      }),
+      rmdir: call(async ({ path, directory, recursive }: Options) => {
+        await fs.rm(resolve(path, directory), { recursive: !!recursive })
+      }),
+      deleteFile: call(async ({ path, directory }: Options) => {
+        await fs.unlink(resolve(path, directory))
+      }),
+      rename: call(async ({ from, to, directory, toDirectory }: Transfer) => {
+        if (capacitor.failRenames > 0) {
+          capacitor.failRenames--
+          throw new Error('Unable to rename')
+        }
+        await fs.rename(resolve(from, directory), resolve(to, toDirectory ?? directory))
+      }),
+      copy: call(async ({ from, to, directory, toDirectory }: Transfer) => {
+        await fs.cp(resolve(from, directory), resolve(to, toDirectory ?? directory), { recursive: true })
+      }),
+      getUri: call(async ({ path, directory }: Options) => ({ uri: `file://${resolve(path, directory)}` })),
+    },
+  }
+})
+
+vi.mock('@capacitor/core', () => ({
+  Capacitor: { convertFileSrc: (path: string) => path },
+}))
+
+describe('CapacitorAdapter', () => {
+  let root: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'onefs-capacitor-'))
+    capacitor.documents = join(root, 'Documents')
+    capacitor.data = join(root, 'Data')
+    capacitor.failRenames = 0
+    await mkdir(join(capacitor.documents, 'docs'), { recursive: true })
+    await mkdir(capacitor.data)
+    await writeFile(join(capacitor.documents, 'docs', 'a.txt'), 'alpha')
+
+    // Backups are named by Date.now() - keep saves in the same millisecond apart
+    let now = Date.now()
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(root, { recursive: true, force: true })
+  })
+
+  function adapter(backups?: boolean | OneFSBackupConfig): CapacitorAdapter {
+    return new CapacitorAdapter(`capacitor-test-${Math.random()}`, 10, true, backups)
+  }
+
+  /** A file whose copy lives at `docs/a.txt` in Documents */
+  function opened(): OneFSFile {
+    return { id: 'a', name: 'a.txt', path: 'docs/a.txt', content: new TextEncoder().encode('alpha'), mimeType: 'text/plain', size: 5, lastModified: 1000 }
+  }
+
+  describe('atomic saves', () => {
+    test('write a sibling temp file and rename it over the copy', async () => {
+      const rename = vi.spyOn(Filesystem, 'rename')
+      const saved = await adapter().saveFile(opened(), 'updated')
+      expect(saved.ok).toBe(true)
+
+      expect(rename).toHaveBeenCalledWith(expect.objectContaining({ from: 'docs/.a.txt.onefs-tmp', to: 'docs/a.txt' }))
+      expect(await readFile(join(capacitor.documents, 'docs', 'a.txt'), 'utf8')).toBe('updated')
+      expect(await readdir(join(capacitor.documents, 'docs'))).toEqual(['a.txt'])
+    })
+
+    test('a failed rename removes the temp file and keeps the old copy', async () => {
+      capacitor.failRenames = 1
+      const saved = await adapter().saveFile(opened(), 'updated')
+      expect(!saved.ok && saved.error.code).toBe('io_error')
+
+      expect(await readFile(join(capacitor.documents, 'docs', 'a.txt'), 'utf8')).toBe('alpha')
+      expect(await readdir(join(capacitor.documents, 'docs'))).toEqual(['a.txt'])
+    })
+
+    test('atomic: false writes in place', async () => {
+      const rename = vi.spyOn(Filesystem, 'rename')
+      const saved = await adapter().saveFile(opened(), 'updated', { atomic: false })
+      expect(saved.ok).toBe(true)
+      expect(rename).not.toHaveBeenCalled()
+      expect(await readFile(join(capacitor.documents, 'docs', 'a.txt'), 'utf8')).toBe('updated')
+    })
+  })
+
+  describe('backups', () => {
+    test('saveFile keeps the previous versions in .backups up to maxBackups', async () => {
+      const fs = adapter({ maxBackups: 2 })
+      const file = opened()
+      for (const content of ['one', 'two', 'three']) {
+        await fs.saveFile(file, content)
+      }
+      expect(await readdir(join(capacitor.documents, 'docs', '.backups'))).toHaveLength(2)
+
+      const backups = await fs.listBackups(file)
+      const kept = backups.ok ? backups.data : []
+      expect(kept.map((backup) => backup.location)).toEqual(['folder', 'folder'])
+      const contents = kept.map((backup) => readFile(join(capacitor.documents, backup.path!), 'utf8'))
+      expect(await Promise.all(contents)).toEqual(['two', 'one'])
+    })
+
+    test('restoreBackup writes the backup back and returns the saved metadata', async () => {
+      const fs = adapter(true)
+      const file = opened()
+      await fs.saveFile(file, 'one')
+
+      const backups = await fs.listBackups(file)
+      const restored = await fs.restoreBackup(file, backups.ok ? backups.data[0] : { id: '', name: '', size: 0, createdAt: 0, location: 'folder' })
+      expect(restored.ok && new TextDecoder().decode(restored.data.content)).toBe('alpha')
+      expect(await readFile(join(capacitor.documents, 'docs', 'a.txt'), 'utf8')).toBe('alpha')
+      const { mtimeMs } = await stat(join(capacitor.documents, 'docs', 'a.txt'))
+      expect(restored.ok && [restored.data.size, restored.data.lastModified]).toEqual([5, mtimeMs])
+
+      const missing = await fs.restoreBackup(file, { id: 'docs/.backups/a.txt.1.bak', name: 'a.txt', size: 0, createdAt: 0, location: 'folder' })
+      expect(!missing.ok && missing.error.code).toBe('not_found')
+    })
+
+    test('.backups is hidden only when backups are kept there', async () => {
+      const dir = { id: 'docs', name: 'docs', path: 'docs' }
+      const backed = adapter(true)
+      await backed.saveFile(opened(), 'one')
+
+      const listed = await backed.readDirectory(dir)
+      expect(listed.ok && listed.data.map((entry) => entry.name)).toEqual(['a.txt'])
+      const scanned = await backed.scanDirectory(dir, { includeDirectories: true })
+      expect(scanned.ok && scanned.data.map((entry) => entry.relativePath)).toEqual(['a.txt'])
+
+      const plain = adapter()
+      const shown = await plain.readDirectory(dir)
+      expect(shown.ok && shown.data.map((entry) => entry.name).sort()).toEqual(['.backups', 'a.txt'])
+      const all = await plain.scanDirectory(dir)
+      expect(all.ok && all.data.map((entry) => entry.relativePath!.split('/')[0]).sort()).toEqual(['.backups', 'a.txt'])
+    })
+  })
+
+  describe('trash', () => {
+    test('deleteFile with trash moves the copy to Data and restoreFromTrash puts it back', async () => {
+      const fs = adapter()
+      const deleted = await fs.deleteFile(opened(), { trash: true })
+      expect(deleted.ok).toBe(true)
+      expect(await readdir(join(capacitor.documents, 'docs'))).toEqual([])
+      expect(await readdir(join(capacitor.data, 'trash'))).toHaveLength(1)
+
+      const trash = await fs.listTrash()
+      const items = trash.ok ? trash.data : []
+      expect(items.map((item) => [item.name, item.originalPath, item.size])).toEqual([['a.txt', 'docs/a.txt', 5]])
+
+      const restored = await fs.restoreFromTrash(items[0])
+      expect(restored.ok && [restored.data.id, restored.data.path, new TextDecoder().decode(restored.data.content)])
+        .toEqual(['a', 'docs/a.txt', 'alpha'])
+      expect(await readdir(join(capacitor.data, 'trash'))).toEqual([])
+
+      const again = await fs.restoreFromTrash(items[0])
+      expect(!again.ok && again.error.code).toBe('not_found')
+    })
+
+    test('restoreFromTrash refuses to overwrite a file created since, emptyTrash deletes it', async () => {
+      const fs = adapter()
+      await fs.deleteFile(opened(), { trash: true })
+      await writeFile(join(capacitor.documents, 'docs', 'a.txt'), 'new')
+
+      const trash = await fs.listTrash()
+      const item = trash.ok ? trash.data[0] : { id: '', name: '', size: 0, deletedAt: 0 }
+      const restored = await fs.restoreFromTrash(item)
+      expect(!restored.ok && restored.error.code).toBe('already_exists')
+      expect(await readFile(join(capacitor.documents, 'docs', 'a.txt'), 'utf8')).toBe('new')
+
+      expect(await fs.emptyTrash()).toEqual({ ok: true, data: 1 })
+      expect(await readdir(join(capacitor.data, 'trash'))).toEqual([])
+    })
+
+    test('a failed move keeps the file and drops the trash record', async () => {
+      const fs = adapter()
+      capacitor.failRenames = 1
+      const deleted = await fs.deleteFile(opened(), { trash: true })
+      expect(deleted.ok).toBe(false)
+      expect(await readFile(join(capacitor.documents, 'docs', 'a.txt'), 'utf8')).toBe('alpha')
+      expect(await fs.listTrash()).toEqual({ ok: true, data: [] })
+    })
+  })
+
+  describe('saveFile', () => {
+    test('updates size and lastModified from the saved copy and records them', async () => {
+      const store = vi.spyOn(IDBStorage.prototype, 'storeFileDeferred')
+      const file = opened()
+
+      const saved = await adapter().saveFile(file, 'updated text')
+      expect(saved).toEqual({ ok: true, data: true })
+      const { mtimeMs } = await stat(join(capacitor.documents, 'docs', 'a.txt'))
+      expect([file.size, file.lastModified]).toEqual([12, mtimeMs])
+      expect(store).toHaveBeenCalledWith(expect.objectContaining({ id: 'a', size: 12, lastModified: mtimeMs }))
+    })
+  })
+})
@@ -0,0 +1,342 @@
+import 'fake-indexeddb/auto'
+import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { access, mkdtemp, mkdir, readFile, writeFile, rm, symlink } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ElectronAdapter } from '../adapters/electron'
+import { exposeElectronBridge } from '../electron-bridge'
+import { createElectronHandlers, registerElectronHandlers } from '../electron-main'
+import { createOneFS } from '../index'
+import type { OneFSDirectory, OneFSElectronBridge, OneFSElectronDialog, OneFSFile } from '../types'
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+/** Dialog stub answering with queued paths - an empty queue cancels */
+function stubDialog(picks: string[][]): OneFSElectronDialog {
+  return {
+    async showOpenDialog() {
+      const paths = picks.shift()
+      return { canceled: !paths, filePaths: paths ?? [] }
+    },
+    async showSaveDialog() {
+      const paths = picks.shift()
+      return { canceled: !paths, filePath: paths?.[0] }
+    },
+  }
+}
+
+describe('ElectronAdapter', () => {
+  let root: string
+  let picks: string[][]
+  let electron: ElectronAdapter
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'onefs-electron-'))
+    await mkdir(join(root, 'docs', 'sub'), { recursive: true })
+    await writeFile(join(root, 'docs', 'a.txt'), 'alpha')
+    await writeFile(join(root, 'docs', 'sub', 'b.md'), '# beta')
+    await writeFile(join(root, 'docs', '.gitignore'), 'sub/\n')
+    picks = []
+    electron = new ElectronAdapter('electron-test', 10, true, createElectronHandlers(stubDialog(picks)))
+  })
+
+  afterEach(async () => {
+    electron.dispose()
+    await rm(root, { recursive: true, force: true })
+  })
+
+  async function open(path: string): Promise<OneFSFile> {
+    picks.push([path])
+    const result = await electron.openFile()
+    if (!result.ok || Array.isArray(result.data)) throw new Error('open failed')
+    return result.data
+  }
+
+  async function openDir(path: string): Promise<OneFSDirectory> {
+    picks.push([path])
+    const result = await electron.openDirectory()
+    if (!result.ok) throw new Error('open failed')
+    return result.data
+  }
+
+  test('is not supported without a bridge', () => {
+    expect(new ElectronAdapter('electron-test').isSupported()).toBe(false)
+  })
+
+  test('openFile reads the picked path', async () => {
+    const file = await open(join(root, 'docs', 'a.txt'))
+    expect(file).toMatchObject({ name: 'a.txt', path: join(root, 'docs', 'a.txt'), size: 5, mimeType: 'text/plain' })
+    expect(text(file.content)).toBe('alpha')
+  })
+
+  test('a dismissed dialog is cancelled', async () => {
+    const result = await electron.openFile()
+    expect(!result.ok && result.error.code).toBe('cancelled')
+  })
+
+  test('saveFile writes in place and detects conflicts', async () => {
+    const file = await open(join(root, 'docs', 'a.txt'))
+    const opened = file.lastModified
+
+    const saved = await electron.saveFile(file, 'updated')
+    expect(saved.ok).toBe(true)
+    expect(await readFile(join(root, 'docs', 'a.txt'), 'utf8')).toBe('updated')
+    expect(file.size).toBe(7)
+
+    const refused = await electron.saveFile(file, 'mine', { ifUnmodifiedSince: opened - 1000 })
+    expect(!refused.ok && refused.error.code).toBe('conflict')
+  })
+
+  test('saveFileAs writes to the dialog path', async () => {
+    picks.push([join(root, 'out.txt')])
+    const result = await electron.saveFileAs('report', { suggestedName: 'out.txt' })
+    expect(result.ok && result.data.path).toBe(join(root, 'out.txt'))
+    expect(await readFile(join(root, 'out.txt'), 'utf8')).toBe('report')
+  })
+
+  test('readDirectory and scanDirectory use real paths', async () => {
+    const dir = await openDir(join(root, 'docs'))
+
+    const listing = await electron.readDirectory(dir)
+    const entries = listing.ok ? listing.data.sort((a, b) => a.name.localeCompare(b.name)) : []
+    expect(entries.map((e) => [e.name, e.kind, e.size])).toEqual([
+      ['.gitignore', 'file', 5],
+      ['a.txt', 'file', 5],
+      ['sub', 'directory', undefined],
+    ])
+    expect(entries[1].path).toBe(`${join(root, 'docs')}/a.txt`)
+
+    const all = await electron.scanDirectory(dir, { extensions: ['.txt', '.md'] })
+    expect(all.ok && all.data.map((e) => e.relativePath).sort()).toEqual(['a.txt', 'sub/b.md'])
+
+    const ignored = await electron.scanDirectory(dir, { extensions: ['.txt', '.md'], ignoreFiles: true })
+    expect(ignored.ok && ignored.data.map((e) => e.relativePath)).toEqual(['a.txt'])
+  })
+
+  test('getEntry, writeFileToDirectory and createDirectory stay inside the directory', async () => {
+    const dir = await openDir(join(root, 'docs'))
+
+    const entry = await electron.getEntry(dir, 'sub/b.md')
+    expect(entry.ok && entry.data).toMatchObject({ name: 'b.md', kind: 'file', size: 6, relativePath: 'sub/b.md', depth: 1 })
+
+    const outside = await electron.getEntry(dir, '../../etc/passwd')
+    expect(!outside.ok && outside.error.code).toBe('permission_denied')
+
+    const refused = await electron.writeFileToDirectory(dir, 'a.txt', 'x')
+    expect(!refused.ok && refused.error.code).toBe('already_exists')
+
+    const created = await electron.createDirectory(dir, 'new/nested', { recursive: true })
+    expect(created.ok && created.data.name).toBe('nested')
+  })
+
+  test('deleteEntry needs recursive for non-empty directories', async () => {
+    const dir = await openDir(join(root, 'docs'))
+    const sub = await electron.getEntry(dir, 'sub')
+    if (!sub.ok) throw new Error('missing sub')
+
+    const refused = await electron.deleteEntry(dir, sub.data)
+    expect(!refused.ok && refused.error.code).toBe('io_error')
+
+    const deleted = await electron.deleteEntry(dir, sub.data, { recursive: true })
+    expect(deleted.ok).toBe(true)
+  })
+
+  test('readRange and openReadStream read over the bridge', async () => {
+    const file = await open(join(root, 'docs', 'a.txt'))
+
+    const range = await electron.readRange(file, 1, 3)
+    expect(range.ok && text(range.data)).toBe('lph')
+
+    const stream = await electron.openReadStream(file)
+    expect(stream.ok && text(new Uint8Array(await new Response(stream.data).arrayBuffer()))).toBe('alpha')
+  })
+
+  test('recent files restore by path and follow directory renames', async () => {
+    const dir = await openDir(join(root, 'docs'))
+    const file = await open(join(root, 'docs', 'sub', 'b.md'))
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    const sub = await electron.getEntry(dir, 'sub')
+    if (!sub.ok) throw new Error('missing sub')
+    const renamed = await electron.renameDirectory(sub.data, 'notes')
+    expect(renamed.ok && renamed.data.path).toBe(`${join(root, 'docs')}/notes`)
+
+    const recent = await electron.getRecentFiles()
+    const stored = recent.find((item) => item.id === file.id)!
+    expect(stored.path).toBe(`${join(root, 'docs')}/notes/b.md`)
+
+    const restored = await electron.restoreFile(stored)
+    expect(restored.ok && text(restored.data.content)).toBe('# beta')
+  })
+})
+
+describe('Electron bridge', () => {
+  const missing = join(tmpdir(), 'onefs-missing')
+
+  test('allowPath refuses paths before touching the disk', async () => {
+    const bridge = createElectronHandlers(stubDialog([]), { allowPath: (path) => path.startsWith('/allowed') })
+    const result = await bridge.readFile('/etc/passwd')
+    expect(!result.ok && result.error.code).toBe('permission_denied')
+  })
+
+  test('allowPath gets resolved paths', async () => {
+    const seen: string[] = []
+    const bridge = createElectronHandlers(stubDialog([]), {
+      allowPath: (path) => {
+        seen.push(path)
+        return path.startsWith('/allowed/')
+      },
+    })
+    const escaped = await bridge.readFile('/allowed/../etc/passwd')
+    expect(!escaped.ok && escaped.error.code).toBe('permission_denied')
+    expect(seen).toEqual(['/etc/passwd'])
+  })
+
+  test('without allowPath only dialog-picked paths and their contents are allowed', async () => {
+    const bridge = createElectronHandlers(stubDialog([[missing]]))
+    const before = await bridge.stat(join(missing, 'file.txt'))
+    expect(!before.ok && before.error.code).toBe('permission_denied')
+
+    await bridge.showOpenDialog({ directory: true })
+    const inside = await bridge.stat(join(missing, 'file.txt'))
+    expect(!inside.ok && inside.error.code).toBe('not_found')
+
+    const escaped = await bridge.readFile(join(missing, '..', 'other.txt'))
+    expect(!escaped.ok && escaped.error.code).toBe('permission_denied')
+    const moved = await bridge.rename(join(missing, 'file.txt'), join(tmpdir(), 'file.txt'))
+    expect(!moved.ok && moved.error.code).toBe('permission_denied')
+  })
+
+  test('renames need both names in scope', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'onefs-electron-'))
+    try {
+      await mkdir(join(root, 'docs'))
+      await writeFile(join(root, 'notes.txt'), 'alpha')
+      await writeFile(join(root, 'docs', 'a.txt'), 'beta')
+      const bridge = createElectronHandlers(stubDialog([[join(root, 'notes.txt')], [join(root, 'docs')]]))
+      await bridge.showOpenDialog({})
+      await bridge.showOpenDialog({ directory: true })
+
+      const sibling = await bridge.rename(join(root, 'notes.txt'), join(root, '.bash_profile'))
+      expect(!sibling.ok && sibling.error.code).toBe('permission_denied')
+      const profile = await bridge.writeFile(join(root, '.bash_profile'), new TextEncoder().encode('x'))
+      expect(!profile.ok && profile.error.code).toBe('permission_denied')
+
+      const folder = await bridge.rename(join(root, 'docs'), join(root, 'notes'))
+      expect(!folder.ok && folder.error.code).toBe('permission_denied')
+
+      expect(await bridge.rename(join(root, 'docs', 'a.txt'), join(root, 'docs', 'b.txt'))).toEqual({ ok: true, data: true })
+      const read = await bridge.readFile(join(root, 'docs', 'b.txt'))
+      expect(read.ok && text(read.data)).toBe('beta')
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  test('symlinks inside a picked folder cannot reach outside it', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'onefs-electron-'))
+    try {
+      await mkdir(join(root, 'docs'))
+      await mkdir(join(root, 'private'))
+      await writeFile(join(root, 'private', 'secret.txt'), 'secret')
+      await symlink(join(root, 'private'), join(root, 'docs', 'link'))
+      await symlink(join(root, 'private', 'new.txt'), join(root, 'docs', 'dangling'))
+      const bridge = createElectronHandlers(stubDialog([[join(root, 'docs')]]))
+      await bridge.showOpenDialog({ directory: true })
+
+      const read = await bridge.readFile(join(root, 'docs', 'link', 'secret.txt'))
+      expect(!read.ok && read.error.code).toBe('permission_denied')
+      const write = await bridge.writeFile(join(root, 'docs', 'link', 'new.txt'), new TextEncoder().encode('x'))
+      expect(!write.ok && write.error.code).toBe('permission_denied')
+      const dangling = await bridge.writeFile(join(root, 'docs', 'dangling'), new TextEncoder().encode('x'))
+      expect(dangling.ok).toBe(false)
+      await expect(access(join(root, 'private', 'new.txt'))).rejects.toThrow()
+
+      const created = await bridge.writeFile(join(root, 'docs', 'new.txt'), new TextEncoder().encode('x'))
+      expect(created.ok).toBe(true)
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  test('errors come back as results', async () => {
+    const bridge = createElectronHandlers(stubDialog([[missing]]))
+    await bridge.showOpenDialog({ directory: true })
+    const result = await bridge.stat(join(missing, 'file.txt'))
+    expect(!result.ok && result.error.code).toBe('not_found')
+  })
+
+  test('registerElectronHandlers and exposeElectronBridge connect over IPC channels', async () => {
+    const channels = new Map<string, (event: { sender: unknown }, ...args: unknown[]) => unknown>()
+    const ipcMain = {
+      handle: (channel: string, listener: (event: { sender: unknown }, ...args: unknown[]) => unknown) => {
+        channels.set(channel, listener)
+      },
+      removeHandler: (channel: string) => {
+        channels.delete(channel)
+      },
+    }
+    const unregister = registerElectronHandlers({ ipcMain, dialog: stubDialog([['/picked/file.txt']]) })
+
+    let exposed: OneFSElectronBridge | undefined
+    exposeElectronBridge({
+      contextBridge: { exposeInMainWorld: (key, api) => { if (key === 'onefsElectron') exposed = api as OneFSElectronBridge } },
+      ipcRenderer: { invoke: async (channel, ...args) => channels.get(channel)!({ sender: null }, ...args) },
+    })
+
+    expect(await exposed!.showOpenDialog({})).toEqual({ ok: true, data: ['/picked/file.txt'] })
+    const stat = await exposed!.stat('/picked/file.txt')
+    expect(stat).toEqual({ ok: false, error: { code: 'not_found', message: 'No such file or directory' } })
+
+    unregister()
+    expect(channels.size).toBe(0)
+  })
+
+  test('registerElectronHandlers parents dialogs to the calling window and shares the scope', async () => {
+    const channels = new Map<string, (event: { sender: unknown }, ...args: unknown[]) => unknown>()
+    const ipcMain = {
+      handle: (channel: string, listener: (event: { sender: unknown }, ...args: unknown[]) => unknown) => {
+        channels.set(channel, listener)
+      },
+      removeHandler: (channel: string) => {
+        channels.delete(channel)
+      },
+    }
+    const win = { id: 1 }
+    const parents: unknown[] = []
+    const dialog: OneFSElectronDialog = {
+      async showOpenDialog(...args: unknown[]) {
+        parents.push(args.length === 2 ? args[0] : undefined)
+        return { canceled: false, filePaths: [missing] }
+      },
+      async showSaveDialog() {
+        return { canceled: true }
+      },
+    }
+    registerElectronHandlers({
+      ipcMain,
+      dialog,
+      BrowserWindow: { fromWebContents: (sender) => (sender === 'window' ? win : null) },
+    })
+    const invoke = (sender: string, method: string, ...args: unknown[]) =>
+      channels.get(`onefs:${method}`)!({ sender }, ...args)
+
+    await invoke('window', 'showOpenDialog', { directory: true })
+    expect(parents).toEqual([win])
+
+    const other = await invoke('other', 'stat', join(missing, 'file.txt'))
+    expect(other).toEqual({ ok: false, error: { code: 'not_found', message: 'No such file or directory' } })
+  })
+
+  test('createOneFS detects the bridge on window', () => {
+    const win = window as { onefsElectron?: OneFSElectronBridge }
+    win.onefsElectron = createElectronHandlers(stubDialog([]))
+    try {
+      const fs = createOneFS({ appName: 'electron-test' })
+      expect(fs.platform).toBe('electron')
+      expect(fs.capabilities.canSaveInPlace).toBe(true)
+    } finally {
+      delete win.onefsElectron
+    }
+  })
+})
@@ -111,6 +111,189 @@ describe('OneFS content helpers', () => {
   })
 })
 
+describe('OneFS openReadStream', () => {
+  const fs = createOneFS({ appName: 'stream-test' })
+
+  test('streams in-memory content on web-fallback', async () => {
+    const file = makeFile('test.txt', 'hello stream', 'text/plain')
+    const result = await fs.openReadStream(file)
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      const text = await new Response(result.data).text()
+      expect(text).toBe('hello stream')
+    }
+  })
+
+  test('rejects directory entries on web-fallback', async () => {
+    const entry = { name: 'folder', kind: 'directory' as const }
+    const result = await fs.openReadStream(entry)
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+})
+
+describe('OneFS readRange', () => {
+  const fs = createOneFS({ appName: 'range-test' })
+
+  test('reads a slice of in-memory content on web-fallback', async () => {
+    const file = makeFile('test.txt', 'hello world', 'text/plain')
+    const result = await fs.readRange(file, 6, 5)
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(new TextDecoder().decode(result.data)).toBe('world')
+    }
+  })
+
+  test('rejects negative offsets', async () => {
+    const file = makeFile('test.txt', 'hello', 'text/plain')
+    const result = await fs.readRange(file, -1, 2)
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('io_error')
+    }
+  })
+})
+
+describe('OneFS streaming writes', () => {
+  test('saveFileAsStream buffers chunks and persists on close (web-fallback)', async () => {
+    const fs = createOneFS({ appName: 'write-stream-test' })
+    const result = await fs.saveFileAsStream({ suggestedName: 'export.txt' })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+
+    expect(result.data.file.name).toBe('export.txt')
+    expect(result.data.file.size).toBe(0)
+
+    const writer = result.data.stream.getWriter()
+    await writer.write(new TextEncoder().encode('hello '))
+    await writer.write(new TextEncoder().encode('world'))
+    await writer.close()
+
+    const restored = await fs.restoreFile({
+      id: result.data.file.id,
+      name: 'export.txt',
+      type: 'file',
+      storedAt: Date.now(),
+    })
+    expect(restored.ok).toBe(true)
+    if (restored.ok) {
+      expect(fs.readAsText(restored.data)).toBe('hello world')
+    }
+  })
+})
+
+describe('OneFS version history', () => {
+  test('saveFile records versions that can be read and reverted (web-fallback)', async () => {
+    const fs = createOneFS({ appName: 'versions-test', versionHistory: true })
+    const file = makeFile('doc.txt', 'v1', 'text/plain')
+
+    await fs.saveFile(file, 'v1', { versionLabel: 'first' })
+    await new Promise((r) => setTimeout(r, 5))
+    await fs.saveFile(file, 'version 2')
+
+    const versions = await fs.getVersions(file)
+    expect(versions.ok).toBe(true)
+    if (!versions.ok) return
+    expect(versions.data.map((v) => [v.size, v.label])).toEqual([[9, undefined], [2, 'first']])
+
+    const first = await fs.readVersion(file, versions.data[1].id)
+    expect(first.ok && new TextDecoder().decode(first.data)).toBe('v1')
+
+    const reverted = await fs.revertToVersion(file, versions.data[1].id)
+    expect(reverted.ok).toBe(true)
+    if (reverted.ok) {
+      expect(fs.readAsText(reverted.data)).toBe('v1')
+    }
+
+    const after = await fs.getVersions(file)
+    expect(after.ok && after.data).toHaveLength(3)
+  })
+
+  test('versions are not recorded unless versionHistory is set', async () => {
+    const fs = createOneFS({ appName: 'versions-off-test' })
+    const file = makeFile('doc.txt', 'v1', 'text/plain')
+    await fs.saveFile(file, 'v1')
+
+    const versions = await fs.getVersions(file)
+    expect(versions.ok && versions.data).toEqual([])
+  })
+
+  test('readVersion rejects versions of another file', async () => {
+    const fs = createOneFS({ appName: 'versions-other-test', versionHistory: true })
+    const file = makeFile('a.txt', 'a', 'text/plain')
+    await fs.saveFile(file, 'a')
+    const versions = await fs.getVersions(file)
+    if (!versions.ok) return
+
+    const result = await fs.readVersion({ ...file, id: 'other' }, versions.data[0].id)
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_found')
+    }
+  })
+
+  test('prune limits in versionHistory apply after each save', async () => {
+    const fs = createOneFS({ appName: 'versions-prune-test', versionHistory: { maxCount: 2 } })
+    const file = makeFile('doc.txt', '', 'text/plain')
+    for (const content of ['1', '22', '333']) {
+      await fs.saveFile(file, content)
+      await new Promise((r) => setTimeout(r, 5))
+    }
+
+    const versions = await fs.getVersions(file)
+    expect(versions.ok && versions.data.map((v) => v.size)).toEqual([3, 2])
+  })
+})
+
+describe('OneFS hashing', () => {
+  const fs = createOneFS({ appName: 'hash-test' })
+
+  test('hash digests loaded content', async () => {
+    const file = makeFile('abc.txt', 'abc', 'text/plain')
+    const result = await fs.hash(file)
+    expect(result).toEqual({ ok: true, data: 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad' })
+
+    const sha1 = await fs.hash(file, { algorithm: 'SHA-1' })
+    expect(sha1).toEqual({ ok: true, data: 'a9993e364706816aba3e25717850c26c9cd0d89d' })
+  })
+
+  test('entries need a read stream (not_supported on web-fallback)', async () => {
+    const result = await fs.hash({ name: 'a.txt', kind: 'file', size: 3 })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+})
+
+describe('OneFS lazy files', () => {
+  test('restoreFile with loadContent: false defers reading cached content', async () => {
+    const fs = createOneFS({ appName: 'lazy-test' })
+    const saved = await fs.saveFileAs('cached content', { suggestedName: 'notes.txt' })
+    expect(saved.ok).toBe(true)
+    if (!saved.ok) return
+
+    const [stored] = await fs.getRecentFiles()
+    const result = await fs.restoreFile(stored, { loadContent: false })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+
+    expect(result.data.content.byteLength).toBe(0)
+    expect(result.data.size).toBe(14)
+
+    const text = await result.data.text()
+    expect(text).toEqual({ ok: true, data: 'cached content' })
+
+    const stream = await result.data.stream()
+    expect(stream.ok).toBe(true)
+    if (stream.ok) {
+      expect(await new Response(stream.data).text()).toBe('cached content')
+    }
+  })
+})
+
 describe('OneFS unsupported operations', () => {
   const fs = createOneFS({ appName: 'unsupported-test' })
 
@@ -140,6 +323,126 @@ describe('OneFS unsupported operations', () => {
     }
   })
 
+  test('writeFileToDirectory returns not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const result = await fs.writeFileToDirectory(dir, 'out.txt', 'data')
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+
+  test('createDirectory returns not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const result = await fs.createDirectory(dir, 'sub', { recursive: true })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+
+  test('getEntry returns not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const result = await fs.getEntry(dir, 'sub/file.txt')
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+
+  test('readFileByPath returns not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const result = await fs.readFileByPath(dir, 'sub/file.txt')
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+
+  test('deleteEntry returns not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const entry = { name: 'old', kind: 'directory' as const }
+    const result = await fs.deleteEntry(dir, entry, { recursive: true })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+
+  test('moveEntry and copyEntry return not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const entry = { name: 'a.txt', kind: 'file' as const }
+
+    const moved = await fs.moveEntry(entry, dir)
+    expect(moved.ok).toBe(false)
+    if (!moved.ok) {
+      expect(moved.error.code).toBe('not_supported')
+    }
+
+    const copied = await fs.copyEntry(entry, dir, 'b.txt')
+    expect(copied.ok).toBe(false)
+    if (!copied.ok) {
+      expect(copied.error.code).toBe('not_supported')
+    }
+  })
+
+  test('listBackups and restoreBackup return not_supported on web-fallback', async () => {
+    const file = makeFile('doc.txt', 'hello', 'text/plain')
+    const listed = await fs.listBackups(file)
+    expect(listed.ok).toBe(false)
+    if (!listed.ok) {
+      expect(listed.error.code).toBe('not_supported')
+    }
+
+    const backup = { id: 'b', name: 'doc.txt', size: 5, createdAt: 0, location: 'idb' as const }
+    const restored = await fs.restoreBackup(file, backup)
+    expect(restored.ok).toBe(false)
+    if (!restored.ok) {
+      expect(restored.error.code).toBe('not_supported')
+    }
+  })
+
+  test('trash methods return not_supported on web-fallback', async () => {
+    const item = { id: 't', name: 'doc.txt', size: 5, deletedAt: 0 }
+    const results = [await fs.listTrash(), await fs.restoreFromTrash(item), await fs.emptyTrash()]
+    for (const result of results) {
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error.code).toBe('not_supported')
+      }
+    }
+  })
+
+  test('renameDirectory returns not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const result = await fs.renameDirectory(dir, 'renamed')
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+
+  test('walk reports not_supported through onError on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const errors: unknown[] = []
+    const entries = []
+    for await (const entry of fs.walk(dir, { onError: (_path, error) => errors.push(error) })) {
+      entries.push(entry)
+    }
+    expect(entries).toHaveLength(0)
+    expect(errors).toHaveLength(1)
+    expect((errors[0] as { code: string }).code).toBe('not_supported')
+  })
+
+  test('watch returns not_supported on web-fallback', async () => {
+    const dir = { id: 'x', name: 'test' }
+    const result = await fs.watch(dir, { recursive: true }, () => {})
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('not_supported')
+    }
+  })
+
   test('getEntryUrl returns not_supported on web-fallback', async () => {
     const entry = { name: 'test.txt', kind: 'file' as const }
     const result = await fs.getEntryUrl(entry)
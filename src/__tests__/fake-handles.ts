@@ -0,0 +1,202 @@
+import { File as NodeFile } from 'node:buffer'
+
+/**
+ * In-memory FileSystemHandle fakes for running FSAccessAdapter outside a browser.
+ * A handle is the entry itself: removing it from its parent detaches it, and
+ * detached handles fail with NotFoundError like real ones do.
+ */
+
+/** `{ 'a.txt': 'alpha', sub: { 'b.md': '# beta' } }` */
+export interface FakeTree {
+  [name: string]: string | FakeTree
+}
+
+const notFound = (name: string) => new DOMException(`"${name}" not found`, 'NotFoundError')
+
+async function toBytes(data: unknown): Promise<Uint8Array> {
+  if (typeof data === 'string') return new TextEncoder().encode(data)
+  if (data instanceof Uint8Array) return data.slice()
+  if (data instanceof ArrayBuffer) return new Uint8Array(data.slice(0))
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength))
+  return new Uint8Array(await (data as Blob).arrayBuffer())
+}
+
+abstract class FakeHandle {
+  parent: FakeDirectoryHandle | null = null
+
+  constructor(public name: string) {}
+
+  get attached(): boolean {
+    const parent = this.parent
+    return !parent || ((parent.children.get(this.name) as FakeHandle | undefined) === this && parent.attached)
+  }
+
+  protected assertAttached(): void {
+    if (!this.attached) throw notFound(this.name)
+  }
+
+  async isSameEntry(other: unknown): Promise<boolean> {
+    return other === this
+  }
+
+  async queryPermission(): Promise<PermissionState> {
+    return 'granted'
+  }
+
+  async requestPermission(): Promise<PermissionState> {
+    return 'granted'
+  }
+
+  async remove(): Promise<void> {
+    this.assertAttached()
+    this.parent?.children.delete(this.name)
+  }
+
+  async move(target: FakeDirectoryHandle | string, name?: string): Promise<void> {
+    this.assertAttached()
+    const directory = typeof target === 'string' ? this.parent! : target
+    const newName = typeof target === 'string' ? target : name ?? this.name
+    this.parent?.children.delete(this.name)
+    this.name = newName
+    directory.adopt(this as unknown as FakeFileHandle | FakeDirectoryHandle)
+  }
+}
+
+export class FakeFileHandle extends FakeHandle {
+  readonly kind = 'file' as const
+  content: Uint8Array
+  lastModified = Date.now()
+
+  constructor(name: string, content: string | Uint8Array = '') {
+    super(name)
+    this.content = typeof content === 'string' ? new TextEncoder().encode(content) : content
+  }
+
+  async getFile(): Promise<File> {
+    this.assertAttached()
+    return new NodeFile([this.content], this.name, { lastModified: this.lastModified }) as unknown as File
+  }
+
+  /** Buffers writes and swaps them in on close(), like the browser's swap file */
+  async createWritable(): Promise<FileSystemWritableFileStream> {
+    this.assertAttached()
+    const chunks: Uint8Array[] = []
+    const stream = new WritableStream<unknown>({
+      write: async (chunk) => {
+        chunks.push(await toBytes(chunk))
+      },
+      close: () => {
+        this.assertAttached()
+        const content = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0))
+        let offset = 0
+        for (const chunk of chunks) {
+          content.set(chunk, offset)
+          offset += chunk.byteLength
+        }
+        this.content = content
+        this.lastModified = Date.now()
+      },
+    })
+    return Object.assign(stream, {
+      async write(data: unknown) {
+        const writer = stream.getWriter()
+        try {
+          await writer.write(data)
+        } finally {
+          writer.releaseLock()
+        }
+      },
+      async seek() {
+        throw new DOMException('seek() is not supported by the fake', 'NotSupportedError')
+      },
+      async truncate() {
+        throw new DOMException('truncate() is not supported by the fake', 'NotSupportedError')
+      },
+    }) as unknown as FileSystemWritableFileStream
+  }
+
+  text(): string {
+    return new TextDecoder().decode(this.content)
+  }
+}
+
+export class FakeDirectoryHandle extends FakeHandle {
+  readonly kind = 'directory' as const
+  children = new Map<string, FakeFileHandle | FakeDirectoryHandle>()
+
+  adopt(child: FakeFileHandle | FakeDirectoryHandle): void {
+    child.parent = this
+    this.children.set(child.name, child)
+  }
+
+  async *values(): AsyncIterableIterator<FakeFileHandle | FakeDirectoryHandle> {
+    this.assertAttached()
+    yield* [...this.children.values()]
+  }
+
+  async getFileHandle(name: string, options: { create?: boolean } = {}): Promise<FakeFileHandle> {
+    this.assertAttached()
+    const child = this.children.get(name)
+    if (child?.kind === 'directory') throw new DOMException(`"${name}" is a directory`, 'TypeMismatchError')
+    if (child) return child
+    if (!options.create) throw notFound(name)
+    const created = new FakeFileHandle(name)
+    this.adopt(created)
+    return created
+  }
+
+  async getDirectoryHandle(name: string, options: { create?: boolean } = {}): Promise<FakeDirectoryHandle> {
+    this.assertAttached()
+    const child = this.children.get(name)
+    if (child?.kind === 'file') throw new DOMException(`"${name}" is a file`, 'TypeMismatchError')
+    if (child) return child
+    if (!options.create) throw notFound(name)
+    const created = new FakeDirectoryHandle(name)
+    this.adopt(created)
+    return created
+  }
+
+  async removeEntry(name: string, options: { recursive?: boolean } = {}): Promise<void> {
+    this.assertAttached()
+    const child = this.children.get(name)
+    if (!child) throw notFound(name)
+    if (child.kind === 'directory' && child.children.size > 0 && !options.recursive) {
+      throw new DOMException(`"${name}" is not empty`, 'InvalidModificationError')
+    }
+    this.children.delete(name)
+  }
+
+  async resolve(descendant: FakeHandle): Promise<string[] | null> {
+    const path: string[] = []
+    for (let current: FakeHandle | null = descendant; current; current = current.parent) {
+      if (current === this) return path
+      path.unshift(current.name)
+    }
+    return null
+  }
+
+  /** Walk `relativePath` to a handle, or undefined when something along it is missing */
+  at(relativePath: string): FakeFileHandle | FakeDirectoryHandle | undefined {
+    let current: FakeFileHandle | FakeDirectoryHandle | undefined = this
+    for (const segment of relativePath.split('/')) {
+      current = current?.kind === 'directory' ? current.children.get(segment) : undefined
+    }
+    return current
+  }
+}
+
+/** Build a directory handle from a nested tree of names and file contents */
+export function fakeDirectory(name: string, tree: FakeTree = {}): FakeDirectoryHandle {
+  const directory = new FakeDirectoryHandle(name)
+  for (const [childName, value] of Object.entries(tree)) {
+    directory.adopt(typeof value === 'string' ? new FakeFileHandle(childName, value) : fakeDirectory(childName, value))
+  }
+  return directory
+}
+
+/** Cast a fake to the DOM handle type the adapter expects */
+export function asHandle(handle: FakeDirectoryHandle): FileSystemDirectoryHandle
+export function asHandle(handle: FakeFileHandle): FileSystemFileHandle
+export function asHandle(handle: FakeHandle): FileSystemHandle {
+  return handle as unknown as FileSystemHandle
+}
@@ -0,0 +1,421 @@
+import 'fake-indexeddb/auto'
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest'
+import { FSAccessAdapter } from '../adapters/fs-access'
+import { IDBStorage } from '../storage/idb'
+import type { OneFSDirectory, StoredHandle, StoredTrashItem } from '../types'
+import { asHandle, fakeDirectory, FakeDirectoryHandle, FakeFileHandle } from './fake-handles'
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+async function readChunks(stream: ReadableStream<Uint8Array>): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = []
+  const reader = stream.getReader()
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    chunks.push(read.value)
+  }
+  return chunks
+}
+
+describe('FSAccessAdapter', () => {
+  let root: FakeDirectoryHandle
+  let dir: OneFSDirectory
+  let fsAccess: FSAccessAdapter
+
+  beforeEach(() => {
+    root = fakeDirectory('docs', {
+      'a.txt': 'alpha',
+      sub: { 'a.txt': 'nested', deep: { 'c.txt': 'gamma' } },
+    })
+    dir = { id: 'docs', name: 'docs', handle: asHandle(root) }
+    fsAccess = new FSAccessAdapter('fs-access-test')
+  })
+
+  describe('openReadStream', () => {
+    test('streams the file from its handle', async () => {
+      const big = new Uint8Array(300 * 1024).map((_, i) => i % 251)
+      const handle = new FakeFileHandle('big.bin', big)
+      root.adopt(handle)
+
+      const stream = await fsAccess.openReadStream({ name: 'big.bin', kind: 'file', handle: asHandle(handle) })
+      const chunks = stream.ok ? await readChunks(stream.data) : []
+      expect(Buffer.concat(chunks).equals(big)).toBe(true)
+
+      await root.removeEntry('big.bin')
+      const gone = await fsAccess.openReadStream({ name: 'big.bin', kind: 'file', handle: asHandle(handle) })
+      expect(!gone.ok && gone.error.code).toBe('not_found')
+    })
+  })
+
+  describe('readRange and maxBytes', () => {
+    test('read only the requested bytes', async () => {
+      const entry = { name: 'a.txt', kind: 'file' as const, handle: asHandle(root.at('a.txt') as FakeFileHandle) }
+
+      const range = await fsAccess.readRange(entry, 1, 3)
+      expect(range.ok && text(range.data)).toBe('lph')
+      const tail = await fsAccess.readRange(entry, 3, 100)
+      expect(tail.ok && text(tail.data)).toBe('ha')
+
+      const head = await fsAccess.readFileFromDirectory(dir, entry, { maxBytes: 2 })
+      expect(head.ok && [text(head.data.content), head.data.size]).toEqual(['al', 2])
+    })
+  })
+
+  describe('writeFileToDirectory', () => {
+    test('creates new files and only replaces existing ones with overwrite', async () => {
+      const created = await fsAccess.writeFileToDirectory(dir, 'new.txt', 'fresh', { persist: false })
+      expect(created.ok && [created.data.name, created.data.size]).toEqual(['new.txt', 5])
+      expect((root.at('new.txt') as FakeFileHandle).text()).toBe('fresh')
+
+      const refused = await fsAccess.writeFileToDirectory(dir, 'a.txt', 'x', { persist: false })
+      expect(!refused.ok && refused.error.code).toBe('already_exists')
+      expect((root.at('a.txt') as FakeFileHandle).text()).toBe('alpha')
+
+      const replaced = await fsAccess.writeFileToDirectory(dir, 'a.txt', 'x', { overwrite: true, persist: false })
+      expect(replaced.ok).toBe(true)
+      expect((root.at('a.txt') as FakeFileHandle).text()).toBe('x')
+    })
+  })
+
+  describe('createDirectory', () => {
+    test('recursive creates missing parents and accepts an existing folder', async () => {
+      const flat = await fsAccess.createDirectory(dir, 'x/y')
+      expect(!flat.ok && flat.error.code).toBe('not_found')
+
+      const nested = await fsAccess.createDirectory(dir, 'x/y/z', { recursive: true })
+      expect(nested.ok && nested.data.name).toBe('z')
+      expect(root.at('x/y/z')?.kind).toBe('directory')
+
+      const existing = await fsAccess.createDirectory(dir, 'sub/deep', { recursive: true })
+      expect(existing.ok && existing.data.handle).toBe(root.at('sub/deep'))
+      const taken = await fsAccess.createDirectory(dir, 'sub')
+      expect(!taken.ok && taken.error.code).toBe('already_exists')
+    })
+  })
+
+  describe('getEntry', () => {
+    test('resolves nested paths and refuses ones that leave the directory', async () => {
+      const entry = await fsAccess.getEntry(dir, 'sub/./deep/../deep/c.txt')
+      expect(entry.ok && [entry.data.name, entry.data.relativePath, entry.data.depth]).toEqual(['c.txt', 'sub/deep/c.txt', 2])
+      expect(entry.ok && entry.data.handle).toBe(root.at('sub/deep/c.txt'))
+
+      for (const path of ['../a.txt', 'sub/../../a.txt']) {
+        const outside = await fsAccess.getEntry(dir, path)
+        expect(!outside.ok && outside.error.code).toBe('permission_denied')
+      }
+      const missing = await fsAccess.getEntry(dir, 'sub/missing.txt')
+      expect(!missing.ok && missing.error.code).toBe('not_found')
+    })
+  })
+
+  describe('saveFile', () => {
+    test('updates size and lastModified on every save', async () => {
+      const handle = root.at('a.txt') as FakeFileHandle
+      handle.lastModified = 1000
+      const file = { id: 'a', name: 'a.txt', content: handle.content, mimeType: 'text/plain', size: 5, lastModified: 1000, handle: asHandle(handle) }
+
+      const saved = await fsAccess.saveFile(file, 'updated text')
+      expect(saved.ok).toBe(true)
+      expect(handle.text()).toBe('updated text')
+      expect(file.size).toBe(12)
+      expect(file.lastModified).toBe(handle.lastModified)
+      expect(file.lastModified).toBeGreaterThan(1000)
+
+      const again = await fsAccess.saveFile(file, 'again', { ifUnmodifiedSince: file.lastModified })
+      expect(again.ok).toBe(true)
+    })
+  })
+
+  describe('backups', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    test('saveFile keeps previous versions in IndexedDB and restoreBackup writes one back', async () => {
+      let now = Date.now()
+      vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000))
+      const backed = new FSAccessAdapter(`fs-access-backups-${Math.random()}`, 10, true, { maxBackups: 2 })
+      const handle = root.at('a.txt') as FakeFileHandle
+      const file = { id: 'a', name: 'a.txt', content: handle.content, mimeType: 'text/plain', size: 5, lastModified: 1000, handle: asHandle(handle) }
+
+      for (const content of ['one', 'two', 'three']) {
+        await backed.saveFile(file, content)
+      }
+      const backups = await backed.listBackups(file)
+      const kept = backups.ok ? backups.data : []
+      expect(kept.map((backup) => backup.location)).toEqual(['idb', 'idb'])
+
+      const restored = await backed.restoreBackup(file, kept[1])
+      expect(restored.ok && [restored.data.size, restored.data.lastModified]).toEqual([3, file.lastModified])
+      expect(handle.text()).toBe('one')
+
+      const other = await backed.restoreBackup({ ...file, id: 'b' }, kept[0])
+      expect(!other.ok && other.error.code).toBe('not_found')
+    })
+  })
+
+  describe('renameDirectory', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    test('moves stored records along and drops the ones whose entry is gone', async () => {
+      const live = root.at('sub/a.txt') as FakeFileHandle
+      const gone = root.at('sub/deep/c.txt') as FakeFileHandle
+      await (root.at('sub/deep') as FakeDirectoryHandle).removeEntry('c.txt')
+
+      const records: StoredHandle[] = [
+        { id: 'live', name: 'a.txt', type: 'file', storedAt: 1 },
+        { id: 'gone', name: 'c.txt', type: 'file', storedAt: 1 },
+      ]
+      const handles: Record<string, FakeFileHandle> = { live, gone }
+      vi.spyOn(IDBStorage.prototype, 'getStoredHandles').mockResolvedValue(records)
+      vi.spyOn(IDBStorage.prototype, 'getHandleObject').mockImplementation(async (id) => asHandle(handles[id]))
+      const updateHandle = vi.spyOn(IDBStorage.prototype, 'updateHandle').mockResolvedValue()
+      const removeHandle = vi.spyOn(IDBStorage.prototype, 'removeHandle').mockResolvedValue()
+
+      const sub = root.at('sub') as FakeDirectoryHandle
+      const renamed = await fsAccess.renameDirectory({ id: 'sub', name: 'sub', handle: asHandle(sub) }, 'notes')
+      expect(renamed.ok && renamed.data.name).toBe('notes')
+      expect(root.at('notes/a.txt')).toBe(live)
+
+      expect(updateHandle).toHaveBeenCalledWith('live', live)
+      expect(removeHandle).toHaveBeenCalledWith('gone')
+    })
+  })
+
+  describe('trash', () => {
+    let trash: Map<string, StoredTrashItem>
+
+    /** Handles don't survive fake-indexeddb's structured clone, so trash records and recent folders stay in memory */
+    beforeEach(() => {
+      trash = new Map()
+      const recent: StoredHandle = { id: 'docs', name: 'docs', type: 'directory', storedAt: 1 }
+      vi.spyOn(IDBStorage.prototype, 'getStoredHandles').mockResolvedValue([recent])
+      vi.spyOn(IDBStorage.prototype, 'getHandleObject').mockImplementation(async (id) => (id === 'docs' ? asHandle(root) : null))
+      vi.spyOn(IDBStorage.prototype, 'storeTrashItem').mockImplementation(async (item) => {
+        trash.set(item.id, item)
+        return true
+      })
+      vi.spyOn(IDBStorage.prototype, 'getTrashItem').mockImplementation(async (id) => trash.get(id) ?? null)
+      vi.spyOn(IDBStorage.prototype, 'removeTrashItems').mockImplementation(async (ids) => {
+        ids.forEach((id) => trash.delete(id))
+      })
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    function open(relativePath: string) {
+      const handle = root.at(relativePath) as FakeFileHandle
+      return { id: relativePath, name: handle.name, content: handle.content, mimeType: 'text/plain', size: handle.content.byteLength, lastModified: 1000, handle: asHandle(handle) }
+    }
+
+    test('restoreFromTrash recreates the file in the folder it was deleted from', async () => {
+      const trashing = new FSAccessAdapter('fs-access-trash-test', 10, false)
+      const file = open('sub/a.txt')
+
+      const deleted = await trashing.deleteFile(file, { trash: true })
+      expect(deleted.ok).toBe(true)
+      expect(root.at('sub/a.txt')).toBeUndefined()
+
+      const [item] = trash.values()
+      const restored = await trashing.restoreFromTrash(item)
+      expect(restored.ok && [restored.data.id, restored.data.name]).toEqual(['sub/a.txt', 'a.txt'])
+      expect((root.at('sub/a.txt') as FakeFileHandle).text()).toBe('nested')
+      expect(trash.size).toBe(0)
+    })
+
+    test('restoreFromTrash refuses to overwrite a file created since', async () => {
+      const trashing = new FSAccessAdapter('fs-access-trash-test', 10, false)
+      await trashing.deleteFile(open('a.txt'), { trash: true })
+      root.adopt(new FakeFileHandle('a.txt', 'new'))
+
+      const [item] = trash.values()
+      const restored = await trashing.restoreFromTrash(item)
+      expect(!restored.ok && restored.error.code).toBe('already_exists')
+      expect((root.at('a.txt') as FakeFileHandle).text()).toBe('new')
+    })
+
+    test('without a known folder the save dialog is used', async () => {
+      const trashing = new FSAccessAdapter('fs-access-trash-test', 10, false)
+      const elsewhere = fakeDirectory('elsewhere', { 'loose.txt': 'loose' })
+      const handle = elsewhere.at('loose.txt') as FakeFileHandle
+      await trashing.deleteFile({ ...open('a.txt'), handle: asHandle(handle) }, { trash: true })
+
+      const picked = new FakeFileHandle('picked.txt')
+      fakeDirectory('downloads').adopt(picked)
+      const win = window as { showSaveFilePicker?: unknown }
+      const showSaveFilePicker = vi.fn(async () => asHandle(picked))
+      win.showSaveFilePicker = showSaveFilePicker
+      try {
+        const [item] = trash.values()
+        const restored = await trashing.restoreFromTrash(item)
+        expect(showSaveFilePicker).toHaveBeenCalledWith({ suggestedName: 'a.txt' })
+        expect(restored.ok && restored.data.name).toBe('picked.txt')
+        expect(picked.text()).toBe('loose')
+      } finally {
+        delete win.showSaveFilePicker
+      }
+    })
+  })
+
+  describe('scanDirectory', () => {
+    test('walks every level and keeps the handles', async () => {
+      const result = await fsAccess.scanDirectory(dir)
+      const files = result.ok ? result.data.sort((a, b) => a.relativePath!.localeCompare(b.relativePath!)) : []
+      expect(files.map((e) => [e.name, e.size])).toEqual([['a.txt', 5], ['a.txt', 6], ['c.txt', 5]])
+      expect(files.every((e) => e.kind === 'file' && e.path === undefined)).toBe(true)
+      expect(files[2].handle).toBe(root.at('sub/deep/c.txt'))
+    })
+
+    test('extensions, skipStats and onProgress', async () => {
+      root.adopt(new FakeFileHandle('notes.md', '# notes'))
+      const progress: [number, number][] = []
+
+      const result = await fsAccess.scanDirectory(dir, {
+        extensions: ['.md'],
+        skipStats: true,
+        onProgress: (scanned, found) => progress.push([scanned, found]),
+      })
+      expect(result.ok && result.data.map((e) => [e.name, e.size])).toEqual([['notes.md', undefined]])
+      expect(progress.at(-1)).toEqual([3, 1])
+    })
+
+    test('an aborted signal cancels the scan', async () => {
+      const controller = new AbortController()
+      controller.abort()
+      const result = await fsAccess.scanDirectory(dir, { signal: controller.signal })
+      expect(!result.ok && result.error.code).toBe('cancelled')
+    })
+
+    test('unreadable folders are reported, a missing root fails the scan', async () => {
+      const errors: string[] = []
+      const deep = root.at('sub/deep') as FakeDirectoryHandle
+      deep.values = () => { throw new DOMException('denied', 'NotAllowedError') }
+
+      const result = await fsAccess.scanDirectory(dir, { onError: (path) => errors.push(path) })
+      expect(result.ok && result.data.length).toBe(2)
+      expect(errors).toEqual(['sub/deep'])
+
+      const sub = root.at('sub') as FakeDirectoryHandle
+      await root.removeEntry('sub', { recursive: true })
+      const missing = await fsAccess.scanDirectory({ id: 'sub', name: 'sub', handle: asHandle(sub) })
+      expect(!missing.ok && missing.error.code).toBe('not_found')
+    })
+  })
+
+  describe('scan depth and directories', () => {
+    test('entries carry relativePath and depth', async () => {
+      const result = await fsAccess.scanDirectory(dir)
+      const files = result.ok ? result.data.map((e) => [e.relativePath, e.depth]) : []
+      expect(files.sort()).toEqual([['a.txt', 0], ['sub/a.txt', 1], ['sub/deep/c.txt', 2]])
+    })
+
+    test('maxDepth stops descending', async () => {
+      const top = await fsAccess.scanDirectory(dir, { maxDepth: 0 })
+      expect(top.ok && top.data.map((e) => e.relativePath)).toEqual(['a.txt'])
+
+      const two = await fsAccess.scanDirectory(dir, { maxDepth: 1 })
+      expect(two.ok && two.data.map((e) => e.relativePath).sort()).toEqual(['a.txt', 'sub/a.txt'])
+    })
+
+    test('includeDirectories yields folders with their handles', async () => {
+      const result = await fsAccess.scanDirectory(dir, { includeDirectories: true, maxDepth: 1 })
+      const folders = result.ok ? result.data.filter((e) => e.kind === 'directory') : []
+      expect(folders.map((e) => [e.relativePath, e.depth]).sort()).toEqual([['sub', 0], ['sub/deep', 1]])
+      expect(folders.find((e) => e.name === 'deep')?.handle).toBe(root.at('sub/deep'))
+    })
+
+    test('walk yields the same entries and can be abandoned', async () => {
+      const walked: string[] = []
+      for await (const entry of fsAccess.walk(dir, { includeDirectories: true })) {
+        walked.push(entry.relativePath!)
+      }
+      expect(walked.sort()).toEqual(['a.txt', 'sub', 'sub/a.txt', 'sub/deep', 'sub/deep/c.txt'])
+
+      for await (const entry of fsAccess.walk(dir)) {
+        expect(entry.kind).toBe('file')
+        break
+      }
+      const again = await fsAccess.scanDirectory(dir)
+      expect(again.ok && again.data.length).toBe(3)
+    })
+  })
+
+  describe('deleteEntry', () => {
+    test('deletes nested entries by their relativePath', async () => {
+      const entry = await fsAccess.getEntry(dir, 'sub/a.txt')
+      if (!entry.ok) throw new Error('missing sub/a.txt')
+
+      const deleted = await fsAccess.deleteEntry(dir, entry.data)
+      expect(deleted.ok).toBe(true)
+      expect(root.at('sub/a.txt')).toBeUndefined()
+      expect((root.at('a.txt') as FakeFileHandle).text()).toBe('alpha')
+    })
+
+    test('refuses an entry whose handle is not the one at its path', async () => {
+      const stale = { name: 'a.txt', kind: 'file' as const, handle: asHandle(new FakeFileHandle('a.txt')) }
+
+      const refused = await fsAccess.deleteEntry(dir, stale)
+      expect(!refused.ok && refused.error.code).toBe('not_found')
+      expect(root.at('a.txt')).toBeDefined()
+    })
+
+    test('refuses a directory entry that is now a file', async () => {
+      const refused = await fsAccess.deleteEntry(dir, { name: 'a.txt', kind: 'directory' })
+      expect(!refused.ok && refused.error.code).toBe('not_found')
+      expect(root.at('a.txt')).toBeDefined()
+    })
+
+    test('needs recursive for non-empty directories', async () => {
+      const sub = await fsAccess.getEntry(dir, 'sub')
+      if (!sub.ok) throw new Error('missing sub')
+
+      const refused = await fsAccess.deleteEntry(dir, sub.data)
+      expect(!refused.ok && refused.error.code).toBe('io_error')
+
+      const deleted = await fsAccess.deleteEntry(dir, sub.data, { recursive: true })
+      expect(deleted.ok).toBe(true)
+      expect(root.at('sub')).toBeUndefined()
+    })
+
+    test('paths climbing out of the directory are refused', async () => {
+      const refused = await fsAccess.deleteEntry(dir, { name: 'a.txt', kind: 'file', relativePath: '../a.txt' })
+      expect(!refused.ok && refused.error.code).toBe('permission_denied')
+    })
+  })
+
+  describe('moveEntry and copyEntry with overwrite', () => {
+    test('replace the existing target once the transfer succeeds', async () => {
+      const nested = await fsAccess.getEntry(dir, 'sub/a.txt')
+      const deep = await fsAccess.getEntry(dir, 'sub/deep/c.txt')
+      if (!nested.ok || !deep.ok) throw new Error('missing entries')
+
+      const copied = await fsAccess.copyEntry(nested.data, dir, undefined, { overwrite: true })
+      expect(copied.ok).toBe(true)
+      expect((root.at('a.txt') as FakeFileHandle).text()).toBe('nested')
+
+      const moved = await fsAccess.moveEntry(deep.data, dir, 'a.txt', { overwrite: true })
+      expect(moved.ok).toBe(true)
+      expect((root.at('a.txt') as FakeFileHandle).text()).toBe('gamma')
+      expect(root.at('sub/deep/c.txt')).toBeUndefined()
+      expect([...root.children.keys()].sort()).toEqual(['a.txt', 'sub'])
+    })
+
+    test('keep the existing target when the transfer fails', async () => {
+      const elsewhere = fakeDirectory('elsewhere', { 'gone.txt': 'gone' })
+      const gone = { name: 'gone.txt', kind: 'file' as const, handle: asHandle(elsewhere.at('gone.txt') as FakeFileHandle) }
+      await elsewhere.removeEntry('gone.txt')
+
+      const copied = await fsAccess.copyEntry(gone, dir, 'a.txt', { overwrite: true })
+      expect(!copied.ok && copied.error.code).toBe('not_found')
+
+      const moved = await fsAccess.moveEntry(gone, dir, 'a.txt', { overwrite: true })
+      expect(!moved.ok && moved.error.code).toBe('not_found')
+
+      expect((root.at('a.txt') as FakeFileHandle).text()).toBe('alpha')
+      expect([...root.children.keys()].sort()).toEqual(['a.txt', 'sub'])
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'vitest'
+import { Sha256, toHex, hashBytes, hashStream } from '../hash'
+import { bytesToStream } from '../utils'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+function pseudoRandomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length)
+  let seed = 1
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0
+    bytes[i] = seed >>> 24
+  }
+  return bytes
+}
+
+describe('Sha256', () => {
+  test('known digests', () => {
+    expect(toHex(new Sha256().digest())).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855')
+    expect(toHex(new Sha256().update(encode('abc')).digest())).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    )
+    expect(
+      toHex(new Sha256().update(encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).digest())
+    ).toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1')
+  })
+
+  test('chunk boundaries do not change the digest', async () => {
+    const bytes = pseudoRandomBytes(1000)
+    const expected = await hashBytes(bytes)
+
+    for (const size of [1, 7, 55, 56, 63, 64, 65, 333]) {
+      const hash = new Sha256()
+      for (let offset = 0; offset < bytes.length; offset += size) {
+        hash.update(bytes.subarray(offset, offset + size))
+      }
+      expect(toHex(hash.digest())).toBe(expected)
+    }
+  })
+})
+
+describe('hashStream', () => {
+  test('matches SubtleCrypto for SHA-256', async () => {
+    const bytes = pseudoRandomBytes(200_000)
+    expect(await hashStream(bytesToStream(bytes, 4096))).toBe(await hashBytes(bytes))
+  })
+
+  test('buffers other algorithms', async () => {
+    const bytes = encode('abc')
+    expect(await hashStream(bytesToStream(bytes, 1), 'SHA-1')).toBe('a9993e364706816aba3e25717850c26c9cd0d89d')
+  })
+})
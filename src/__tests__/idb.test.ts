@@ -1,7 +1,7 @@
 import 'fake-indexeddb/auto'
 import { describe, test, expect, beforeEach } from 'vitest'
 import { IDBStorage } from '../storage/idb'
-import type { StoredFile } from '../types'
+import type { StoredFile, StoredTrashItem } from '../types'
 
 function makeStoredFile(id: string, size = 100): StoredFile {
   return {
@@ -143,6 +143,27 @@ describe('IDBStorage handle operations', () => {
     await expect(storage.removeHandle('ghost')).resolves.not.toThrow()
   })
 
+  test('updateHandle renames the record and keeps storedAt', async () => {
+    const handle = { kind: 'directory', name: 'old' } as unknown as FileSystemDirectoryHandle
+    const stored = await storage.storeHandle(handle, 'd1')
+
+    const renamed = { kind: 'directory', name: 'new' } as unknown as FileSystemDirectoryHandle
+    await storage.updateHandle('d1', renamed)
+
+    const handles = await storage.getStoredHandles()
+    expect(handles).toHaveLength(1)
+    expect(handles[0].name).toBe('new')
+    expect(handles[0].storedAt).toBe(stored.storedAt)
+    expect((await storage.getHandleObject('d1'))?.name).toBe('new')
+  })
+
+  test('updateHandle on non-existent id does not create a record', async () => {
+    const handle = { kind: 'directory', name: 'ghost' } as unknown as FileSystemDirectoryHandle
+    await storage.updateHandle('ghost', handle)
+    expect(await storage.getStoredHandles()).toHaveLength(0)
+    expect(await storage.getHandleObject('ghost')).toBeNull()
+  })
+
   test('clearHandles removes all handles', async () => {
     await storage.clearHandles()
     const handles = await storage.getStoredHandles()
@@ -150,6 +171,61 @@ describe('IDBStorage handle operations', () => {
   })
 })
 
+describe('IDBStorage trash', () => {
+  let storage: IDBStorage
+
+  function makeTrashItem(id: string, deletedAt: number, size = 10): StoredTrashItem {
+    return {
+      id,
+      fileId: `file-${id}`,
+      name: `${id}.txt`,
+      size,
+      deletedAt,
+      mimeType: 'text/plain',
+      content: new Uint8Array(size).fill(1),
+    }
+  }
+
+  beforeEach(() => {
+    storage = new IDBStorage('test-trash-' + Math.random().toString(36).slice(2))
+  })
+
+  test('listTrashItems returns items newest first without content', async () => {
+    await storage.storeTrashItem(makeTrashItem('old', 1000))
+    await storage.storeTrashItem(makeTrashItem('new', 2000))
+
+    const items = await storage.listTrashItems()
+    expect(items.map((item) => item.id)).toEqual(['new', 'old'])
+    expect(items[0]).not.toHaveProperty('content')
+
+    const full = await storage.getTrashItem('old')
+    expect(new Uint8Array(full!.content!)).toEqual(new Uint8Array(10).fill(1))
+  })
+
+  test('removeTrashItems deletes only the given ids', async () => {
+    await storage.storeTrashItem(makeTrashItem('a', 1000))
+    await storage.storeTrashItem(makeTrashItem('b', 2000))
+    await storage.removeTrashItems(['a'])
+    expect((await storage.listTrashItems()).map((item) => item.id)).toEqual(['b'])
+  })
+
+  test('content over the cache limit is refused', async () => {
+    const small = new IDBStorage('test-trash-small-' + Math.random().toString(36).slice(2), 10, 50)
+    expect(await small.storeTrashItem(makeTrashItem('big', 1000, 100))).toBe(false)
+    expect(await small.listTrashItems()).toHaveLength(0)
+  })
+})
+
+describe('IDBStorage versions', () => {
+  test('content over the cache limit is refused', async () => {
+    const storage = new IDBStorage('test-versions-' + Math.random().toString(36).slice(2), 10, 50)
+    const version = { id: 'big', fileId: 'doc', name: 'doc.txt', size: 100, createdAt: 1000, content: new Uint8Array(100) }
+    expect(await storage.storeVersion(version)).toBe(false)
+    expect(await storage.storeVersion({ ...version, id: 'small', size: 10, content: new Uint8Array(10) })).toBe(true)
+    expect((await storage.listVersions('doc')).map((v) => v.id)).toEqual(['small'])
+  })
+})
+
 describe('IDBStorage dispose', () => {
   test('after dispose, getDB reopens the database', async () => {
     const storage = new IDBStorage('test-dispose-' + Math.random().toString(36).slice(2))
@@ -0,0 +1,272 @@
+import 'fake-indexeddb/auto'
+import { describe, test, expect, beforeEach } from 'vitest'
+import { MemoryAdapter } from '../adapters/memory'
+import { createOneFS } from '../index'
+import type { OneFSDirectory, OneFSFile, OneFSWatchEvent } from '../types'
+
+const text = (bytes: Uint8Array | null) => (bytes ? new TextDecoder().decode(bytes) : null)
+
+describe('MemoryAdapter pickers', () => {
+  let memory: MemoryAdapter
+
+  beforeEach(() => {
+    memory = new MemoryAdapter('test')
+    memory.writeFile('/docs/a.txt', 'alpha')
+    memory.writeFile('/docs/b.txt', 'beta')
+  })
+
+  test('openFile returns the queued file', async () => {
+    memory.queuePick('/docs/a.txt')
+    const result = await memory.openFile()
+    expect(result.ok).toBe(true)
+    if (result.ok && !Array.isArray(result.data)) {
+      expect(result.data).toMatchObject({ name: 'a.txt', path: '/docs/a.txt', size: 5, mimeType: 'text/plain' })
+      expect(text(result.data.content)).toBe('alpha')
+    }
+  })
+
+  test('openFile with multiple returns every queued path', async () => {
+    memory.queuePick('/docs/a.txt', '/docs/b.txt')
+    const result = await memory.openFile({ multiple: true })
+    expect(result.ok && Array.isArray(result.data) && result.data.map((f) => f.name)).toEqual(['a.txt', 'b.txt'])
+  })
+
+  test('cancels when cancel is queued or nothing is queued', async () => {
+    memory.queueCancel()
+    const cancelled = await memory.openFile()
+    expect(!cancelled.ok && cancelled.error.code).toBe('cancelled')
+
+    const empty = await memory.openDirectory()
+    expect(!empty.ok && empty.error.code).toBe('cancelled')
+  })
+
+  test('queued paths that do not exist are not_found', async () => {
+    memory.queuePick('/docs/missing.txt')
+    const result = await memory.openFile()
+    expect(!result.ok && result.error.code).toBe('not_found')
+  })
+
+  test('saveFileAs writes to the queued path, or the suggested name', async () => {
+    memory.queuePick('/out/report.txt')
+    const picked = await memory.saveFileAs('report')
+    expect(picked.ok && picked.data.path).toBe('/out/report.txt')
+    expect(text(memory.readFile('/out/report.txt'))).toBe('report')
+
+    const fallback = await memory.saveFileAs('x', { suggestedName: 'untitled.txt' })
+    expect(fallback.ok && fallback.data.path).toBe('/untitled.txt')
+  })
+
+  test('lazy files read from the tree on demand', async () => {
+    memory.queuePick('/docs/a.txt')
+    const result = await memory.openFile({ loadContent: false })
+    expect(result.ok).toBe(true)
+    if (!result.ok || Array.isArray(result.data)) return
+
+    memory.writeFile('/docs/a.txt', 'changed')
+    const lazy = result.data as OneFSFile & { text(): Promise<{ ok: boolean; data?: string }> }
+    expect(lazy.content.byteLength).toBe(0)
+    expect(await lazy.text()).toEqual({ ok: true, data: 'changed' })
+  })
+})
+
+describe('MemoryAdapter files', () => {
+  let memory: MemoryAdapter
+  let file: OneFSFile
+
+  beforeEach(async () => {
+    memory = new MemoryAdapter('test')
+    memory.writeFile('/notes.txt', 'v1', 1000)
+    memory.queuePick('/notes.txt')
+    const result = await memory.openFile()
+    if (!result.ok || Array.isArray(result.data)) throw new Error('open failed')
+    file = result.data
+  })
+
+  test('saveFile overwrites in place and updates the file metadata', async () => {
+    const result = await memory.saveFile(file, 'version 2')
+    expect(result.ok).toBe(true)
+    expect(text(memory.readFile('/notes.txt'))).toBe('version 2')
+    expect(file.size).toBe(9)
+  })
+
+  test('saveFile refuses with conflict when modified since', async () => {
+    memory.writeFile('/notes.txt', 'external', 5000)
+    const result = await memory.saveFile(file, 'mine', { ifUnmodifiedSince: file.lastModified })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('conflict')
+      expect(result.error.current).toEqual({ size: 8, lastModified: 5000 })
+    }
+  })
+
+  test('write streams commit on close', async () => {
+    const result = await memory.createWriteStream(file)
+    if (!result.ok) throw new Error('no stream')
+    const writer = result.data.getWriter()
+    await writer.write(new TextEncoder().encode('chunk 1, '))
+    await writer.write(new TextEncoder().encode('chunk 2'))
+    expect(text(memory.readFile('/notes.txt'))).toBe('v1')
+    await writer.close()
+    expect(text(memory.readFile('/notes.txt'))).toBe('chunk 1, chunk 2')
+  })
+
+  test('readRange slices the stored content', async () => {
+    memory.writeFile('/notes.txt', 'abcdef')
+    const result = await memory.readRange(file, 2, 3)
+    expect(result.ok && text(result.data)).toBe('cde')
+  })
+
+  test('recent files restore from the tree and follow renames', async () => {
+    const renamed = await memory.renameFile(file, 'renamed.txt')
+    expect(renamed.ok && renamed.data.path).toBe('/renamed.txt')
+
+    const [recent] = await memory.getRecentFiles()
+    expect(recent).toMatchObject({ id: file.id, name: 'renamed.txt', path: '/renamed.txt', type: 'file' })
+
+    const restored = await memory.restoreFile(recent)
+    expect(restored.ok && text(restored.data.content)).toBe('v1')
+
+    await memory.clearRecent()
+    expect(await memory.getRecentFiles()).toEqual([])
+  })
+
+  test('deleteFile with trash can be restored', async () => {
+    const deleted = await memory.deleteFile(file, { trash: true })
+    expect(deleted.ok).toBe(true)
+    expect(memory.exists('/notes.txt')).toBe(false)
+
+    const trash = await memory.listTrash()
+    expect(trash.ok && trash.data.map((item) => item.originalPath)).toEqual(['/notes.txt'])
+    if (!trash.ok) return
+
+    const restored = await memory.restoreFromTrash(trash.data[0])
+    expect(restored.ok && restored.data.id).toBe(file.id)
+    expect(text(memory.readFile('/notes.txt'))).toBe('v1')
+  })
+})
+
+describe('MemoryAdapter directories', () => {
+  let memory: MemoryAdapter
+  let root: OneFSDirectory
+
+  beforeEach(async () => {
+    memory = new MemoryAdapter('test')
+    memory.writeFile('/project/README.md', '# readme')
+    memory.writeFile('/project/src/index.ts', 'export {}')
+    memory.writeFile('/project/src/util.ts', 'export const x = 1')
+    memory.writeFile('/project/node_modules/pkg/index.js', '')
+    memory.writeFile('/project/.gitignore', 'node_modules/\n')
+    memory.queuePick('/project')
+    const result = await memory.openDirectory()
+    if (!result.ok) throw new Error('open failed')
+    root = result.data
+  })
+
+  test('readDirectory lists direct children', async () => {
+    const result = await memory.readDirectory(root)
+    expect(result.ok && result.data.map((e) => [e.name, e.kind])).toEqual([
+      ['.gitignore', 'file'],
+      ['README.md', 'file'],
+      ['node_modules', 'directory'],
+      ['src', 'directory'],
+    ])
+  })
+
+  test('scanDirectory applies scan filters and ignore files', async () => {
+    const result = await memory.scanDirectory(root, { extensions: ['.ts', '.js'], ignoreFiles: true })
+    expect(result.ok && result.data.map((e) => e.relativePath).sort()).toEqual(['src/index.ts', 'src/util.ts'])
+  })
+
+  test('getEntry resolves nested paths inside the directory', async () => {
+    const entry = await memory.getEntry(root, 'src/../src/util.ts')
+    expect(entry.ok && entry.data).toMatchObject({ kind: 'file', path: '/project/src/util.ts', relativePath: 'src/util.ts', depth: 1 })
+
+    const outside = await memory.getEntry(root, '../secret')
+    expect(!outside.ok && outside.error.code).toBe('permission_denied')
+  })
+
+  test('createDirectory, moveEntry and copyEntry', async () => {
+    const dist = await memory.createDirectory(root, 'dist')
+    if (!dist.ok) throw new Error('mkdir failed')
+
+    const again = await memory.createDirectory(root, 'dist')
+    expect(!again.ok && again.error.code).toBe('already_exists')
+
+    const src = await memory.getEntry(root, 'src')
+    if (!src.ok) throw new Error('missing src')
+
+    const progress: number[] = []
+    const copied = await memory.copyEntry(src.data, dist.data, 'src-copy', { onProgress: (n) => progress.push(n) })
+    expect(copied.ok).toBe(true)
+    expect(progress).toEqual([1, 2])
+    expect(text(memory.readFile('/project/dist/src-copy/util.ts'))).toBe('export const x = 1')
+
+    const moved = await memory.moveEntry(src.data, dist.data)
+    expect(moved.ok && moved.data.path).toBe('/project/dist/src')
+    expect(memory.exists('/project/src')).toBe(false)
+  })
+
+  test('deleteEntry needs recursive for non-empty directories', async () => {
+    const src = await memory.getEntry(root, 'src')
+    if (!src.ok) throw new Error('missing src')
+
+    const refused = await memory.deleteEntry(root, src.data)
+    expect(!refused.ok && refused.error.code).toBe('io_error')
+
+    const deleted = await memory.deleteEntry(root, src.data, { recursive: true })
+    expect(deleted.ok).toBe(true)
+    expect(memory.exists('/project/src/index.ts')).toBe(false)
+  })
+
+  test('renameDirectory updates recent directories', async () => {
+    const renamed = await memory.renameDirectory(root, 'app')
+    expect(renamed.ok && renamed.data.path).toBe('/app')
+
+    const [recent] = await memory.getRecentFiles()
+    const restored = await memory.restoreDirectory(recent)
+    expect(restored.ok && restored.data).toMatchObject({ name: 'app', path: '/app' })
+  })
+
+  test('watch reports changes as they happen', async () => {
+    const events: OneFSWatchEvent[] = []
+    const stop = await memory.watch(root, { recursive: true }, (event) => events.push(event))
+    if (!stop.ok) throw new Error('watch failed')
+
+    memory.writeFile('/project/src/new.ts', '')
+    memory.writeFile('/project/README.md', 'changed')
+    const src = await memory.getEntry(root, 'src')
+    if (src.ok) await memory.renameDirectory(src.data, 'lib')
+    memory.writeFile('/elsewhere.txt', '')
+    stop.data()
+    memory.writeFile('/project/after.txt', '')
+
+    expect(events.map((e) => [e.type, e.entry.relativePath, e.oldEntry?.relativePath])).toEqual([
+      ['created', 'src/new.ts', undefined],
+      ['modified', 'README.md', undefined],
+      ['renamed', 'lib', 'src'],
+    ])
+  })
+})
+
+describe('MemoryAdapter through OneFS', () => {
+  test('the adapter option uses the given instance', async () => {
+    const memory = new MemoryAdapter('test')
+    memory.writeFile('/data.json', '{"a":1}')
+    memory.queuePick('/data.json')
+
+    const fs = createOneFS({ appName: 'memory-test', adapter: memory })
+    expect(fs.platform).toBe('memory')
+    expect(fs.supportsDirectories).toBe(true)
+
+    const result = await fs.openFile()
+    expect(result.ok && fs.readAsJSON(result.data)).toEqual({ ok: true, data: { a: 1 } })
+  })
+
+  test('preferredAdapter memory starts with an empty tree', async () => {
+    const fs = createOneFS({ appName: 'memory-test', preferredAdapter: 'memory' })
+    expect(fs.platform).toBe('memory')
+
+    const result = await fs.openFile()
+    expect(!result.ok && result.error.code).toBe('cancelled')
+  })
+})
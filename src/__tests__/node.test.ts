@@ -0,0 +1,195 @@
+// @vitest-environment node
+import { describe, test, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, mkdir, readFile, writeFile, rm, utimes, chmod, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { NodeAdapter } from '../node'
+import { createOneFS } from '../index'
+import type { OneFSDirectory, OneFSFile, OneFSPromptRequest } from '../types'
+
+describe('NodeAdapter', () => {
+  let root: string
+  let dataDir: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'onefs-node-'))
+    dataDir = join(root, '.data')
+    await mkdir(join(root, 'docs', 'sub'), { recursive: true })
+    await writeFile(join(root, 'docs', 'a.txt'), 'alpha')
+    await writeFile(join(root, 'docs', 'sub', 'b.md'), '# beta')
+  })
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true })
+  })
+
+  function adapter(prompt?: (request: OneFSPromptRequest) => string | string[] | null) {
+    return new NodeAdapter('test', 10, true, { prompt, dataDir })
+  }
+
+  async function open(fs: NodeAdapter, path: string): Promise<OneFSFile> {
+    const result = await fs.openFile({ path })
+    if (!result.ok || Array.isArray(result.data)) throw new Error('open failed')
+    return result.data
+  }
+
+  test('is detected in Node without a DOM', () => {
+    expect(createOneFS({ appName: 'test', node: { dataDir } }).platform).toBe('node')
+  })
+
+  test('opens explicit paths without prompting', async () => {
+    const prompts: OneFSPromptRequest[] = []
+    const fs = adapter((request) => { prompts.push(request); return null })
+
+    const file = await open(fs, join(root, 'docs', 'a.txt'))
+    expect(file).toMatchObject({ name: 'a.txt', size: 5, mimeType: 'text/plain' })
+    expect(new TextDecoder().decode(file.content)).toBe('alpha')
+    expect(prompts).toEqual([])
+  })
+
+  test('asks the prompt and cancels on null', async () => {
+    const answers: (string | null)[] = [join(root, 'docs', 'a.txt'), null]
+    const prompts: OneFSPromptRequest[] = []
+    const fs = adapter((request) => { prompts.push(request); return answers.shift() ?? null })
+
+    const opened = await fs.openFile({ accept: ['.txt'] })
+    expect(opened.ok).toBe(true)
+
+    const cancelled = await fs.openDirectory()
+    expect(!cancelled.ok && cancelled.error.code).toBe('cancelled')
+    expect(prompts).toEqual([
+      { type: 'openFile', multiple: undefined, accept: ['.txt'] },
+      { type: 'openDirectory' },
+    ])
+  })
+
+  test('picker calls are cancelled without a prompt or path', async () => {
+    const result = await adapter().saveFileAs('data', { suggestedName: 'out.txt' })
+    expect(!result.ok && result.error.code).toBe('cancelled')
+  })
+
+  test('saveFile writes in place and detects conflicts', async () => {
+    const fs = adapter()
+    const file = await open(fs, join(root, 'docs', 'a.txt'))
+
+    const saved = await fs.saveFile(file, 'updated')
+    expect(saved.ok).toBe(true)
+    expect(await readFile(join(root, 'docs', 'a.txt'), 'utf8')).toBe('updated')
+
+    const later = new Date(file.lastModified + 60_000)
+    await utimes(join(root, 'docs', 'a.txt'), later, later)
+    const refused = await fs.saveFile(file, 'mine', { ifUnmodifiedSince: file.lastModified })
+    expect(!refused.ok && refused.error.code).toBe('conflict')
+  })
+
+  test('atomic saves keep the file mode', async () => {
+    const fs = adapter()
+    const path = join(root, 'docs', 'a.txt')
+    await chmod(path, 0o640)
+    const file = await open(fs, path)
+
+    expect((await fs.saveFile(file, 'updated')).ok).toBe(true)
+    expect((await stat(path)).mode & 0o777).toBe(0o640)
+  })
+
+  test('missing files are not_found', async () => {
+    const result = await adapter().openFile({ path: join(root, 'missing.txt') })
+    expect(!result.ok && result.error.code).toBe('not_found')
+  })
+
+  describe('directories', () => {
+    let fs: NodeAdapter
+    let dir: OneFSDirectory
+
+    beforeEach(async () => {
+      fs = adapter()
+      const result = await fs.openDirectory({ path: join(root, 'docs') })
+      if (!result.ok) throw new Error('open failed')
+      dir = result.data
+    })
+
+    test('readDirectory lists entries with stats', async () => {
+      await writeFile(join(root, 'docs', '.a.txt.onefs-tmp'), 'left by a crash')
+      const result = await fs.readDirectory(dir)
+      const entries = result.ok ? result.data.sort((a, b) => a.name.localeCompare(b.name)) : []
+      expect(entries.map((e) => [e.name, e.kind, e.size])).toEqual([
+        ['a.txt', 'file', 5],
+        ['sub', 'directory', undefined],
+      ])
+    })
+
+    test('scanDirectory walks with filters', async () => {
+      const result = await fs.scanDirectory(dir, { extensions: ['.md'] })
+      expect(result.ok && result.data.map((e) => [e.relativePath, e.depth])).toEqual([['sub/b.md', 1]])
+    })
+
+    test('getEntry stays inside the directory', async () => {
+      const entry = await fs.getEntry(dir, 'sub/b.md')
+      expect(entry.ok && entry.data).toMatchObject({ name: 'b.md', kind: 'file', size: 6, relativePath: 'sub/b.md' })
+
+      const outside = await fs.getEntry(dir, '../../etc/passwd')
+      expect(!outside.ok && outside.error.code).toBe('permission_denied')
+    })
+
+    test('writeFileToDirectory refuses to overwrite by default', async () => {
+      const refused = await fs.writeFileToDirectory(dir, 'a.txt', 'x')
+      expect(!refused.ok && refused.error.code).toBe('already_exists')
+
+      const written = await fs.writeFileToDirectory(dir, 'a.txt', 'x', { overwrite: true })
+      expect(written.ok).toBe(true)
+      expect(await readFile(join(root, 'docs', 'a.txt'), 'utf8')).toBe('x')
+    })
+
+    test('deleteEntry needs recursive for non-empty directories', async () => {
+      const sub = await fs.getEntry(dir, 'sub')
+      if (!sub.ok) throw new Error('missing sub')
+
+      const refused = await fs.deleteEntry(dir, sub.data)
+      expect(!refused.ok && refused.error.message).toContain('recursive')
+
+      const deleted = await fs.deleteEntry(dir, sub.data, { recursive: true })
+      expect(deleted.ok).toBe(true)
+    })
+
+    test('renameDirectory repoints recent files', async () => {
+      const file = await open(fs, join(root, 'docs', 'sub', 'b.md'))
+      const sub = await fs.getEntry(dir, 'sub')
+      if (!sub.ok) throw new Error('missing sub')
+
+      const renamed = await fs.renameDirectory(sub.data, 'notes')
+      expect(renamed.ok && renamed.data.path).toBe(join(root, 'docs', 'notes'))
+
+      const recent = await fs.getRecentFiles()
+      const stored = recent.find((item) => item.id === file.id)!
+      expect(stored.path).toBe(join(root, 'docs', 'notes', 'b.md'))
+
+      const restored = await fs.restoreFile(stored)
+      expect(restored.ok && new TextDecoder().decode(restored.data.content)).toBe('# beta')
+    })
+  })
+
+  test('recent files persist to recent.json', async () => {
+    const fs = adapter()
+    const file = await open(fs, join(root, 'docs', 'a.txt'))
+    const renamed = await fs.renameFile(file, 'renamed.txt')
+    expect(renamed.ok).toBe(true)
+
+    const stored = JSON.parse(await readFile(join(dataDir, 'recent.json'), 'utf8'))
+    expect(stored).toMatchObject([{ id: file.id, name: 'renamed.txt', type: 'file' }])
+
+    const recent = await adapter().getRecentFiles()
+    expect(recent.map((item) => item.id)).toEqual([file.id])
+
+    await adapter().clearRecent()
+    expect(await adapter().getRecentFiles()).toEqual([])
+  })
+
+  test('a failed recent.json write does not fail the open', async () => {
+    await writeFile(join(root, 'blocker'), '')
+    const fs = new NodeAdapter('test', 10, true, { dataDir: join(root, 'blocker', 'data') })
+
+    const opened = await fs.openFile({ path: join(root, 'docs', 'a.txt') })
+    expect(opened.ok).toBe(true)
+    expect(await fs.getRecentFiles()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,149 @@
+import { describe, test, expect } from 'vitest'
+import { globToRegExp, parseIgnoreFile, ScanFilter } from '../scan-filter'
+
+describe('globToRegExp', () => {
+  test('* does not cross directories', () => {
+    const regex = globToRegExp('*.md')
+    expect(regex.test('README.md')).toBe(true)
+    expect(regex.test('docs/README.md')).toBe(false)
+  })
+
+  test('**/ matches zero or more directories', () => {
+    const regex = globToRegExp('**/*.md')
+    expect(regex.test('README.md')).toBe(true)
+    expect(regex.test('docs/guide/intro.md')).toBe(true)
+    expect(regex.test('docs/intro.txt')).toBe(false)
+  })
+
+  test('trailing /** matches the directory itself and its contents', () => {
+    const regex = globToRegExp('node_modules/**')
+    expect(regex.test('node_modules')).toBe(true)
+    expect(regex.test('node_modules/pkg/index.js')).toBe(true)
+    expect(regex.test('node_modules_old')).toBe(false)
+  })
+
+  test('? matches a single character', () => {
+    const regex = globToRegExp('track?.mp3')
+    expect(regex.test('track1.mp3')).toBe(true)
+    expect(regex.test('track10.mp3')).toBe(false)
+  })
+
+  test('character classes and negated classes', () => {
+    expect(globToRegExp('[ab].txt').test('a.txt')).toBe(true)
+    expect(globToRegExp('[ab].txt').test('c.txt')).toBe(false)
+    expect(globToRegExp('[!ab].txt').test('c.txt')).toBe(true)
+  })
+
+  test('brace alternatives', () => {
+    const regex = globToRegExp('*.{md,txt}')
+    expect(regex.test('a.md')).toBe(true)
+    expect(regex.test('a.txt')).toBe(true)
+    expect(regex.test('a.json')).toBe(false)
+  })
+
+  test('regex characters are matched literally', () => {
+    expect(globToRegExp('a+b (1).txt').test('a+b (1).txt')).toBe(true)
+    expect(globToRegExp('a.txt').test('abtxt')).toBe(false)
+  })
+
+  test('backslash escapes glob characters', () => {
+    expect(globToRegExp('\\*.txt').test('*.txt')).toBe(true)
+    expect(globToRegExp('\\*.txt').test('a.txt')).toBe(false)
+  })
+})
+
+describe('parseIgnoreFile', () => {
+  test('skips comments and blank lines', () => {
+    expect(parseIgnoreFile('# comment\n\n   \n', '')).toHaveLength(0)
+  })
+
+  test('parses negation and directory-only rules', () => {
+    const rules = parseIgnoreFile('build/\n!keep.log\n', '')
+    expect(rules).toHaveLength(2)
+    expect(rules[0].directoryOnly).toBe(true)
+    expect(rules[1].negate).toBe(true)
+  })
+
+  test('unanchored rules match at any depth below the base', () => {
+    const [rule] = parseIgnoreFile('*.log', 'sub')
+    expect(rule.regex.test('sub/a.log')).toBe(true)
+    expect(rule.regex.test('sub/deep/a.log')).toBe(true)
+    expect(rule.regex.test('other/a.log')).toBe(false)
+  })
+
+  test('rules containing a slash are anchored to the base', () => {
+    const [rule] = parseIgnoreFile('/dist', 'app')
+    expect(rule.regex.test('app/dist')).toBe(true)
+    expect(rule.regex.test('app/src/dist')).toBe(false)
+  })
+})
+
+describe('ScanFilter', () => {
+  test('no options matches everything', () => {
+    const filter = ScanFilter.create()
+    expect(filter.matchesPath('a/b/c.txt')).toBe(true)
+    expect(filter.skipDirectory('a')).toBe(false)
+    expect(filter.matchesStats(100, Date.now())).toBe(true)
+    expect(filter.ignoreFileNames).toEqual([])
+  })
+
+  test('extensions filter is case-insensitive', () => {
+    const filter = ScanFilter.create({ extensions: ['.MP3', 'flac'] })
+    expect(filter.matchesPath('music/a.mp3')).toBe(true)
+    expect(filter.matchesPath('music/b.FLAC')).toBe(true)
+    expect(filter.matchesPath('music/c.wav')).toBe(false)
+  })
+
+  test('include requires a match and ! patterns exclude', () => {
+    const filter = ScanFilter.create({ include: ['**/*.md', '!node_modules/**'] })
+    expect(filter.matchesPath('docs/a.md')).toBe(true)
+    expect(filter.matchesPath('docs/a.txt')).toBe(false)
+    expect(filter.matchesPath('node_modules/pkg/README.md')).toBe(false)
+    expect(filter.skipDirectory('node_modules')).toBe(true)
+  })
+
+  test('exclude patterns without a slash prune at any depth', () => {
+    const filter = ScanFilter.create({ exclude: ['.git'] })
+    expect(filter.skipDirectory('.git')).toBe(true)
+    expect(filter.skipDirectory('vendor/lib/.git')).toBe(true)
+    expect(filter.skipDirectory('src')).toBe(false)
+  })
+
+  test('size and date filters', () => {
+    const filter = ScanFilter.create({ minSize: 10, maxSize: 100, modifiedSince: new Date(1000) })
+    expect(filter.matchesStats(50, 2000)).toBe(true)
+    expect(filter.matchesStats(5, 2000)).toBe(false)
+    expect(filter.matchesStats(500, 2000)).toBe(false)
+    expect(filter.matchesStats(50, 500)).toBe(false)
+  })
+
+  test('entries without stats pass size and date filters', () => {
+    const filter = ScanFilter.create({ minSize: 10, modifiedSince: 1000 })
+    expect(filter.matchesStats(undefined, undefined)).toBe(true)
+  })
+
+  test('ignoreFiles: true uses .gitignore and .onefsignore', () => {
+    expect(ScanFilter.create({ ignoreFiles: true }).ignoreFileNames).toEqual(['.gitignore', '.onefsignore'])
+    expect(ScanFilter.create({ ignoreFiles: ['.ignore'] }).ignoreFileNames).toEqual(['.ignore'])
+  })
+
+  test('ignore rules apply below their directory and the last match wins', () => {
+    const root = ScanFilter.create({ ignoreFiles: true }).withIgnoreFile('', 'build/\n*.log\n')
+    const nested = root.withIgnoreFile('logs', '!important.log\n')
+
+    expect(root.skipDirectory('build')).toBe(true)
+    expect(root.matchesPath('build')).toBe(true)
+    expect(root.matchesPath('a.log')).toBe(false)
+    expect(nested.matchesPath('logs/important.log')).toBe(true)
+    expect(nested.matchesPath('logs/other.log')).toBe(false)
+    expect(root.matchesPath('logs/important.log')).toBe(false)
+  })
+
+  test('withIgnoreFile returns a new filter and leaves the parent unchanged', () => {
+    const root = ScanFilter.create({ ignoreFiles: true })
+    const child = root.withIgnoreFile('sub', '*.tmp')
+    expect(child).not.toBe(root)
+    expect(root.matchesPath('sub/a.tmp')).toBe(true)
+    expect(child.matchesPath('sub/a.tmp')).toBe(false)
+  })
+})
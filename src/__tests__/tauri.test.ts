@@ -0,0 +1,473 @@
+// @vitest-environment node
+import 'fake-indexeddb/auto'
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest'
+import { access, mkdtemp, mkdir, readFile, readdir, writeFile, rm, stat, utimes } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { TauriAdapter } from '../adapters/tauri'
+import type { OneFSBackupConfig, OneFSDirectory, OneFSFile, OneFSWatchEvent } from '../types'
+
+/**
+ * Paths the dialog answers with - an empty queue cancels - the app data folder, the
+ * handler of the last watch() call, and paths whose stat answers late
+ */
+const tauri = vi.hoisted(() => ({
+  picks: [] as string[],
+  dataDir: '',
+  watcher: null as ((event: unknown) => void) | null,
+  slowStats: new Set<string>(),
+}))
+
+vi.mock('@tauri-apps/plugin-dialog', () => ({
+  open: async () => tauri.picks.shift() ?? null,
+  save: async () => tauri.picks.shift() ?? null,
+}))
+
+vi.mock('@tauri-apps/api/core', () => ({
+  convertFileSrc: (path: string) => `asset://${path}`,
+}))
+
+vi.mock('@tauri-apps/api/path', async () => {
+  const path = await import('node:path')
+  return {
+    appDataDir: async () => tauri.dataDir,
+    join: async (...parts: string[]) => path.join(...parts),
+  }
+})
+
+/** plugin-fs on top of node:fs, enough for the calls the adapter makes here */
+vi.mock('@tauri-apps/plugin-fs', async () => {
+  const fs = await import('node:fs/promises')
+  const toInfo = (stat: import('node:fs').Stats) => ({
+    size: stat.size,
+    mtime: stat.mtime,
+    mode: stat.mode,
+    isFile: stat.isFile(),
+    isDirectory: stat.isDirectory(),
+    isSymlink: stat.isSymbolicLink(),
+  })
+  return {
+    exists: (path: string) => fs.access(path).then(() => true, () => false),
+    readFile: async (path: string) => new Uint8Array(await fs.readFile(path)),
+    writeFile: (path: string, data: Uint8Array, options?: { mode?: number }) => fs.writeFile(path, data, { mode: options?.mode }),
+    copyFile: (from: string, to: string) => fs.copyFile(from, to),
+    mkdir: async (path: string, options?: { recursive?: boolean }) => {
+      await fs.mkdir(path, options)
+    },
+    readDir: async (path: string) =>
+      (await fs.readdir(path, { withFileTypes: true })).map((dirent) => ({
+        name: dirent.name,
+        isFile: dirent.isFile(),
+        isDirectory: dirent.isDirectory(),
+        isSymlink: dirent.isSymbolicLink(),
+      })),
+    remove: (path: string, options?: { recursive?: boolean }) => fs.rm(path, { recursive: !!options?.recursive }),
+    rename: (from: string, to: string) => fs.rename(from, to),
+    stat: async (path: string) => {
+      if (tauri.slowStats.has(path)) await new Promise((resolve) => setTimeout(resolve, 30))
+      return toInfo(await fs.stat(path))
+    },
+    watch: async (_path: string, handler: (event: unknown) => void) => {
+      tauri.watcher = handler
+      return () => {
+        tauri.watcher = null
+      }
+    },
+    lstat: async (path: string) => toInfo(await fs.lstat(path)),
+    SeekMode: { Start: 0 },
+    open: async (path: string, options: { write?: boolean; truncate?: boolean }) => {
+      const handle = await fs.open(path, options.write ? (options.truncate ? 'w' : 'r+') : 'r')
+      let position = 0
+      return {
+        stat: async () => toInfo(await handle.stat()),
+        seek: async (offset: number) => (position = offset),
+        read: async (buffer: Uint8Array) => {
+          const { bytesRead } = await handle.read(buffer, 0, buffer.byteLength, position)
+          position += bytesRead
+          return bytesRead || null
+        },
+        write: async (data: Uint8Array) => {
+          const { bytesWritten } = await handle.write(data, 0, data.byteLength, position)
+          position += bytesWritten
+          return bytesWritten
+        },
+        close: () => handle.close(),
+      }
+    },
+  }
+})
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+async function readChunks(stream: ReadableStream<Uint8Array>): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = []
+  const reader = stream.getReader()
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    chunks.push(read.value)
+  }
+  return chunks
+}
+
+describe('TauriAdapter', () => {
+  let root: string
+  let docs: string
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'onefs-tauri-'))
+    docs = join(root, 'docs')
+    tauri.dataDir = join(root, '.data')
+    tauri.picks.length = 0
+    tauri.slowStats.clear()
+    await mkdir(docs)
+    await writeFile(join(docs, 'a.txt'), 'alpha')
+
+    // Backups are named by Date.now() - keep saves in the same millisecond apart
+    let now = Date.now()
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000))
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(root, { recursive: true, force: true })
+  })
+
+  function adapter(backups?: boolean | OneFSBackupConfig): TauriAdapter {
+    return new TauriAdapter(`tauri-test-${Math.random()}`, 10, true, backups)
+  }
+
+  async function open(fs: TauriAdapter, path: string): Promise<OneFSFile> {
+    tauri.picks.push(path)
+    const result = await fs.openFile()
+    if (!result.ok || Array.isArray(result.data)) throw new Error('open failed')
+    return result.data
+  }
+
+  /** Wait for the deferred recent-files write that opening `file` queued */
+  async function recorded(fs: TauriAdapter, file: OneFSFile): Promise<void> {
+    await vi.waitFor(async () => {
+      const recent = await fs.getRecentFiles()
+      if (!recent.some((item) => item.id === file.id)) throw new Error('not recorded yet')
+    })
+  }
+
+  async function openDir(fs: TauriAdapter, path: string): Promise<OneFSDirectory> {
+    tauri.picks.push(path)
+    const result = await fs.openDirectory()
+    if (!result.ok) throw new Error('open failed')
+    return result.data
+  }
+
+  describe('openReadStream', () => {
+    test('streams a path in 256 KiB chunks', async () => {
+      const big = new Uint8Array(600 * 1024).map((_, i) => i % 251)
+      await writeFile(join(docs, 'big.bin'), big)
+
+      const stream = await adapter().openReadStream({ name: 'big.bin', kind: 'file', path: join(docs, 'big.bin') })
+      const chunks = stream.ok ? await readChunks(stream.data) : []
+      expect(chunks.map((chunk) => chunk.byteLength)).toEqual([256 * 1024, 256 * 1024, 88 * 1024])
+      expect(Buffer.concat(chunks).equals(big)).toBe(true)
+    })
+  })
+
+  describe('readRange and maxBytes', () => {
+    test('read only the requested bytes through a file handle', async () => {
+      const fs = adapter()
+      const entry = { name: 'a.txt', kind: 'file' as const, path: join(docs, 'a.txt') }
+
+      const range = await fs.readRange(entry, 1, 3)
+      expect(range.ok && text(range.data)).toBe('lph')
+      const tail = await fs.readRange(entry, 3, 100)
+      expect(tail.ok && text(tail.data)).toBe('ha')
+
+      const head = await fs.readFileFromDirectory({ id: 'docs', name: 'docs', path: docs }, entry, { maxBytes: 2 })
+      expect(head.ok && [text(head.data.content), head.data.size]).toEqual(['al', 2])
+    })
+  })
+
+  describe('writeFileToDirectory', () => {
+    test('creates new files and only replaces existing ones with overwrite', async () => {
+      const fs = adapter()
+      const dir = await openDir(fs, docs)
+
+      const created = await fs.writeFileToDirectory(dir, 'new.txt', 'fresh', { persist: false })
+      expect(created.ok && created.data.path).toBe(`${docs}/new.txt`)
+      expect(await readFile(join(docs, 'new.txt'), 'utf8')).toBe('fresh')
+
+      const refused = await fs.writeFileToDirectory(dir, 'a.txt', 'x', { persist: false })
+      expect(!refused.ok && refused.error.code).toBe('already_exists')
+      expect(await readFile(join(docs, 'a.txt'), 'utf8')).toBe('alpha')
+
+      const replaced = await fs.writeFileToDirectory(dir, 'a.txt', 'x', { overwrite: true, persist: false })
+      expect(replaced.ok).toBe(true)
+      expect(await readFile(join(docs, 'a.txt'), 'utf8')).toBe('x')
+    })
+  })
+
+  describe('createDirectory', () => {
+    test('recursive creates missing parents and accepts an existing folder', async () => {
+      const fs = adapter()
+      const dir = await openDir(fs, docs)
+
+      const flat = await fs.createDirectory(dir, 'x/y')
+      expect(flat.ok).toBe(false)
+
+      const nested = await fs.createDirectory(dir, 'x/y/z', { recursive: true })
+      expect(nested.ok && [nested.data.name, nested.data.path]).toEqual(['z', `${docs}/x/y/z`])
+      expect((await stat(join(docs, 'x', 'y', 'z'))).isDirectory()).toBe(true)
+
+      const existing = await fs.createDirectory(dir, 'x/y', { recursive: true })
+      expect(existing.ok).toBe(true)
+      const taken = await fs.createDirectory(dir, 'x')
+      expect(!taken.ok && taken.error.code).toBe('already_exists')
+    })
+  })
+
+  describe('getEntry', () => {
+    test('resolves nested paths and refuses ones that leave the directory', async () => {
+      const fs = adapter()
+      await mkdir(join(docs, 'sub'))
+      await writeFile(join(docs, 'sub', 'b.md'), '# beta')
+      const dir = await openDir(fs, docs)
+
+      const entry = await fs.getEntry(dir, 'sub/./b.md')
+      expect(entry.ok && entry.data).toMatchObject({ name: 'b.md', kind: 'file', size: 6, path: `${docs}/sub/b.md`, relativePath: 'sub/b.md', depth: 1 })
+
+      await writeFile(join(root, 'secret.txt'), 'secret')
+      for (const path of ['../secret.txt', 'sub/../../secret.txt']) {
+        const outside = await fs.getEntry(dir, path)
+        expect(!outside.ok && outside.error.code).toBe('permission_denied')
+      }
+    })
+  })
+
+  describe('watch', () => {
+    const created = (...paths: string[]) => ({ type: { create: { kind: 'file' } }, paths, attrs: {} })
+
+    async function watchDocs(fs: TauriAdapter) {
+      const events: OneFSWatchEvent[] = []
+      const dir = await openDir(fs, docs)
+      const unwatch = await fs.watch(dir, { recursive: true }, (event) => events.push(event))
+      if (!unwatch.ok) throw new Error('watch failed')
+      return { events, unwatch: unwatch.data }
+    }
+
+    test('converts plugin events into created, deleted, modified and renamed', async () => {
+      const fs = adapter()
+      const { events, unwatch } = await watchDocs(fs)
+      await writeFile(join(docs, 'b.txt'), 'beta')
+
+      tauri.watcher!(created(join(docs, 'b.txt')))
+      tauri.watcher!({ type: { modify: { kind: 'data', mode: 'content' } }, paths: [join(docs, 'a.txt')], attrs: {} })
+      tauri.watcher!({ type: { modify: { kind: 'rename', mode: 'both' } }, paths: [join(docs, 'old.txt'), join(docs, 'b.txt')], attrs: {} })
+      tauri.watcher!({ type: { remove: { kind: 'folder' } }, paths: [join(docs, 'gone')], attrs: {} })
+      tauri.watcher!({ type: { access: { kind: 'open' } }, paths: [join(docs, 'a.txt')], attrs: {} })
+
+      await vi.waitFor(() => expect(events).toHaveLength(4))
+      expect(events.map((event) => [event.type, event.entry.relativePath, event.entry.kind])).toEqual([
+        ['created', 'b.txt', 'file'],
+        ['modified', 'a.txt', 'file'],
+        ['renamed', 'b.txt', 'file'],
+        ['deleted', 'gone', 'directory'],
+      ])
+      expect(events[0].entry.size).toBe(4)
+      expect(events[2].oldEntry?.relativePath).toBe('old.txt')
+
+      unwatch()
+      expect(tauri.watcher).toBeNull()
+    })
+
+    test('events keep their order while slow stats resolve', async () => {
+      const fs = adapter()
+      const { events } = await watchDocs(fs)
+      tauri.slowStats.add(join(docs, 'a.txt'))
+
+      tauri.watcher!(created(join(docs, 'a.txt')))
+      tauri.watcher!({ type: { remove: { kind: 'file' } }, paths: [join(docs, 'b.txt')], attrs: {} })
+
+      await vi.waitFor(() => expect(events).toHaveLength(2))
+      expect(events.map((event) => [event.type, event.entry.name])).toEqual([['created', 'a.txt'], ['deleted', 'b.txt']])
+    })
+
+    test('atomic temp files are hidden, .backups only when backups are kept there', async () => {
+      for (const [backups, shown] of [[true, []], [false, ['.backups/x.bak']]] as const) {
+        const fs = adapter(backups)
+        const { events } = await watchDocs(fs)
+
+        tauri.watcher!(created(join(docs, '.a.txt.onefs-tmp')))
+        tauri.watcher!(created(join(docs, '.backups', 'x.bak')))
+        tauri.watcher!(created(join(docs, 'a.txt')))
+
+        await vi.waitFor(() => expect(events.at(-1)?.entry.name).toBe('a.txt'))
+        expect(events.map((event) => event.entry.relativePath)).toEqual([...shown, 'a.txt'])
+      }
+    })
+  })
+
+  describe('saveFile', () => {
+    test('ifUnmodifiedSince refuses a file changed on disk since it was read', async () => {
+      const fs = adapter()
+      const file = await open(fs, join(docs, 'a.txt'))
+      expect(file.lastModified).toBe((await stat(join(docs, 'a.txt'))).mtime.getTime())
+
+      const later = new Date(file.lastModified + 60_000)
+      await writeFile(join(docs, 'a.txt'), 'changed elsewhere')
+      await utimes(join(docs, 'a.txt'), later, later)
+
+      const refused = await fs.saveFile(file, 'mine', { ifUnmodifiedSince: file.lastModified })
+      expect(!refused.ok && refused.error).toMatchObject({ code: 'conflict', current: { size: 17, lastModified: later.getTime() } })
+      expect(await readFile(join(docs, 'a.txt'), 'utf8')).toBe('changed elsewhere')
+
+      const saved = await fs.saveFile(file, 'mine', { ifUnmodifiedSince: later.getTime() })
+      expect(saved.ok).toBe(true)
+      expect([file.size, file.lastModified]).toEqual([4, (await stat(join(docs, 'a.txt'))).mtime.getTime()])
+
+      const again = await fs.saveFile(file, 'mine again', { ifUnmodifiedSince: file.lastModified })
+      expect(again.ok).toBe(true)
+    })
+  })
+
+  describe('renameDirectory', () => {
+    test('renames on disk and moves recent files inside along', async () => {
+      const fs = adapter()
+      await mkdir(join(docs, 'sub'))
+      await writeFile(join(docs, 'sub', 'b.md'), '# beta')
+      const file = await open(fs, join(docs, 'sub', 'b.md'))
+      await recorded(fs, file)
+
+      const renamed = await fs.renameDirectory({ id: 'sub', name: 'sub', path: join(docs, 'sub') }, 'notes')
+      expect(renamed.ok && renamed.data.path).toBe(join(docs, 'notes'))
+      expect(await readFile(join(docs, 'notes', 'b.md'), 'utf8')).toBe('# beta')
+
+      const recent = await fs.getRecentFiles()
+      expect(recent.find((item) => item.id === file.id)?.path).toBe(join(docs, 'notes', 'b.md'))
+
+      const taken = await fs.renameDirectory({ id: 'notes', name: 'notes', path: join(docs, 'notes') }, 'a.txt')
+      expect(!taken.ok && taken.error.code).toBe('already_exists')
+    })
+  })
+
+  describe('backups', () => {
+    test('saveFile keeps the previous versions in .backups up to maxBackups', async () => {
+      const fs = adapter({ maxBackups: 2 })
+      const file = await open(fs, join(docs, 'a.txt'))
+
+      for (const content of ['one', 'two', 'three']) {
+        const saved = await fs.saveFile(file, content)
+        expect(saved).toEqual({ ok: true, data: true })
+      }
+      expect(await readFile(join(docs, 'a.txt'), 'utf8')).toBe('three')
+      expect(await readdir(join(docs, '.backups'))).toHaveLength(2)
+
+      const backups = await fs.listBackups(file)
+      const kept = backups.ok ? backups.data : []
+      expect(kept.map((backup) => backup.location)).toEqual(['folder', 'folder'])
+      expect(kept[0].createdAt).toBeGreaterThan(kept[1].createdAt)
+      expect(await Promise.all(kept.map((backup) => readFile(backup.path!, 'utf8')))).toEqual(['two', 'one'])
+    })
+
+    test('backup: false skips the backup for one save', async () => {
+      const fs = adapter(true)
+      const file = await open(fs, join(docs, 'a.txt'))
+
+      await fs.saveFile(file, 'unsaved draft', { backup: false })
+      const backups = await fs.listBackups(file)
+      expect(backups.ok && backups.data).toEqual([])
+    })
+
+    test('restoreBackup writes the backup back and backs up the version it replaces', async () => {
+      const fs = adapter(true)
+      const file = await open(fs, join(docs, 'a.txt'))
+      await fs.saveFile(file, 'one')
+      await fs.saveFile(file, 'two')
+
+      const before = await fs.listBackups(file)
+      const oldest = before.ok ? before.data.at(-1)! : null
+      const restored = await fs.restoreBackup(file, oldest!)
+      expect(restored.ok && text(restored.data.content)).toBe('alpha')
+      expect(await readFile(join(docs, 'a.txt'), 'utf8')).toBe('alpha')
+      expect(restored.ok && restored.data.lastModified).toBe((await stat(join(docs, 'a.txt'))).mtime.getTime())
+
+      const after = await fs.listBackups(file)
+      const newest = after.ok ? after.data[0] : null
+      expect(await readFile(newest!.path!, 'utf8')).toBe('two')
+
+      const missing = await fs.restoreBackup(file, { ...oldest!, id: join(docs, '.backups', 'a.txt.1.bak') })
+      expect(!missing.ok && missing.error.code).toBe('not_found')
+    })
+
+    test('sibling backups keep one copy next to the file', async () => {
+      const fs = adapter({ location: 'sibling' })
+      const file = await open(fs, join(docs, 'a.txt'))
+      await fs.saveFile(file, 'one')
+      await fs.saveFile(file, 'two')
+
+      expect(await readFile(join(docs, 'a.txt~'), 'utf8')).toBe('one')
+      const backups = await fs.listBackups(file)
+      expect(backups.ok && backups.data.map((backup) => backup.location)).toEqual(['sibling'])
+    })
+
+    test('listings and scans skip the .backups folder', async () => {
+      const fs = adapter(true)
+      const file = await open(fs, join(docs, 'a.txt'))
+      await fs.saveFile(file, 'one')
+
+      const dir = await openDir(fs, docs)
+      const listed = await fs.readDirectory(dir)
+      expect(listed.ok && listed.data.map((entry) => entry.name)).toEqual(['a.txt'])
+      const scanned = await fs.scanDirectory(dir, { includeDirectories: true })
+      expect(scanned.ok && scanned.data.map((entry) => entry.relativePath)).toEqual(['a.txt'])
+    })
+
+    test('a .backups folder is user data when backups are not kept in folders', async () => {
+      await mkdir(join(docs, '.backups'))
+      await writeFile(join(docs, '.backups', 'mine.txt'), 'mine')
+
+      for (const backups of [undefined, { location: 'sibling' as const }]) {
+        const fs = adapter(backups)
+        const dir = await openDir(fs, docs)
+        const listed = await fs.readDirectory(dir)
+        expect(listed.ok && listed.data.map((entry) => entry.name).sort()).toEqual(['.backups', 'a.txt'])
+        const scanned = await fs.scanDirectory(dir)
+        expect(scanned.ok && scanned.data.map((entry) => entry.relativePath).sort()).toEqual(['.backups/mine.txt', 'a.txt'])
+      }
+    })
+  })
+
+  describe('trash', () => {
+    test('deleteFile with trash moves the file out and restoreFromTrash puts it back', async () => {
+      const fs = adapter()
+      const file = await open(fs, join(docs, 'a.txt'))
+      await recorded(fs, file)
+
+      const deleted = await fs.deleteFile(file, { trash: true })
+      expect(deleted.ok).toBe(true)
+      await expect(access(join(docs, 'a.txt'))).rejects.toThrow()
+      expect(await readdir(join(tauri.dataDir, 'trash'))).toHaveLength(1)
+
+      const trash = await fs.listTrash()
+      const items = trash.ok ? trash.data : []
+      expect(items.map((item) => [item.name, item.originalPath, item.size])).toEqual([['a.txt', join(docs, 'a.txt'), 5]])
+
+      const restored = await fs.restoreFromTrash(items[0])
+      expect(restored.ok && [restored.data.id, text(restored.data.content)]).toEqual([file.id, 'alpha'])
+      expect(await readFile(join(docs, 'a.txt'), 'utf8')).toBe('alpha')
+      expect(await readdir(join(tauri.dataDir, 'trash'))).toEqual([])
+
+      const again = await fs.restoreFromTrash(items[0])
+      expect(!again.ok && again.error.code).toBe('not_found')
+    })
+
+    test('restoreFromTrash refuses to overwrite a file created since', async () => {
+      const fs = adapter()
+      const file = await open(fs, join(docs, 'a.txt'))
+      await recorded(fs, file)
+      await fs.deleteFile(file, { trash: true })
+      await writeFile(join(docs, 'a.txt'), 'new')
+
+      const trash = await fs.listTrash()
+      const restored = await fs.restoreFromTrash(trash.ok ? trash.data[0] : { id: '', name: '', size: 0, deletedAt: 0 })
+      expect(!restored.ok && restored.error.code).toBe('already_exists')
+      expect(await readFile(join(docs, 'a.txt'), 'utf8')).toBe('new')
+    })
+  })
+})
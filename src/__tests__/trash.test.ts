@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'vitest'
+import { toTrashItem, selectExpiredTrash } from '../trash'
+import type { StoredTrashItem } from '../types'
+
+function stored(id: string, deletedAt: number, originalPath?: string): StoredTrashItem {
+  return {
+    id,
+    fileId: `file-${id}`,
+    name: `${id}.txt`,
+    originalPath,
+    size: 3,
+    deletedAt,
+    mimeType: 'text/plain',
+    trashPath: `/trash/${id}`,
+  }
+}
+
+describe('toTrashItem', () => {
+  test('exposes only the public fields', () => {
+    expect(toTrashItem(stored('a', 1000, '/docs/a.txt'))).toEqual({
+      id: 'a',
+      name: 'a.txt',
+      originalPath: '/docs/a.txt',
+      size: 3,
+      deletedAt: 1000,
+    })
+  })
+
+  test('omits originalPath when there is none', () => {
+    expect(toTrashItem(stored('a', 1000))).not.toHaveProperty('originalPath')
+  })
+})
+
+describe('selectExpiredTrash', () => {
+  const items = [stored('a', 1000), stored('b', 2000), stored('c', 3000)]
+
+  test('everything without olderThan', () => {
+    expect(selectExpiredTrash(items)).toHaveLength(3)
+  })
+
+  test('olderThan accepts a timestamp or a Date', () => {
+    expect(selectExpiredTrash(items, { olderThan: 2500 }).map((item) => item.id)).toEqual(['a', 'b'])
+    expect(selectExpiredTrash(items, { olderThan: new Date(2000) }).map((item) => item.id)).toEqual(['a'])
+  })
+})
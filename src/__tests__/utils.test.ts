@@ -9,7 +9,17 @@ import {
   toArrayBuffer,
   uint8ArrayToBase64,
   base64ToUint8Array,
+  bytesToStream,
+  readStreamRange,
+  withLazyContent,
+  splitRelativePath,
+  resolveRelativePath,
+  conflict,
+  getAtomicTempPath,
+  isAtomicTempName,
 } from '../utils'
+import { ok } from '../types'
+import type { OneFSFile } from '../types'
 
 describe('generateId', () => {
   test('returns a string', () => {
@@ -187,6 +197,66 @@ describe('sanitizeFileName', () => {
   })
 })
 
+describe('splitRelativePath', () => {
+  test('splits on forward and back slashes', () => {
+    expect(splitRelativePath('a/b\\c')).toEqual(['a', 'b', 'c'])
+  })
+
+  test('ignores empty and current directory segments', () => {
+    expect(splitRelativePath('/a//./b/')).toEqual(['a', 'b'])
+  })
+
+  test('rejects parent references', () => {
+    expect(splitRelativePath('a/../b')).toBeNull()
+  })
+
+  test('rejects empty paths', () => {
+    expect(splitRelativePath('')).toBeNull()
+    expect(splitRelativePath('./')).toBeNull()
+  })
+
+  test('rejects segments containing null bytes', () => {
+    expect(splitRelativePath('a\0b')).toBeNull()
+  })
+})
+
+describe('resolveRelativePath', () => {
+  test('normalizes separators and dot segments', () => {
+    expect(resolveRelativePath('a\\b/./c/')).toBe('a/b/c')
+  })
+
+  test('resolves parent references inside the directory', () => {
+    expect(resolveRelativePath('a/../b')).toBe('b')
+  })
+
+  test('returns null when climbing out of the directory', () => {
+    expect(resolveRelativePath('../secret')).toBeNull()
+    expect(resolveRelativePath('a/../../b')).toBeNull()
+  })
+
+  test('returns an empty string for the directory itself', () => {
+    expect(resolveRelativePath('a/..')).toBe('')
+    expect(resolveRelativePath('.')).toBe('')
+  })
+})
+
+describe('getAtomicTempPath', () => {
+  test('hides the temp file next to the target', () => {
+    expect(getAtomicTempPath('/docs/report.txt')).toBe('/docs/.report.txt.onefs-tmp')
+    expect(getAtomicTempPath('C:\\docs\\report.txt')).toBe('C:\\docs\\.report.txt.onefs-tmp')
+  })
+
+  test('relative paths without a directory', () => {
+    expect(getAtomicTempPath('abc_notes.md')).toBe('.abc_notes.md.onefs-tmp')
+  })
+
+  test('isAtomicTempName recognises the temp names', () => {
+    expect(isAtomicTempName('.report.txt.onefs-tmp')).toBe(true)
+    expect(isAtomicTempName('report.txt')).toBe(false)
+    expect(isAtomicTempName('notes.onefs-tmp')).toBe(false)
+  })
+})
+
 describe('toArrayBuffer', () => {
   test('returns correct ArrayBuffer from Uint8Array', () => {
     const bytes = new Uint8Array([1, 2, 3, 4])
@@ -243,3 +313,91 @@ describe('base64ToUint8Array', () => {
     expect(base64ToUint8Array('')).toEqual(new Uint8Array(0))
   })
 })
+
+describe('bytesToStream', () => {
+  async function collect(stream: ReadableStream<Uint8Array>): Promise<Uint8Array[]> {
+    const chunks: Uint8Array[] = []
+    const reader = stream.getReader()
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return chunks
+      chunks.push(value)
+    }
+  }
+
+  test('splits content into chunks of the given size', async () => {
+    const bytes = new Uint8Array([1, 2, 3, 4, 5])
+    const chunks = await collect(bytesToStream(bytes, 2))
+    expect(chunks).toEqual([
+      new Uint8Array([1, 2]),
+      new Uint8Array([3, 4]),
+      new Uint8Array([5]),
+    ])
+  })
+
+  test('empty content closes immediately', async () => {
+    const chunks = await collect(bytesToStream(new Uint8Array(0)))
+    expect(chunks).toHaveLength(0)
+  })
+})
+
+describe('readStreamRange', () => {
+  const bytes = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+
+  test('reads a range spanning multiple chunks', async () => {
+    const range = await readStreamRange(bytesToStream(bytes, 3), 2, 7)
+    expect(range).toEqual(new Uint8Array([2, 3, 4, 5, 6]))
+  })
+
+  test('truncates at end of stream', async () => {
+    const range = await readStreamRange(bytesToStream(bytes, 4), 8, 20)
+    expect(range).toEqual(new Uint8Array([8, 9]))
+  })
+
+  test('range past end of stream is empty', async () => {
+    const range = await readStreamRange(bytesToStream(bytes), 15, 20)
+    expect(range).toEqual(new Uint8Array(0))
+  })
+})
+
+describe('withLazyContent', () => {
+  const file: OneFSFile = {
+    id: 'lazy',
+    name: 'lazy.txt',
+    path: '/a/lazy.txt',
+    content: new Uint8Array(0),
+    mimeType: 'text/plain',
+    size: 5,
+    lastModified: 0,
+  }
+
+  const loaders = {
+    read: async (target: OneFSFile) => ok(new TextEncoder().encode(target.path ?? '')),
+    stream: async (target: OneFSFile) => ok(bytesToStream(new TextEncoder().encode(target.path ?? ''))),
+  }
+
+  test('text() decodes read() content', async () => {
+    const lazy = withLazyContent(file, loaders)
+    const result = await lazy.text()
+    expect(result).toEqual({ ok: true, data: '/a/lazy.txt' })
+  })
+
+  test('accessors follow the copy they are called on', async () => {
+    const lazy = withLazyContent(file, loaders)
+    const renamed = { ...lazy, path: '/a/renamed.txt' }
+    const result = await renamed.text()
+    expect(result).toEqual({ ok: true, data: '/a/renamed.txt' })
+  })
+})
+
+describe('conflict', () => {
+  test('returns a conflict error carrying the on-disk metadata', () => {
+    const result = conflict({ size: 42, lastModified: 0 })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.code).toBe('conflict')
+      expect(result.error.current).toEqual({ size: 42, lastModified: 0 })
+      expect(result.error.message).toContain('1970-01-01T00:00:00.000Z')
+    }
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest'
+import { selectVersionsToPrune } from '../versions'
+import type { OneFSVersion } from '../types'
+
+function version(id: string, fileId: string, createdAt: number, size = 10): OneFSVersion {
+  return { id, fileId, name: `${fileId}.txt`, size, createdAt }
+}
+
+describe('selectVersionsToPrune', () => {
+  const versions = [
+    version('a1', 'a', 1000),
+    version('a2', 'a', 2000),
+    version('a3', 'a', 3000),
+    version('b1', 'b', 1500),
+  ]
+
+  test('no limits removes nothing', () => {
+    expect(selectVersionsToPrune(versions, {})).toEqual([])
+  })
+
+  test('maxAge removes versions older than the cutoff', () => {
+    expect(selectVersionsToPrune(versions, { maxAge: 1800 }, 3500).sort()).toEqual(['a1', 'b1'])
+  })
+
+  test('maxCount applies per file and keeps the newest', () => {
+    expect(selectVersionsToPrune(versions, { maxCount: 1 }).sort()).toEqual(['a1', 'a2'])
+  })
+
+  test('maxBytes drops the oldest versions across files until the total fits', () => {
+    expect(selectVersionsToPrune(versions, { maxBytes: 25 }).sort()).toEqual(['a1', 'b1'])
+  })
+
+  test('maxBytes counts only versions that survive the other limits', () => {
+    expect(selectVersionsToPrune(versions, { maxCount: 1, maxBytes: 20 }).sort()).toEqual(['a1', 'a2'])
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, test, expect, vi, afterEach } from 'vitest'
+import { diffSnapshots, createPollingWatcher, hideAtomicTempFiles, hideBackupFolders } from '../watch'
+import type { OneFSEntry, OneFSWatchEvent } from '../types'
+
+function file(relativePath: string, size = 10, lastModified = 1000): OneFSEntry {
+  return { name: relativePath.split('/').pop()!, kind: 'file', size, lastModified, relativePath }
+}
+
+function folder(relativePath: string): OneFSEntry {
+  return { name: relativePath.split('/').pop()!, kind: 'directory', relativePath }
+}
+
+function snapshot(...entries: OneFSEntry[]): Map<string, OneFSEntry> {
+  return new Map(entries.map((entry) => [entry.relativePath!, entry]))
+}
+
+describe('diffSnapshots', () => {
+  test('no changes produces no events', () => {
+    const entries = snapshot(file('a.txt'), folder('sub'))
+    expect(diffSnapshots(entries, snapshot(file('a.txt'), folder('sub')))).toEqual([])
+  })
+
+  test('reports created and deleted entries', () => {
+    const events = diffSnapshots(snapshot(file('old.txt', 1)), snapshot(file('new.txt', 2), folder('sub')))
+    expect(events.map((e) => [e.type, e.entry.relativePath])).toEqual([
+      ['deleted', 'old.txt'],
+      ['created', 'new.txt'],
+      ['created', 'sub'],
+    ])
+  })
+
+  test('reports modified files when size or lastModified changes', () => {
+    const events = diffSnapshots(
+      snapshot(file('a.txt', 10, 1000), file('b.txt', 10, 1000)),
+      snapshot(file('a.txt', 20, 1000), file('b.txt', 10, 2000))
+    )
+    expect(events.map((e) => [e.type, e.entry.relativePath])).toEqual([
+      ['modified', 'a.txt'],
+      ['modified', 'b.txt'],
+    ])
+  })
+
+  test('pairs a deleted and created file with identical metadata as a rename', () => {
+    const events = diffSnapshots(snapshot(file('a.txt', 10, 1000)), snapshot(file('docs/b.txt', 10, 1000)))
+    expect(events).toHaveLength(1)
+    expect(events[0].type).toBe('renamed')
+    expect(events[0].entry.relativePath).toBe('docs/b.txt')
+    expect(events[0].oldEntry?.relativePath).toBe('a.txt')
+  })
+
+  test('does not pair files without metadata', () => {
+    const noStats = (path: string): OneFSEntry => ({ name: path, kind: 'file', relativePath: path })
+    const events = diffSnapshots(snapshot(noStats('a.txt')), snapshot(noStats('b.txt')))
+    expect(events.map((e) => e.type)).toEqual(['deleted', 'created'])
+  })
+
+  test('a file replaced by a directory is a delete and a create', () => {
+    const events = diffSnapshots(snapshot(file('x')), snapshot(folder('x')))
+    expect(events.map((e) => [e.type, e.entry.kind])).toEqual([
+      ['deleted', 'file'],
+      ['created', 'directory'],
+    ])
+  })
+})
+
+describe('hideAtomicTempFiles', () => {
+  test('drops temp file events and turns the final rename into a modification', () => {
+    expect(hideAtomicTempFiles({ type: 'created', entry: file('.a.txt.onefs-tmp') })).toBeNull()
+    expect(hideAtomicTempFiles({ type: 'renamed', entry: file('a.txt'), oldEntry: file('.a.txt.onefs-tmp') }))
+      .toEqual({ type: 'modified', entry: file('a.txt') })
+    expect(hideAtomicTempFiles({ type: 'deleted', entry: file('a.txt') })).toEqual({ type: 'deleted', entry: file('a.txt') })
+  })
+})
+
+describe('hideBackupFolders', () => {
+  test('drops events inside .backups and turns a move out of it into a creation', () => {
+    expect(hideBackupFolders({ type: 'created', entry: file('sub/.backups/a.txt.1000.bak') })).toBeNull()
+    expect(hideBackupFolders({ type: 'renamed', entry: file('a.txt'), oldEntry: file('.backups/a.txt.1000.bak') }))
+      .toEqual({ type: 'created', entry: file('a.txt') })
+    expect(hideBackupFolders({ type: 'modified', entry: file('backups/a.txt') })).toEqual({ type: 'modified', entry: file('backups/a.txt') })
+  })
+})
+
+describe('createPollingWatcher', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('emits diffs on each interval until stopped', async () => {
+    vi.useFakeTimers()
+    const snapshots = [[file('a.txt')], [file('a.txt'), file('b.txt', 5, 5)], [file('b.txt', 5, 5)]]
+    let call = 0
+    const events: OneFSWatchEvent[] = []
+
+    const stop = await createPollingWatcher(async () => snapshots[Math.min(call++, 2)], (e) => events.push(e), {
+      interval: 100,
+    })
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(events.map((e) => [e.type, e.entry.name])).toEqual([['created', 'b.txt']])
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(events.map((e) => [e.type, e.entry.name])).toEqual([
+      ['created', 'b.txt'],
+      ['deleted', 'a.txt'],
+    ])
+
+    stop()
+    const calls = call
+    await vi.advanceTimersByTimeAsync(500)
+    expect(call).toBe(calls)
+  })
+
+  test('initial snapshot failure rejects', async () => {
+    await expect(
+      createPollingWatcher(async () => { throw new Error('unreadable') }, () => {})
+    ).rejects.toThrow('unreadable')
+  })
+
+  test('poll failures go to onError and polling continues', async () => {
+    vi.useFakeTimers()
+    let call = 0
+    const errors: unknown[] = []
+
+    const stop = await createPollingWatcher(
+      async () => {
+        call++
+        if (call === 2) throw new Error('transient')
+        return []
+      },
+      () => {},
+      { interval: 100, onError: (e) => errors.push(e) }
+    )
+
+    await vi.advanceTimersByTimeAsync(200)
+    expect(errors).toHaveLength(1)
+    expect(call).toBe(3)
+    stop()
+  })
+})
@@ -1,24 +1,43 @@
 import type {
   OneFSAdapter,
   OneFSFile,
+  OneFSLazyFile,
   OneFSOpenOptions,
+  OneFSRestoreOptions,
   OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSWritableFile,
   OneFSDirectory,
   OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSDeleteFileOptions,
+  OneFSTrashItem,
+  OneFSEmptyTrashOptions,
+  OneFSTransferOptions,
+  OneFSBackup,
+  OneFSBackupConfig,
+  OneFSWatchOptions,
+  OneFSWatchCallback,
   OneFSReadDirectoryOptions,
   OneFSScanOptions,
   OneFSEntry,
   StoredHandle,
   OneFSResult,
 } from '../types'
-import { ok, err } from '../types'
+import { ok, err, PLATFORM_CAPABILITIES } from '../types'
 import { IDBStorage } from '../storage/idb'
-import { generateId, getMimeType, base64ToUint8Array, uint8ArrayToBase64, toArrayBuffer, sanitizeFileName, isPathWithin } from '../utils'
+import { ScanFilter } from '../scan-filter'
+import { createPollingWatcher } from '../watch'
+import { TRASH_FOLDER, toTrashItem, selectExpiredTrash } from '../trash'
+import { BACKUP_FOLDER, resolveBackupConfig, getBackupFolder, getBackupPath, parseBackupName, storeIDBBackup, listIDBBackups } from '../backups'
+import { generateId, getMimeType, getFileName, getAtomicTempPath, isAtomicTempName, resolveRelativePath, base64ToUint8Array, uint8ArrayToBase64, toArrayBuffer, sanitizeFileName, isPathWithin, normalizePath, bytesToStream, readStreamRange, withLazyContent, splitRelativePath } from '../utils'
 
 type CapacitorFilesystem = typeof import('@capacitor/filesystem')
 type CapacitorCore = typeof import('@capacitor/core')
 
 const DIRECTORY_MIME_TYPE = 'inode/directory'
+const APPEND_CHUNK_SIZE = 512 * 1024
 
 interface FilePickerResult {
   files: Array<{
@@ -40,15 +59,23 @@ interface FilePicker {
 
 export class CapacitorAdapter implements OneFSAdapter {
   platform = 'capacitor' as const
+  capabilities = { ...PLATFORM_CAPABILITIES.capacitor }
   private storage: IDBStorage
   private filesystem: CapacitorFilesystem | null = null
   private core: CapacitorCore | null = null
   private persistByDefault: boolean
+  private backups: Required<OneFSBackupConfig> | null
   private scanLock: Promise<void> = Promise.resolve()
 
-  constructor(appName: string, maxRecentFiles = 10, persistByDefault = true) {
+  constructor(
+    appName: string,
+    maxRecentFiles = 10,
+    persistByDefault = true,
+    backups?: boolean | OneFSBackupConfig
+  ) {
     this.storage = new IDBStorage(appName, maxRecentFiles)
     this.persistByDefault = persistByDefault
+    this.backups = resolveBackupConfig(backups)
   }
 
   isSupported(): boolean {
@@ -80,6 +107,15 @@ export class CapacitorAdapter implements OneFSAdapter {
     return release!
   }
 
+  private async withScanLock<T>(action: () => Promise<T>): Promise<T> {
+    const release = await this.acquireScanLock()
+    try {
+      return await action()
+    } finally {
+      release()
+    }
+  }
+
   async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
     const shouldPersist = options.persist ?? this.persistByDefault
 
@@ -91,7 +127,8 @@ export class CapacitorAdapter implements OneFSAdapter {
             this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
           }
         }
-        return ok(options.multiple ? files : files[0])
+        const result = options.loadContent === false ? files.map(file => this.toLazyFile(file)) : files
+        return ok(options.multiple ? result : result[0])
       }
     } catch {
       // Plugin not available, fall through to HTML input
@@ -122,6 +159,26 @@ export class CapacitorAdapter implements OneFSAdapter {
           const destName = `${generateId()}_${safeName}`
           const destPath = destName
 
+          if (options.loadContent === false) {
+            await Filesystem.copy({
+              from: picked.path!,
+              to: destPath,
+              toDirectory: Directory.Documents,
+            })
+
+            const size = picked.size ?? (await Filesystem.stat({ path: destPath, directory: Directory.Documents })).size
+
+            return {
+              id: generateId(),
+              name: picked.name,
+              path: destPath,
+              content: new Uint8Array(0),
+              mimeType: picked.mimeType || getMimeType(picked.name),
+              size,
+              lastModified: picked.modifiedAt ?? Date.now(),
+            }
+          }
+
           const fileData = await Filesystem.readFile({ path: picked.path! })
           await Filesystem.writeFile({
             path: destPath,
@@ -169,6 +226,41 @@ export class CapacitorAdapter implements OneFSAdapter {
           return
         }
 
+        if (options.loadContent === false) {
+          try {
+            const lazyFiles = await Promise.all(
+              Array.from(fileList).map(async (file) => {
+                const id = generateId()
+                const destPath = `${id}_${sanitizeFileName(file.name)}`
+
+                await file.stream().pipeTo(await this.createAppendStream(destPath))
+
+                const onefsFile: OneFSFile = {
+                  id,
+                  name: file.name,
+                  path: destPath,
+                  content: new Uint8Array(0),
+                  mimeType: file.type || getMimeType(file.name),
+                  size: file.size,
+                  lastModified: file.lastModified,
+                }
+
+                if (shouldPersist) {
+                  this.storage.storeFileDeferred({ ...onefsFile, storedAt: Date.now() })
+                }
+
+                return this.toLazyFile(onefsFile)
+              })
+            )
+
+            resolve(ok(options.multiple ? lazyFiles : lazyFiles[0]))
+          } catch (e) {
+            const error = e as Error
+            resolve(err('io_error', error.message || 'Failed to copy file', e))
+          }
+          return
+        }
+
         try {
           const { Filesystem, Directory } = await this.loadFilesystem()
 
@@ -221,6 +313,11 @@ export class CapacitorAdapter implements OneFSAdapter {
     })
   }
 
+  /**
+   * Write the file's copy in Documents. Atomic saves write a sibling temp file and
+   * rename it over the copy; on iOS the rename removes the target first, so the window
+   * is narrowed rather than closed. `file.size` and `file.lastModified` follow the copy.
+   */
   async saveFile(
     file: OneFSFile,
     content: Uint8Array | string,
@@ -232,13 +329,46 @@ export class CapacitorAdapter implements OneFSAdapter {
       const { Filesystem, Directory } = await this.loadFilesystem()
 
       const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
-      const fileName = file.path ?? `${file.id}_${sanitizeFileName(file.name)}`
+      const fileName = this.getDocumentPath(file)
 
-      await Filesystem.writeFile({
-        path: fileName,
-        data: uint8ArrayToBase64(contentArray),
-        directory: Directory.Documents,
-      })
+      if (options?.backup !== false) {
+        try {
+          await this.backupFile(fileName)
+        } catch (e) {
+          return err('io_error', 'Failed to back up the previous version - file not saved', e)
+        }
+      }
+
+      if (options?.atomic ?? true) {
+        const tempPath = getAtomicTempPath(fileName)
+        try {
+          await Filesystem.writeFile({
+            path: tempPath,
+            data: uint8ArrayToBase64(contentArray),
+            directory: Directory.Documents,
+          })
+          await Filesystem.rename({
+            from: tempPath,
+            to: fileName,
+            directory: Directory.Documents,
+            toDirectory: Directory.Documents,
+          })
+        } catch (e) {
+          await Filesystem.deleteFile({ path: tempPath, directory: Directory.Documents }).catch(() => {})
+          throw e
+        }
+      } else {
+        await Filesystem.writeFile({
+          path: fileName,
+          data: uint8ArrayToBase64(contentArray),
+          directory: Directory.Documents,
+        })
+      }
+
+      const saved = await Filesystem.stat({ path: fileName, directory: Directory.Documents }).catch(() => null)
+      const lastModified = saved?.mtime || Date.now()
+      file.size = contentArray.byteLength
+      file.lastModified = lastModified
 
       if (shouldPersist) {
         this.storage.storeFileDeferred({
@@ -248,7 +378,7 @@ export class CapacitorAdapter implements OneFSAdapter {
           content: contentArray,
           mimeType: file.mimeType,
           size: contentArray.byteLength,
-          lastModified: Date.now(),
+          lastModified,
           storedAt: Date.now(),
         })
       }
@@ -263,6 +393,81 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
   }
 
+  /** The file's path in Documents - saveFile() writes files without one to `<id>_<name>` */
+  private getDocumentPath(file: OneFSFile): string {
+    return file.path ?? `${file.id}_${sanitizeFileName(file.name)}`
+  }
+
+  /** `.backups` folders only belong to the adapter when backups are kept there */
+  private isBackupFolder(name: string): boolean {
+    return name === BACKUP_FOLDER && this.backups?.location === 'folder'
+  }
+
+  /**
+   * Keep the current copy before saveFile() overwrites it, then drop backups
+   * beyond the retention count. A file that doesn't exist yet has nothing to back up.
+   */
+  private async backupFile(path: string): Promise<void> {
+    if (!this.backups) return
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const exists = await Filesystem.stat({ path, directory: Directory.Documents }).then(() => true, () => false)
+    if (!exists) return
+
+    const { location, maxBackups } = this.backups
+    if (location === 'idb') {
+      const { data } = await Filesystem.readFile({ path, directory: Directory.Documents })
+      const content = typeof data === 'string' ? base64ToUint8Array(data) : new Uint8Array(await data.arrayBuffer())
+      await storeIDBBackup(this.storage, path, getFileName(path), content, maxBackups)
+      return
+    }
+
+    if (location === 'folder') {
+      await Filesystem.mkdir({ path: getBackupFolder(path), directory: Directory.Documents, recursive: true })
+        .catch(() => {})
+    }
+    const backupPath = getBackupPath(path, location, Date.now())
+    if (location === 'sibling') {
+      await Filesystem.deleteFile({ path: backupPath, directory: Directory.Documents }).catch(() => {})
+    }
+    await Filesystem.copy({ from: path, to: backupPath, directory: Directory.Documents, toDirectory: Directory.Documents })
+
+    const backups = await this.findBackups(path)
+    for (const backup of backups.slice(maxBackups)) {
+      await Filesystem.deleteFile({ path: backup.path!, directory: Directory.Documents })
+    }
+  }
+
+  /** Backups of a Documents path in the configured location, newest first */
+  private async findBackups(path: string): Promise<OneFSBackup[]> {
+    const location = this.backups?.location ?? 'folder'
+    if (location === 'idb') {
+      return listIDBBackups(this.storage, path)
+    }
+
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const name = getFileName(path)
+    if (location === 'sibling') {
+      const backupPath = getBackupPath(path, 'sibling', 0)
+      const stat = await Filesystem.stat({ path: backupPath, directory: Directory.Documents }).catch(() => null)
+      return stat
+        ? [{ id: backupPath, name, path: backupPath, size: stat.size, createdAt: stat.mtime ?? 0, location }]
+        : []
+    }
+
+    const folder = getBackupFolder(path)
+    const result = await Filesystem.readdir({ path: folder, directory: Directory.Documents }).catch(() => null)
+    if (!result) return []
+
+    const backups: OneFSBackup[] = []
+    for (const entry of result.files) {
+      const createdAt = entry.type === 'file' ? parseBackupName(name, entry.name) : null
+      if (createdAt === null) continue
+      const backupPath = `${folder}/${entry.name}`
+      backups.push({ id: backupPath, name, path: backupPath, size: entry.size, createdAt, location })
+    }
+    return backups.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
   async saveFileAs(content: Uint8Array | string, options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSFile>> {
     const shouldPersist = options.persist ?? this.persistByDefault
 
@@ -304,6 +509,82 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Truncate a Documents file and return a stream that appends each chunk with appendFile(),
+   * so only one chunk is ever base64-encoded at a time.
+   */
+  private async createAppendStream(path: string): Promise<WritableStream<Uint8Array>> {
+    const { Filesystem, Directory } = await this.loadFilesystem()
+
+    await Filesystem.writeFile({
+      path,
+      data: '',
+      directory: Directory.Documents,
+    })
+
+    return new WritableStream<Uint8Array>({
+      async write(chunk) {
+        for (let i = 0; i < chunk.byteLength; i += APPEND_CHUNK_SIZE) {
+          await Filesystem.appendFile({
+            path,
+            data: uint8ArrayToBase64(chunk.subarray(i, i + APPEND_CHUNK_SIZE)),
+            directory: Directory.Documents,
+          })
+        }
+      },
+    })
+  }
+
+  async createWriteStream(
+    file: OneFSFile,
+    _options?: OneFSSaveOptions
+  ): Promise<OneFSResult<WritableStream<Uint8Array>>> {
+    try {
+      const fileName = file.path ?? `${file.id}_${sanitizeFileName(file.name)}`
+      return ok(await this.createAppendStream(fileName))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to save file', e)
+      }
+      return err('io_error', error.message || 'Failed to open write stream', e)
+    }
+  }
+
+  async saveFileAsStream(options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSWritableFile>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+
+    try {
+      const name = options.suggestedName ?? 'untitled'
+      const id = generateId()
+      const fileName = `${id}_${sanitizeFileName(name)}`
+
+      const stream = await this.createAppendStream(fileName)
+
+      const file: OneFSFile = {
+        id,
+        name,
+        path: fileName,
+        content: new Uint8Array(0),
+        mimeType: getMimeType(name),
+        size: 0,
+        lastModified: Date.now(),
+      }
+
+      if (shouldPersist) {
+        this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+      }
+
+      return ok({ file, stream })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to save file', e)
+      }
+      return err('io_error', error.message || 'Failed to save file', e)
+    }
+  }
+
   async openDirectory(_options: OneFSDirectoryOptions = {}): Promise<OneFSResult<OneFSDirectory>> {
     try {
       const { Filesystem, Directory } = await this.loadFilesystem()
@@ -344,6 +625,9 @@ export class CapacitorAdapter implements OneFSAdapter {
       const entries: OneFSEntry[] = []
 
       for (const entry of result.files) {
+        if (isAtomicTempName(entry.name)) continue
+        if (entry.type === 'directory' && this.isBackupFolder(entry.name)) continue
+
         const safeName = sanitizeFileName(entry.name)
         const filePath = directory.path ? `${directory.path}/${safeName}` : safeName
 
@@ -389,101 +673,244 @@ export class CapacitorAdapter implements OneFSAdapter {
     directory: OneFSDirectory,
     options: OneFSScanOptions = {}
   ): Promise<OneFSResult<OneFSEntry[]>> {
-    const release = await this.acquireScanLock()
     try {
-      return await this._scanDirectoryImpl(directory, options)
-    } finally {
-      release()
+      const files: OneFSEntry[] = []
+      for await (const entry of this._scanDirectoryImpl(directory, options)) {
+        files.push(entry)
+      }
+
+      if (options.signal?.aborted) {
+        return err('cancelled', 'Scan was cancelled')
+      }
+
+      return ok(files)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to scan directory', e)
+      }
+      return err('io_error', error.message || 'Failed to scan directory', e)
+    }
+  }
+
+  /**
+   * Yield files as each directory is read. Stops quietly when the signal aborts;
+   * errors other than per-directory failures are reported through onError.
+   */
+  async *walk(directory: OneFSDirectory, options: OneFSScanOptions = {}): AsyncGenerator<OneFSEntry> {
+    try {
+      yield* this._scanDirectoryImpl(directory, options)
+    } catch (e) {
+      options.onError?.(directory.path ?? '', e)
+    }
+  }
+
+  /**
+   * Capacitor has no file system events - changes are detected by polling readdir snapshots.
+   */
+  async watch(
+    directory: OneFSDirectory,
+    options: OneFSWatchOptions,
+    callback: OneFSWatchCallback
+  ): Promise<OneFSResult<() => void>> {
+    try {
+      const unwatch = await createPollingWatcher(
+        async () => {
+          // An unreadable root throws, rather than looking like every entry was deleted
+          const entries: OneFSEntry[] = []
+          const scanOptions = { maxDepth: options.recursive ? undefined : 0, includeDirectories: true }
+          for await (const entry of this._scanDirectoryImpl(directory, scanOptions)) {
+            entries.push(entry)
+          }
+          return entries
+        },
+        callback,
+        { interval: options.pollInterval, onError: options.onError }
+      )
+      return ok(unwatch)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to watch directory', e)
+      }
+      return err('io_error', error.message || 'Failed to watch directory', e)
     }
   }
 
-  private async _scanDirectoryImpl(
+  /**
+   * Shared walk behind scanDirectory(), walk() and the watch() snapshots. The scan lock
+   * is held while each directory is read, never across a yield - a consumer that scans
+   * again while iterating, or abandons the iterator, doesn't block other scans. A root
+   * that can't be read throws; deeper folders are reported through onError.
+   */
+  private async *_scanDirectoryImpl(
     directory: OneFSDirectory,
     options: OneFSScanOptions = {}
-  ): Promise<OneFSResult<OneFSEntry[]>> {
-    const { extensions, onProgress, onError, signal, skipStats } = options
-    const extensionSet = extensions?.length
-      ? new Set(extensions.map(e => e.toLowerCase().replace(/^\./, '')))
-      : null
+  ): AsyncGenerator<OneFSEntry> {
+    const { onProgress, onError, signal, skipStats, maxDepth, includeDirectories } = options
 
-    try {
-      const { Filesystem, Directory } = await this.loadFilesystem()
-      const files: OneFSEntry[] = []
-      const directoriesToScan: string[] = [directory.path ?? '']
-      let totalScanned = 0
+    const { Filesystem, Directory, Encoding } = await this.loadFilesystem()
+    const directoriesToScan: { path: string; relativePath: string; depth: number; filter: ScanFilter }[] = [
+      { path: directory.path ?? '', relativePath: '', depth: 0, filter: ScanFilter.create(options) },
+    ]
+    let totalScanned = 0
+    let found = 0
 
-      while (directoriesToScan.length > 0) {
-        if (signal?.aborted) {
-          return err('cancelled', 'Scan was cancelled')
-        }
+    while (directoriesToScan.length > 0) {
+      if (signal?.aborted) return
 
-        const currentDir = directoriesToScan.pop()!
+      const { path: currentDir, relativePath: currentRelative, depth, filter: parentFilter } = directoriesToScan.pop()!
+      const entries: OneFSEntry[] = []
+      let filter = parentFilter
 
-        try {
+      try {
+        await this.withScanLock(async () => {
           const result = await Filesystem.readdir({
             path: currentDir,
             directory: Directory.Documents,
           })
 
           for (const entry of result.files) {
+            if (entry.type !== 'file' || !filter.ignoreFileNames.includes(entry.name)) continue
+            const ignorePath = currentDir ? `${currentDir}/${sanitizeFileName(entry.name)}` : sanitizeFileName(entry.name)
+            try {
+              const { data } = await Filesystem.readFile({
+                path: ignorePath,
+                directory: Directory.Documents,
+                encoding: Encoding.UTF8,
+              })
+              filter = filter.withIgnoreFile(currentRelative, typeof data === 'string' ? data : await data.text())
+            } catch (readError) {
+              onError?.(ignorePath, readError)
+            }
+          }
+
+          for (const entry of result.files) {
+            if (isAtomicTempName(entry.name)) continue
+
             const safeName = sanitizeFileName(entry.name)
             const entryPath = currentDir ? `${currentDir}/${safeName}` : safeName
+            const relativePath = currentRelative ? `${currentRelative}/${safeName}` : safeName
 
             if (entry.type === 'directory') {
-              directoriesToScan.push(entryPath)
+              if (this.isBackupFolder(safeName) || filter.skipDirectory(relativePath)) continue
+              if (maxDepth === undefined || depth < maxDepth) {
+                directoriesToScan.push({ path: entryPath, relativePath, depth: depth + 1, filter })
+              }
+              if (includeDirectories) {
+                entries.push({
+                  name: safeName,
+                  kind: 'directory',
+                  path: entryPath,
+                  relativePath,
+                  depth,
+                })
+              }
             } else {
-              if (extensionSet) {
-                const ext = safeName.split('.').pop()?.toLowerCase()
-                if (!ext || !extensionSet.has(ext)) {
-                  continue
-                }
+              if (!filter.matchesPath(relativePath)) {
+                continue
               }
 
               if (skipStats) {
-                files.push({
+                entries.push({
                   name: safeName,
                   kind: 'file',
                   path: entryPath,
+                  relativePath,
+                  depth,
                 })
               } else {
-                files.push({
-                  name: safeName,
-                  kind: 'file',
-                  size: entry.size,
-                  lastModified: entry.mtime ?? Date.now(),
-                  path: entryPath,
-                })
+                const lastModified = entry.mtime ?? Date.now()
+                if (filter.matchesStats(entry.size, lastModified)) {
+                  entries.push({
+                    name: safeName,
+                    kind: 'file',
+                    size: entry.size,
+                    lastModified,
+                    path: entryPath,
+                    relativePath,
+                    depth,
+                  })
+                }
               }
             }
 
             totalScanned++
           }
-
-          if (onProgress && totalScanned % 100 === 0) {
-            onProgress(totalScanned, files.length)
-          }
-          if (totalScanned % 500 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 0))
-          }
-        } catch (dirError) {
-          onError?.(currentDir, dirError)
-        }
+        })
+      } catch (dirError) {
+        // The root failing means the scan itself failed
+        if (!currentRelative) throw dirError
+        onError?.(currentDir, dirError)
       }
 
-      if (onProgress) {
-        onProgress(totalScanned, files.length)
+      found += entries.length
+      yield* entries
+
+      if (onProgress && totalScanned % 100 === 0) {
+        onProgress(totalScanned, found)
       }
+      if (totalScanned % 500 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
 
-      return ok(files)
+    if (onProgress) {
+      onProgress(totalScanned, found)
+    }
+  }
+
+  /**
+   * Resolve a relative path against the directory's path in Documents, refusing
+   * anything that normalizes to a location outside it.
+   */
+  async getEntry(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>> {
+    const resolved = resolveRelativePath(relativePath)
+    if (resolved === null) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+    if (!resolved) {
+      return err('io_error', 'Path must name an entry inside the directory')
+    }
+
+    const path = directory.path ? normalizePath(`${directory.path}/${resolved}`) : resolved
+    if (directory.path && !isPathWithin(path, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+      const stat = await Filesystem.stat({ path, directory: Directory.Documents })
+      const name = getFileName(path)
+      const depth = resolved.split('/').length - 1
+
+      if (stat.type === 'directory') {
+        return ok({ name, kind: 'directory', path, relativePath: resolved, depth })
+      }
+      return ok({
+        name,
+        kind: 'file',
+        size: stat.size,
+        lastModified: stat.mtime ?? Date.now(),
+        path,
+        relativePath: resolved,
+        depth,
+      })
     } catch (e) {
       const error = e as Error
       if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
-        return err('not_found', 'Directory not found', e)
+        return err('not_found', `"${resolved}" not found`, e)
       }
       if (error.message?.includes('Permission denied')) {
-        return err('permission_denied', 'Permission denied to scan directory', e)
+        return err('permission_denied', 'Permission denied to read directory', e)
       }
-      return err('io_error', error.message || 'Failed to scan directory', e)
+      return err('io_error', error.message || 'Failed to resolve path', e)
     }
   }
 
@@ -501,48 +928,23 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
 
     try {
-      const { Filesystem, Directory } = await this.loadFilesystem()
-      const { Capacitor } = await this.loadCore()
-
-      if (options?.maxBytes && entry.size && entry.size > options.maxBytes) {
-        const uri = await Filesystem.getUri({
+      let content: Uint8Array
+      if (options?.maxBytes) {
+        content = await this.readPathRange(entry.path, 0, options.maxBytes)
+      } else {
+        const { Filesystem, Directory } = await this.loadFilesystem()
+        const fileData = await Filesystem.readFile({
           path: entry.path,
           directory: Directory.Documents,
         })
-        const nativeUrl = Capacitor.convertFileSrc(uri.uri)
 
-        const response = await fetch(nativeUrl, {
-          headers: { Range: `bytes=0-${options.maxBytes - 1}` }
-        })
-
-        if (response.ok || response.status === 206) {
-          const arrayBuffer = await response.arrayBuffer()
-          const content = new Uint8Array(arrayBuffer)
-
-          return ok({
-            id: generateId(),
-            name: entry.name,
-            path: entry.path,
-            content,
-            mimeType: getMimeType(entry.name),
-            size: content.byteLength,
-            lastModified: entry.lastModified ?? Date.now(),
-          })
+        if (fileData.data instanceof Blob) {
+          content = new Uint8Array(await fileData.data.arrayBuffer())
+        } else {
+          content = base64ToUint8Array(fileData.data as string)
         }
       }
 
-      const fileData = await Filesystem.readFile({
-        path: entry.path,
-        directory: Directory.Documents,
-      })
-
-      let content: Uint8Array
-      if (fileData.data instanceof Blob) {
-        content = new Uint8Array(await fileData.data.arrayBuffer())
-      } else {
-        content = base64ToUint8Array(fileData.data as string)
-      }
-
       return ok({
         id: generateId(),
         name: entry.name,
@@ -564,19 +966,549 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
   }
 
-  async getFileUrl(file: OneFSFile): Promise<string> {
-    if (!file.path) {
-      return URL.createObjectURL(new Blob([toArrayBuffer(file.content)], { type: file.mimeType }))
+  /**
+   * Create a file inside a directory of the app's Documents folder.
+   */
+  async writeFileToDirectory(
+    directory: OneFSDirectory,
+    name: string,
+    content: Uint8Array | string,
+    options: OneFSWriteOptions = {}
+  ): Promise<OneFSResult<OneFSFile>> {
+    const sanitized = sanitizeFileName(name)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const filePath = directory.path ? `${directory.path}/${sanitized}` : sanitized
+    if (directory.path && !isPathWithin(filePath, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
     }
 
+    const shouldPersist = options.persist ?? this.persistByDefault
+
     try {
       const { Filesystem, Directory } = await this.loadFilesystem()
-      const { Capacitor } = await this.loadCore()
-
-      const result = await Filesystem.getUri({
-        path: file.path,
-        directory: Directory.Documents,
-      })
+
+      if (!options.overwrite) {
+        const existing = await Filesystem.stat({
+          path: filePath,
+          directory: Directory.Documents,
+        }).catch(() => null)
+        if (existing) {
+          return err('already_exists', `File "${sanitized}" already exists`)
+        }
+      }
+
+      const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+      await Filesystem.writeFile({
+        path: filePath,
+        data: uint8ArrayToBase64(contentArray),
+        directory: Directory.Documents,
+      })
+
+      const file: OneFSFile = {
+        id: generateId(),
+        name: sanitized,
+        path: filePath,
+        content: contentArray,
+        mimeType: getMimeType(sanitized),
+        size: contentArray.byteLength,
+        lastModified: Date.now(),
+      }
+
+      if (shouldPersist) {
+        this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+      }
+
+      return ok(file)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to write file', e)
+      }
+      return err('io_error', error.message || 'Failed to write file', e)
+    }
+  }
+
+  /**
+   * Create a directory under the parent in the app's Documents folder.
+   */
+  async createDirectory(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options: OneFSCreateDirectoryOptions = {}
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    const segments = splitRelativePath(relativePath)
+    if (!segments) {
+      return err('io_error', 'Invalid directory path')
+    }
+
+    const dirPath = parent.path ? `${parent.path}/${segments.join('/')}` : segments.join('/')
+    if (parent.path && !isPathWithin(dirPath, parent.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+
+      const existing = await Filesystem.stat({
+        path: dirPath,
+        directory: Directory.Documents,
+      }).catch(() => null)
+
+      if (existing) {
+        if (existing.type !== 'directory' || !options.recursive) {
+          return err('already_exists', `"${segments[segments.length - 1]}" already exists`)
+        }
+      } else {
+        await Filesystem.mkdir({
+          path: dirPath,
+          directory: Directory.Documents,
+          recursive: !!options.recursive,
+        })
+      }
+
+      return ok({
+        id: generateId(),
+        name: segments[segments.length - 1],
+        path: dirPath,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Parent directory not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to create directory', e)
+      }
+      return err('io_error', error.message || 'Failed to create directory', e)
+    }
+  }
+
+  /**
+   * Delete a file (deleteFile) or directory (rmdir) entry from the app's Documents folder.
+   */
+  async deleteEntry(
+    directory: OneFSDirectory,
+    entry: OneFSEntry,
+    options: OneFSDeleteOptions = {}
+  ): Promise<OneFSResult<boolean>> {
+    if (!entry.path) {
+      return err('not_supported', 'Cannot delete entry without path')
+    }
+
+    const parentPath = directory.path ?? ''
+    if (parentPath && !isPathWithin(entry.path, parentPath)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+    if (!normalizePath(entry.path) || normalizePath(entry.path) === normalizePath(parentPath)) {
+      return err('permission_denied', 'Cannot delete the directory itself')
+    }
+
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+
+      if (entry.kind === 'directory') {
+        await Filesystem.rmdir({
+          path: entry.path,
+          directory: Directory.Documents,
+          recursive: !!options.recursive,
+        })
+      } else {
+        await Filesystem.deleteFile({
+          path: entry.path,
+          directory: Directory.Documents,
+        })
+      }
+
+      return ok(true)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Entry not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to delete entry', e)
+      }
+      if (error.message?.includes('not empty')) {
+        return err('io_error', 'Directory is not empty - pass recursive: true to delete it', e)
+      }
+      return err('io_error', error.message || 'Failed to delete entry', e)
+    }
+  }
+
+  /**
+   * Move an entry within the app's Documents folder with Filesystem.rename().
+   */
+  async moveEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    try {
+      const prepared = await this.prepareTransfer(entry, targetDirectory, newName, options)
+      if (!prepared.ok) return prepared
+
+      const { sourcePath, targetPath, sameEntry, replacing } = prepared.data
+      if (!sameEntry) {
+        const { Filesystem, Directory } = await this.loadFilesystem()
+        await this.transferOnto(targetPath, entry.kind, replacing, async () => {
+          await Filesystem.rename({
+            from: sourcePath,
+            to: targetPath,
+            directory: Directory.Documents,
+            toDirectory: Directory.Documents,
+          })
+        })
+      }
+
+      return ok(await this.statEntry(targetPath, entry.kind))
+    } catch (e) {
+      return this.transferError(e, 'move')
+    }
+  }
+
+  /**
+   * Copy an entry file by file with Filesystem.copy() so directory copies can report progress.
+   */
+  async copyEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    try {
+      const prepared = await this.prepareTransfer(entry, targetDirectory, newName, options)
+      if (!prepared.ok) return prepared
+
+      const { sourcePath, targetPath, sameEntry, replacing } = prepared.data
+      if (sameEntry) {
+        return err('already_exists', 'Cannot copy an entry onto itself')
+      }
+
+      await this.transferOnto(targetPath, entry.kind, replacing, () =>
+        this.copyPath(sourcePath, targetPath, entry.kind, options)
+      )
+      return ok(await this.statEntry(targetPath, entry.kind))
+    } catch (e) {
+      return this.transferError(e, 'copy')
+    }
+  }
+
+  /**
+   * Shared checks for moveEntry/copyEntry. `replacing` is the kind of an existing
+   * target that overwrite allows, which transferOnto() keeps until the transfer succeeds.
+   */
+  private async prepareTransfer(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName: string | undefined,
+    options: OneFSTransferOptions
+  ): Promise<OneFSResult<{
+    sourcePath: string
+    targetPath: string
+    sameEntry: boolean
+    replacing: 'file' | 'directory' | null
+  }>> {
+    if (!entry.path) {
+      return err('not_supported', 'Cannot transfer entry without path')
+    }
+
+    const name = sanitizeFileName(newName ?? entry.name)
+    if (!name) {
+      return err('io_error', 'Invalid entry name')
+    }
+
+    const targetPath = targetDirectory.path ? `${targetDirectory.path}/${name}` : name
+    if (targetDirectory.path && !isPathWithin(targetPath, targetDirectory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    if (entry.kind === 'directory' && isPathWithin(targetDirectory.path ?? '', entry.path)) {
+      return err('io_error', 'Cannot move or copy a directory into itself')
+    }
+
+    if (normalizePath(targetPath) === normalizePath(entry.path)) {
+      return ok({ sourcePath: entry.path, targetPath, sameEntry: true, replacing: null })
+    }
+
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const existing = await Filesystem.stat({
+      path: targetPath,
+      directory: Directory.Documents,
+    }).catch(() => null)
+
+    if (existing && !options.overwrite) {
+      return err('already_exists', `"${name}" already exists`)
+    }
+
+    return ok({
+      sourcePath: entry.path,
+      targetPath,
+      sameEntry: false,
+      replacing: existing ? (existing.type === 'directory' ? 'directory' : 'file') : null,
+    })
+  }
+
+  /**
+   * Run a transfer onto `targetPath`. When replacing, the existing entry is renamed
+   * aside first and only removed once the transfer succeeds - a failed or cancelled
+   * transfer puts it back.
+   */
+  private async transferOnto(
+    targetPath: string,
+    kind: 'file' | 'directory',
+    replacing: 'file' | 'directory' | null,
+    transfer: () => Promise<void>
+  ): Promise<void> {
+    if (!replacing) {
+      return transfer()
+    }
+
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const rename = (from: string, to: string) =>
+      Filesystem.rename({ from, to, directory: Directory.Documents, toDirectory: Directory.Documents })
+    const remove = (path: string, type: 'file' | 'directory') =>
+      type === 'directory'
+        ? Filesystem.rmdir({ path, directory: Directory.Documents, recursive: true })
+        : Filesystem.deleteFile({ path, directory: Directory.Documents })
+
+    const asidePath = getAtomicTempPath(targetPath)
+    await rename(targetPath, asidePath)
+    try {
+      await transfer()
+    } catch (e) {
+      await remove(targetPath, kind).catch(() => {})
+      await rename(asidePath, targetPath).catch(() => {})
+      throw e
+    }
+    await remove(asidePath, replacing).catch(() => {})
+  }
+
+  private async copyPath(
+    sourcePath: string,
+    targetPath: string,
+    kind: 'file' | 'directory',
+    options: OneFSTransferOptions
+  ): Promise<void> {
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const { onProgress, signal } = options
+    const copyFile = (from: string, to: string) =>
+      Filesystem.copy({ from, to, directory: Directory.Documents, toDirectory: Directory.Documents })
+
+    if (kind === 'file') {
+      await copyFile(sourcePath, targetPath)
+      onProgress?.(1, 1)
+      return
+    }
+
+    // Recreate the tree first so progress has a total
+    const files: { from: string; to: string }[] = []
+    const pending: { from: string; to: string }[] = [{ from: sourcePath, to: targetPath }]
+    await Filesystem.mkdir({ path: targetPath, directory: Directory.Documents, recursive: true })
+
+    while (pending.length > 0) {
+      if (signal?.aborted) {
+        throw new DOMException('Copy was cancelled', 'AbortError')
+      }
+
+      const current = pending.pop()!
+      const result = await Filesystem.readdir({ path: current.from, directory: Directory.Documents })
+      for (const child of result.files) {
+        const safeName = sanitizeFileName(child.name)
+        if (!safeName) continue
+        const paths = { from: `${current.from}/${safeName}`, to: `${current.to}/${safeName}` }
+
+        if (child.type === 'directory') {
+          await Filesystem.mkdir({ path: paths.to, directory: Directory.Documents, recursive: true })
+          pending.push(paths)
+        } else {
+          files.push(paths)
+        }
+      }
+    }
+
+    for (let i = 0; i < files.length; i++) {
+      if (signal?.aborted) {
+        throw new DOMException('Copy was cancelled', 'AbortError')
+      }
+
+      await copyFile(files[i].from, files[i].to)
+      onProgress?.(i + 1, files.length)
+    }
+  }
+
+  private async statEntry(path: string, kind: 'file' | 'directory'): Promise<OneFSEntry> {
+    const name = path.substring(path.lastIndexOf('/') + 1)
+    if (kind === 'directory') {
+      return { name, kind, path }
+    }
+
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const stat = await Filesystem.stat({ path, directory: Directory.Documents })
+    return {
+      name,
+      kind,
+      size: stat.size,
+      lastModified: stat.mtime ?? Date.now(),
+      path,
+    }
+  }
+
+  private transferError(e: unknown, action: 'move' | 'copy'): OneFSResult<never> {
+    const error = e as Error
+    if (error.name === 'AbortError') {
+      return err('cancelled', `${action === 'move' ? 'Move' : 'Copy'} was cancelled`, e)
+    }
+    if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+      return err('not_found', 'Entry not found', e)
+    }
+    if (error.message?.includes('Permission denied')) {
+      return err('permission_denied', `Permission denied to ${action} entry`, e)
+    }
+    return err('io_error', error.message || `Failed to ${action} entry`, e)
+  }
+
+  /**
+   * Best-effort byte range read - see readPathRange().
+   */
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot read a directory')
+    }
+
+    if (!target.path) {
+      if ('content' in target) {
+        return ok(target.content.slice(offset, offset + length))
+      }
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    try {
+      return ok(await this.readPathRange(target.path, offset, length))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'File not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to read file range', e)
+    }
+  }
+
+  /**
+   * Request a byte range from the native file server with an HTTP Range header.
+   * If the server ignores the header, the body is read only up to the end of the range.
+   * Falls back to a full Filesystem.readFile() when the file server is unreachable.
+   */
+  private async readPathRange(path: string, offset: number, length: number): Promise<Uint8Array> {
+    if (length <= 0) return new Uint8Array(0)
+
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const { Capacitor } = await this.loadCore()
+    const end = offset + length
+
+    try {
+      const uri = await Filesystem.getUri({
+        path,
+        directory: Directory.Documents,
+      })
+      const response = await fetch(Capacitor.convertFileSrc(uri.uri), {
+        headers: { Range: `bytes=${offset}-${end - 1}` },
+      })
+
+      if (response.status === 206) {
+        return new Uint8Array(await response.arrayBuffer()).slice(0, length)
+      }
+      if (response.status === 416) {
+        return new Uint8Array(0)
+      }
+      if (response.ok && response.body) {
+        return await readStreamRange(response.body, offset, end)
+      }
+    } catch {
+      // File server not reachable, fall through to a full read
+    }
+
+    const fileData = await Filesystem.readFile({
+      path,
+      directory: Directory.Documents,
+    })
+
+    const content = fileData.data instanceof Blob
+      ? new Uint8Array(await fileData.data.arrayBuffer())
+      : base64ToUint8Array(fileData.data as string)
+
+    return content.slice(offset, end)
+  }
+
+  /**
+   * Stream a file or entry from the Documents directory.
+   * Reads go through the native file server via convertFileSrc, so content arrives in
+   * chunks instead of one base64 string over the plugin bridge.
+   */
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot stream a directory')
+    }
+
+    if (!target.path) {
+      if ('content' in target) {
+        return ok(bytesToStream(target.content))
+      }
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+      const { Capacitor } = await this.loadCore()
+
+      const uri = await Filesystem.getUri({
+        path: target.path,
+        directory: Directory.Documents,
+      })
+      const response = await fetch(Capacitor.convertFileSrc(uri.uri))
+
+      if (response.status === 404) {
+        return err('not_found', 'File not found')
+      }
+      if (!response.ok || !response.body) {
+        return err('io_error', `Failed to open read stream (HTTP ${response.status})`)
+      }
+
+      return ok(response.body)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'File not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to open read stream', e)
+    }
+  }
+
+  async getFileUrl(file: OneFSFile): Promise<string> {
+    if (!file.path) {
+      return URL.createObjectURL(new Blob([toArrayBuffer(file.content)], { type: file.mimeType }))
+    }
+
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+      const { Capacitor } = await this.loadCore()
+
+      const result = await Filesystem.getUri({
+        path: file.path,
+        directory: Directory.Documents,
+      })
 
       return Capacitor.convertFileSrc(result.uri)
     } catch {
@@ -604,6 +1536,41 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
   }
 
+  private toLazyFile(file: OneFSFile): OneFSLazyFile {
+    return withLazyContent(file, {
+      read: (target) => this.readContent(target),
+      stream: (target) => this.openReadStream(target),
+    })
+  }
+
+  private async readContent(file: OneFSFile): Promise<OneFSResult<Uint8Array>> {
+    if (!file.path) {
+      return ok(file.content)
+    }
+
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+      const fileData = await Filesystem.readFile({
+        path: file.path,
+        directory: Directory.Documents,
+      })
+
+      if (fileData.data instanceof Blob) {
+        return ok(new Uint8Array(await fileData.data.arrayBuffer()))
+      }
+      return ok(base64ToUint8Array(fileData.data as string))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'File not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to read file', e)
+    }
+  }
+
   async getRecentFiles(): Promise<StoredHandle[]> {
     const files = await this.storage.getStoredFiles()
     return files.map(f => ({
@@ -615,10 +1582,29 @@ export class CapacitorAdapter implements OneFSAdapter {
     }))
   }
 
-  async restoreFile(stored: StoredHandle): Promise<OneFSResult<OneFSFile>> {
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions = {}): Promise<OneFSResult<OneFSFile>> {
     if (stored.path) {
       try {
         const { Filesystem, Directory } = await this.loadFilesystem()
+        // A temp file left by an atomic save that never finished (e.g. the app was killed)
+        Filesystem.deleteFile({ path: getAtomicTempPath(stored.path), directory: Directory.Documents }).catch(() => {})
+
+        if (options.loadContent === false) {
+          const stat = await Filesystem.stat({
+            path: stored.path,
+            directory: Directory.Documents,
+          })
+
+          return ok(this.toLazyFile({
+            id: stored.id,
+            name: stored.name,
+            path: stored.path,
+            content: new Uint8Array(0),
+            mimeType: getMimeType(stored.name),
+            size: stat.size,
+            lastModified: stat.mtime ?? Date.now(),
+          }))
+        }
 
         const fileData = await Filesystem.readFile({
           path: stored.path,
@@ -692,15 +1678,23 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
   }
 
-  async deleteFile(file: OneFSFile): Promise<OneFSResult<boolean>> {
-    const path = file.path ?? `${file.id}_${sanitizeFileName(file.name)}`
+  /**
+   * Delete the file, or with `trash` move it into the app's Data directory under
+   * `trash/` and record where it came from so restoreFromTrash() can put it back.
+   */
+  async deleteFile(file: OneFSFile, options: OneFSDeleteFileOptions = {}): Promise<OneFSResult<boolean>> {
+    const path = this.getDocumentPath(file)
 
     try {
       const { Filesystem, Directory } = await this.loadFilesystem()
-      await Filesystem.deleteFile({
-        path,
-        directory: Directory.Documents,
-      })
+      if (options.trash) {
+        await this.moveToTrash(file, path)
+      } else {
+        await Filesystem.deleteFile({
+          path,
+          directory: Directory.Documents,
+        })
+      }
       await this.storage.removeFile(file.id)
       return ok(true)
     } catch (e) {
@@ -715,6 +1709,170 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
   }
 
+  /** Move a Documents file into `trash/` in Data - a failed rename drops the record it stored first */
+  private async moveToTrash(file: OneFSFile, path: string): Promise<void> {
+    const { Filesystem, Directory } = await this.loadFilesystem()
+    const id = generateId()
+    const trashPath = `${TRASH_FOLDER}/${id}_${getFileName(path)}`
+    const stat = await Filesystem.stat({ path, directory: Directory.Documents })
+    await Filesystem.mkdir({ path: TRASH_FOLDER, directory: Directory.Data, recursive: true }).catch(() => {})
+
+    await this.storage.storeTrashItem({
+      id,
+      fileId: file.id,
+      name: file.name,
+      originalPath: path,
+      size: stat.size,
+      deletedAt: Date.now(),
+      mimeType: file.mimeType,
+      trashPath,
+    })
+
+    try {
+      await Filesystem.rename({
+        from: path,
+        to: trashPath,
+        directory: Directory.Documents,
+        toDirectory: Directory.Data,
+      })
+    } catch (e) {
+      await this.storage.removeTrashItems([id]).catch(() => {})
+      throw e
+    }
+  }
+
+  async listTrash(): Promise<OneFSResult<OneFSTrashItem[]>> {
+    try {
+      const items = await this.storage.listTrashItems()
+      return ok(items.map(toTrashItem))
+    } catch (e) {
+      return err('io_error', (e as Error).message || 'Failed to list trash', e)
+    }
+  }
+
+  async restoreFromTrash(item: OneFSTrashItem): Promise<OneFSResult<OneFSFile>> {
+    try {
+      const stored = await this.storage.getTrashItem(item.id)
+      if (!stored?.trashPath || !stored.originalPath) {
+        return err('not_found', 'Item is not in the trash')
+      }
+
+      const { Filesystem, Directory } = await this.loadFilesystem()
+      const existing = await Filesystem.stat({ path: stored.originalPath, directory: Directory.Documents })
+        .catch(() => null)
+      if (existing) {
+        return err('already_exists', `"${stored.name}" already exists at its original location`)
+      }
+
+      await Filesystem.rename({
+        from: stored.trashPath,
+        to: stored.originalPath,
+        directory: Directory.Data,
+        toDirectory: Directory.Documents,
+      })
+      await this.storage.removeTrashItems([stored.id])
+
+      const { data } = await Filesystem.readFile({ path: stored.originalPath, directory: Directory.Documents })
+      const content = typeof data === 'string' ? base64ToUint8Array(data) : new Uint8Array(await data.arrayBuffer())
+      const file: OneFSFile = {
+        id: stored.fileId,
+        name: stored.name,
+        path: stored.originalPath,
+        content,
+        mimeType: stored.mimeType,
+        size: content.byteLength,
+        lastModified: Date.now(),
+      }
+
+      if (this.persistByDefault) {
+        this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+      }
+
+      return ok(file)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Trashed file or its original folder no longer exists', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to restore file', e)
+      }
+      return err('io_error', error.message || 'Failed to restore file from trash', e)
+    }
+  }
+
+  async emptyTrash(options: OneFSEmptyTrashOptions = {}): Promise<OneFSResult<number>> {
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+      const expired = selectExpiredTrash(await this.storage.listTrashItems(), options)
+
+      for (const item of expired) {
+        if (item.trashPath) {
+          const exists = await Filesystem.stat({ path: item.trashPath, directory: Directory.Data })
+            .then(() => true, () => false)
+          if (exists) {
+            await Filesystem.deleteFile({ path: item.trashPath, directory: Directory.Data })
+          }
+        }
+        await this.storage.removeTrashItems([item.id])
+      }
+
+      return ok(expired.length)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to empty trash', e)
+      }
+      return err('io_error', error.message || 'Failed to empty trash', e)
+    }
+  }
+
+  async listBackups(file: OneFSFile): Promise<OneFSResult<OneFSBackup[]>> {
+    try {
+      return ok(await this.findBackups(this.getDocumentPath(file)))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to list backups', e)
+      }
+      return err('io_error', error.message || 'Failed to list backups', e)
+    }
+  }
+
+  async restoreBackup(file: OneFSFile, backup: OneFSBackup): Promise<OneFSResult<OneFSFile>> {
+    try {
+      const backups = await this.findBackups(this.getDocumentPath(file))
+      const match = backups.find((b) => b.id === backup.id)
+      if (!match) {
+        return err('not_found', 'Backup not found for this file')
+      }
+
+      let content: Uint8Array | undefined
+      if (match.location === 'idb') {
+        content = (await this.storage.getBackup(match.id))?.content
+      } else {
+        const { Filesystem, Directory } = await this.loadFilesystem()
+        const { data } = await Filesystem.readFile({ path: match.path!, directory: Directory.Documents })
+        content = typeof data === 'string' ? base64ToUint8Array(data) : new Uint8Array(await data.arrayBuffer())
+      }
+      if (!content) {
+        return err('not_found', 'Backup not found for this file')
+      }
+
+      const saved = await this.saveFile(file, content)
+      if (!saved.ok) return saved
+
+      // saveFile() has set size and lastModified from the written copy
+      return ok({ ...file, content })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Backup not found', e)
+      }
+      return err('io_error', error.message || 'Failed to restore backup', e)
+    }
+  }
+
   async renameFile(file: OneFSFile, newName: string): Promise<OneFSResult<OneFSFile>> {
     const sanitized = sanitizeFileName(newName)
     if (!sanitized) {
@@ -765,6 +1923,82 @@ export class CapacitorAdapter implements OneFSAdapter {
     }
   }
 
+  async renameDirectory(
+    target: OneFSDirectory | OneFSEntry,
+    newName: string
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if ('kind' in target && target.kind !== 'directory') {
+      return err('io_error', 'Entry is not a directory')
+    }
+    if (!target.path || !normalizePath(target.path)) {
+      return err('not_supported', 'Cannot rename the Documents directory')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid directory name')
+    }
+
+    const oldPath = target.path
+    const parentDir = oldPath.includes('/') ? oldPath.substring(0, oldPath.lastIndexOf('/')) : ''
+    const newPath = parentDir ? `${parentDir}/${sanitized}` : sanitized
+
+    try {
+      const { Filesystem, Directory } = await this.loadFilesystem()
+      const existing = await Filesystem.stat({
+        path: newPath,
+        directory: Directory.Documents,
+      }).catch(() => null)
+      if (existing) {
+        return err('already_exists', `"${sanitized}" already exists`)
+      }
+
+      await Filesystem.rename({
+        from: oldPath,
+        to: newPath,
+        directory: Directory.Documents,
+        toDirectory: Directory.Documents,
+      })
+      await this.updateStoredPaths(oldPath, newPath)
+
+      return ok({
+        id: 'id' in target ? target.id : generateId(),
+        name: sanitized,
+        path: newPath,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('not found') || error.message?.includes('does not exist')) {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to rename directory', e)
+      }
+      return err('io_error', error.message || 'Failed to rename directory', e)
+    }
+  }
+
+  /**
+   * Point stored records for a renamed directory - and anything opened from inside it - at the new path.
+   */
+  private async updateStoredPaths(oldPath: string, newPath: string): Promise<void> {
+    const oldNormal = normalizePath(oldPath)
+    const stored = await this.storage.getStoredFiles()
+
+    await Promise.all(
+      stored
+        .filter(f => f.path && isPathWithin(f.path, oldPath))
+        .map(f => {
+          const rest = normalizePath(f.path!).slice(oldNormal.length)
+          return this.storage.storeFile({
+            ...f,
+            name: rest ? f.name : getFileName(newPath),
+            path: newPath + rest,
+          })
+        })
+    )
+  }
+
   async removeFromRecent(id: string): Promise<void> {
     await this.storage.removeFile(id)
   }
@@ -0,0 +1,751 @@
+import type {
+  OneFSAdapter,
+  OneFSFile,
+  OneFSLazyFile,
+  OneFSOpenOptions,
+  OneFSRestoreOptions,
+  OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSDirectory,
+  OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSDeleteFileOptions,
+  OneFSReadDirectoryOptions,
+  OneFSScanOptions,
+  OneFSEntry,
+  OneFSElectronBridge,
+  StoredHandle,
+  OneFSResult,
+} from '../types'
+import { ok, err, PLATFORM_CAPABILITIES } from '../types'
+import { IDBStorage } from '../storage/idb'
+import { ScanFilter } from '../scan-filter'
+import {
+  generateId,
+  getMimeType,
+  getFileName,
+  conflict,
+  resolveRelativePath,
+  sanitizeFileName,
+  isPathWithin,
+  normalizePath,
+  bytesToStream,
+  withLazyContent,
+  splitRelativePath,
+  isAtomicTempName,
+} from '../utils'
+
+const DIRECTORY_MIME_TYPE = 'inode/directory'
+const STREAM_CHUNK_SIZE = 256 * 1024
+
+/**
+ * Electron renderer adapter. Renderers with `contextIsolation` can't reach `fs`, so
+ * dialogs and file access go through the preload API at `window.onefsElectron` -
+ * see exposeElectronBridge() and registerElectronHandlers().
+ *
+ * Paths behave as on Tauri: `file.path` is the real filesystem path, saves happen in
+ * place, and recent files are kept in IndexedDB by path.
+ */
+export class ElectronAdapter implements OneFSAdapter {
+  platform = 'electron' as const
+  capabilities = { ...PLATFORM_CAPABILITIES.electron }
+  private storage: IDBStorage
+  private persistByDefault: boolean
+  private bridge?: OneFSElectronBridge
+
+  /** @param bridge - Use this bridge instead of `window.onefsElectron` */
+  constructor(appName: string, maxRecentFiles = 10, persistByDefault = true, bridge?: OneFSElectronBridge) {
+    this.storage = new IDBStorage(appName, maxRecentFiles)
+    this.persistByDefault = persistByDefault
+    this.bridge = bridge
+  }
+
+  isSupported(): boolean {
+    return !!this.getBridge()
+  }
+
+  private getBridge(): OneFSElectronBridge | undefined {
+    if (this.bridge) return this.bridge
+    if (typeof window === 'undefined') return undefined
+    return (window as { onefsElectron?: OneFSElectronBridge }).onefsElectron
+  }
+
+  /** Call the bridge - a missing bridge is not_supported and a rejected IPC call an io_error */
+  private async call<T>(request: (bridge: OneFSElectronBridge) => Promise<OneFSResult<T>>): Promise<OneFSResult<T>> {
+    const bridge = this.getBridge()
+    if (!bridge) {
+      return err('not_supported', 'Electron bridge not found - call exposeElectronBridge() in your preload script')
+    }
+
+    try {
+      return await request(bridge)
+    } catch (e) {
+      const error = e as Error
+      return err('io_error', error.message || 'Electron bridge call failed', e)
+    }
+  }
+
+  async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+
+    const picked = await this.call((bridge) =>
+      bridge.showOpenDialog({ multiple: options.multiple ?? false, accept: options.accept })
+    )
+    if (!picked.ok) return picked
+
+    const files: OneFSFile[] = []
+    for (const path of options.multiple ? picked.data : picked.data.slice(0, 1)) {
+      const file = await this.readPath(path, generateId(), options.loadContent !== false)
+      if (!file.ok) return file
+
+      if (shouldPersist) {
+        this.storage.storeFileDeferred({ ...file.data, storedAt: Date.now() })
+      }
+      files.push(options.loadContent === false ? this.toLazyFile(file.data) : file.data)
+    }
+
+    return ok(options.multiple ? files : files[0])
+  }
+
+  /**
+   * Write to the file's path, atomically unless `atomic: false`. With `ifUnmodifiedSince`,
+   * the save is refused if the file's mtime is newer; on success `file.size` and
+   * `file.lastModified` are updated to the saved version.
+   */
+  async saveFile(file: OneFSFile, content: Uint8Array | string, options?: OneFSSaveOptions): Promise<OneFSResult<boolean>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot save file without path - use saveFileAs instead')
+    }
+
+    const path = file.path
+    const shouldPersist = options?.persist ?? this.persistByDefault
+    const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+
+    if (options?.ifUnmodifiedSince !== undefined) {
+      const current = await this.call((bridge) => bridge.stat(path))
+      if (current.ok && current.data.lastModified > options.ifUnmodifiedSince) {
+        return conflict({ size: current.data.size, lastModified: current.data.lastModified })
+      }
+    }
+
+    const saved = await this.call((bridge) => bridge.writeFile(path, contentArray, { atomic: options?.atomic ?? true }))
+    if (!saved.ok) return saved
+
+    file.size = saved.data.size
+    file.lastModified = saved.data.lastModified
+
+    if (shouldPersist) {
+      this.storage.storeFileDeferred({
+        id: file.id,
+        name: file.name,
+        path,
+        content: contentArray,
+        mimeType: file.mimeType,
+        size: file.size,
+        lastModified: file.lastModified,
+        storedAt: Date.now(),
+      })
+    }
+
+    return ok(true)
+  }
+
+  async saveFileAs(content: Uint8Array | string, options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+
+    const picked = await this.call((bridge) =>
+      bridge.showSaveDialog({ suggestedName: options.suggestedName, accept: options.accept })
+    )
+    if (!picked.ok) return picked
+
+    const path = picked.data
+    const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+    const saved = await this.call((bridge) => bridge.writeFile(path, contentArray, { atomic: options.atomic ?? true }))
+    if (!saved.ok) return saved
+
+    const name = getFileName(path)
+    const file: OneFSFile = {
+      id: generateId(),
+      name,
+      path,
+      content: contentArray,
+      mimeType: getMimeType(name),
+      size: contentArray.byteLength,
+      lastModified: saved.data.lastModified,
+    }
+
+    if (shouldPersist) {
+      this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+    }
+
+    return ok(file)
+  }
+
+  async openDirectory(options: OneFSDirectoryOptions = {}): Promise<OneFSResult<OneFSDirectory>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+
+    const picked = await this.call((bridge) => bridge.showOpenDialog({ directory: true }))
+    if (!picked.ok) return picked
+
+    const path = picked.data[0]
+    const directory: OneFSDirectory = { id: generateId(), name: getFileName(path), path }
+
+    if (shouldPersist) {
+      this.storage.storeFileDeferred({
+        ...directory,
+        content: new Uint8Array(0),
+        mimeType: DIRECTORY_MIME_TYPE,
+        size: 0,
+        lastModified: Date.now(),
+        storedAt: Date.now(),
+      })
+    }
+
+    return ok(directory)
+  }
+
+  async readDirectory(directory: OneFSDirectory, options: OneFSReadDirectoryOptions = {}): Promise<OneFSResult<OneFSEntry[]>> {
+    const dirPath = directory.path
+    if (!dirPath) {
+      return err('not_supported', 'Cannot read directory without path')
+    }
+
+    const listing = await this.call((bridge) => bridge.readDir(dirPath))
+    if (!listing.ok) return listing
+
+    const entries: OneFSEntry[] = []
+    for (const entry of listing.data) {
+      const safeName = sanitizeFileName(entry.name)
+      const path = `${dirPath}/${safeName}`
+      if (!safeName || isAtomicTempName(safeName) || !isPathWithin(path, dirPath)) continue
+
+      entries.push(entry.kind === 'file' && !options.skipStats
+        ? { name: safeName, kind: 'file', size: entry.size, lastModified: entry.lastModified, path }
+        : { name: safeName, kind: entry.kind, path })
+    }
+
+    return ok(entries)
+  }
+
+  /**
+   * Load a specific file from a directory.
+   * With maxBytes, only the first N bytes cross the bridge.
+   */
+  async readFileFromDirectory(
+    directory: OneFSDirectory,
+    entry: OneFSEntry,
+    options?: { maxBytes?: number }
+  ): Promise<OneFSResult<OneFSFile>> {
+    const path = entry.path
+    if (!path || entry.kind !== 'file') {
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    if (directory.path && !isPathWithin(path, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const range = options?.maxBytes ? { offset: 0, length: options.maxBytes } : undefined
+    const content = await this.call((bridge) => bridge.readFile(path, range))
+    if (!content.ok) return content
+
+    return ok({
+      id: generateId(),
+      name: entry.name,
+      path,
+      content: content.data,
+      mimeType: getMimeType(entry.name),
+      size: content.data.byteLength,
+      lastModified: entry.lastModified ?? Date.now(),
+    })
+  }
+
+  /**
+   * Resolve a relative path against the directory's path, refusing anything that
+   * normalizes to a location outside it.
+   */
+  async getEntry(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot resolve path without directory path')
+    }
+
+    const resolved = resolveRelativePath(relativePath)
+    if (resolved === null) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+    if (!resolved) {
+      return err('io_error', 'Path must name an entry inside the directory')
+    }
+
+    const path = `${directory.path}/${resolved}`
+    if (!isPathWithin(path, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const stat = await this.call((bridge) => bridge.stat(path))
+    if (!stat.ok) {
+      return stat.error.code === 'not_found' ? err('not_found', `"${resolved}" not found`) : stat
+    }
+
+    const name = getFileName(path)
+    const depth = resolved.split('/').length - 1
+    if (stat.data.kind === 'directory') {
+      return ok({ name, kind: 'directory', path, relativePath: resolved, depth })
+    }
+    return ok({
+      name,
+      kind: 'file',
+      size: stat.data.size,
+      lastModified: stat.data.lastModified,
+      path,
+      relativePath: resolved,
+      depth,
+    })
+  }
+
+  async writeFileToDirectory(
+    directory: OneFSDirectory,
+    name: string,
+    content: Uint8Array | string,
+    options: OneFSWriteOptions = {}
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot write to directory without path')
+    }
+
+    const sanitized = sanitizeFileName(name)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const path = `${directory.path}/${sanitized}`
+    if (!isPathWithin(path, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const shouldPersist = options.persist ?? this.persistByDefault
+    const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+
+    const saved = await this.call((bridge) => bridge.writeFile(path, contentArray, { overwrite: !!options.overwrite }))
+    if (!saved.ok) {
+      return saved.error.code === 'already_exists' ? err('already_exists', `File "${sanitized}" already exists`) : saved
+    }
+
+    const file: OneFSFile = {
+      id: generateId(),
+      name: sanitized,
+      path,
+      content: contentArray,
+      mimeType: getMimeType(sanitized),
+      size: contentArray.byteLength,
+      lastModified: saved.data.lastModified,
+    }
+
+    if (shouldPersist) {
+      this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+    }
+
+    return ok(file)
+  }
+
+  async createDirectory(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options: OneFSCreateDirectoryOptions = {}
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!parent.path) {
+      return err('not_supported', 'Cannot create directory without path')
+    }
+
+    const segments = splitRelativePath(relativePath)
+    if (!segments) {
+      return err('io_error', 'Invalid directory path')
+    }
+
+    const name = segments[segments.length - 1]
+    const path = `${parent.path}/${segments.join('/')}`
+    if (!isPathWithin(path, parent.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const existing = await this.call((bridge) => bridge.stat(path))
+    if (existing.ok) {
+      if (existing.data.kind !== 'directory' || !options.recursive) {
+        return err('already_exists', `"${name}" already exists`)
+      }
+    } else {
+      const created = await this.call((bridge) => bridge.mkdir(path, { recursive: !!options.recursive }))
+      if (!created.ok) {
+        return created.error.code === 'not_found' ? err('not_found', 'Parent directory not found') : created
+      }
+    }
+
+    return ok({ id: generateId(), name, path })
+  }
+
+  async deleteEntry(directory: OneFSDirectory, entry: OneFSEntry, options: OneFSDeleteOptions = {}): Promise<OneFSResult<boolean>> {
+    const path = entry.path
+    if (!directory.path || !path) {
+      return err('not_supported', 'Cannot delete entry without path')
+    }
+
+    if (!isPathWithin(path, directory.path) || normalizePath(path) === normalizePath(directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const removed = await this.call((bridge) => bridge.remove(path, { recursive: entry.kind === 'directory' && !!options.recursive }))
+    return removed.ok ? ok(true) : removed
+  }
+
+  /**
+   * Read a byte range - only the requested bytes cross the bridge.
+   */
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot read a directory')
+    }
+
+    const path = target.path
+    if (!path) {
+      if ('content' in target) {
+        return ok(target.content.slice(offset, offset + length))
+      }
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    return this.call((bridge) => bridge.readFile(path, { offset, length }))
+  }
+
+  /**
+   * Stream a file in 256 KB ranges read over the bridge.
+   * Files without a path stream their already-loaded content.
+   */
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot stream a directory')
+    }
+
+    const path = target.path
+    if (!path) {
+      if ('content' in target) {
+        return ok(bytesToStream(target.content))
+      }
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    const stat = await this.call((bridge) => bridge.stat(path))
+    if (!stat.ok) return stat
+
+    let offset = 0
+    return ok(new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        const chunk = await this.call((bridge) => bridge.readFile(path, { offset, length: STREAM_CHUNK_SIZE }))
+        if (!chunk.ok) {
+          controller.error(new Error(chunk.error.message))
+          return
+        }
+        if (chunk.data.byteLength === 0) {
+          controller.close()
+          return
+        }
+        offset += chunk.data.byteLength
+        controller.enqueue(chunk.data)
+      },
+    }))
+  }
+
+  async scanDirectory(directory: OneFSDirectory, options: OneFSScanOptions = {}): Promise<OneFSResult<OneFSEntry[]>> {
+    const dirPath = directory.path
+    if (!dirPath) {
+      return err('not_supported', 'Cannot scan directory without path')
+    }
+
+    const root = await this.call((bridge) => bridge.stat(dirPath))
+    if (!root.ok) {
+      return root.error.code === 'not_found' ? err('not_found', 'Directory not found') : root
+    }
+
+    const files: OneFSEntry[] = []
+    for await (const entry of this.walk(directory, options)) {
+      files.push(entry)
+    }
+
+    if (options.signal?.aborted) {
+      return err('cancelled', 'Scan was cancelled')
+    }
+    return ok(files)
+  }
+
+  /**
+   * Depth-first walk with the shared scan filters. Listings carry file stats, so each
+   * directory costs one bridge call; unreadable directories go to onError and are skipped.
+   */
+  async *walk(directory: OneFSDirectory, options: OneFSScanOptions = {}): AsyncGenerator<OneFSEntry> {
+    const rootPath = directory.path
+    if (!rootPath) {
+      options.onError?.(directory.name, new Error('Cannot walk directory without path'))
+      return
+    }
+
+    const { onProgress, onError, signal, skipStats, maxDepth, includeDirectories } = options
+    const pending = [{ path: rootPath, relativePath: '', depth: 0, filter: ScanFilter.create(options) }]
+    let scanned = 0
+    let found = 0
+
+    while (pending.length > 0) {
+      if (signal?.aborted) return
+
+      const { path: currentDir, relativePath: currentRelative, depth, filter: parentFilter } = pending.pop()!
+      let filter = parentFilter
+
+      const listing = await this.call((bridge) => bridge.readDir(currentDir))
+      if (!listing.ok) {
+        onError?.(currentDir, listing.error)
+        continue
+      }
+
+      for (const entry of listing.data) {
+        if (entry.kind !== 'file' || !filter.ignoreFileNames.includes(entry.name)) continue
+        const ignorePath = `${currentDir}/${sanitizeFileName(entry.name)}`
+        const ignoreFile = await this.call((bridge) => bridge.readFile(ignorePath))
+        if (ignoreFile.ok) {
+          filter = filter.withIgnoreFile(currentRelative, new TextDecoder().decode(ignoreFile.data))
+        } else {
+          onError?.(ignorePath, ignoreFile.error)
+        }
+      }
+
+      for (const entry of listing.data) {
+        if (signal?.aborted) return
+
+        const safeName = sanitizeFileName(entry.name)
+        const entryPath = `${currentDir}/${safeName}`
+        const relativePath = currentRelative ? `${currentRelative}/${safeName}` : safeName
+        if (!safeName || isAtomicTempName(safeName) || !isPathWithin(entryPath, rootPath)) continue
+        scanned++
+
+        if (entry.kind === 'directory') {
+          if (filter.skipDirectory(relativePath)) continue
+          if (maxDepth === undefined || depth < maxDepth) {
+            pending.push({ path: entryPath, relativePath, depth: depth + 1, filter })
+          }
+          if (includeDirectories) {
+            found++
+            yield { name: safeName, kind: 'directory', path: entryPath, relativePath, depth }
+          }
+        } else {
+          if (!filter.matchesPath(relativePath)) continue
+          if (skipStats) {
+            found++
+            yield { name: safeName, kind: 'file', path: entryPath, relativePath, depth }
+            continue
+          }
+
+          if (!filter.matchesStats(entry.size, entry.lastModified)) continue
+          found++
+          yield { name: safeName, kind: 'file', size: entry.size, lastModified: entry.lastModified, path: entryPath, relativePath, depth }
+        }
+      }
+
+      onProgress?.(scanned, found)
+    }
+  }
+
+  /** Stat and optionally read a path into a file with the given id */
+  private async readPath(path: string, id: string, loadContent: boolean): Promise<OneFSResult<OneFSFile>> {
+    const stat = await this.call((bridge) => bridge.stat(path))
+    if (!stat.ok) return stat
+    if (stat.data.kind === 'directory') {
+      return err('io_error', 'Path is a directory')
+    }
+
+    let content: Uint8Array = new Uint8Array(0)
+    if (loadContent) {
+      const read = await this.call((bridge) => bridge.readFile(path))
+      if (!read.ok) return read
+      content = read.data
+    }
+
+    const name = getFileName(path)
+    return ok({
+      id,
+      name,
+      path,
+      content,
+      mimeType: getMimeType(name),
+      size: loadContent ? content.byteLength : stat.data.size,
+      lastModified: stat.data.lastModified,
+    })
+  }
+
+  private toLazyFile(file: OneFSFile): OneFSLazyFile {
+    return withLazyContent(file, {
+      read: (target) => target.path ? this.call((bridge) => bridge.readFile(target.path!)) : Promise.resolve(ok(target.content)),
+      stream: (target) => this.openReadStream(target),
+    })
+  }
+
+  async getRecentFiles(): Promise<StoredHandle[]> {
+    const files = await this.storage.getStoredFiles()
+    return files.map((f) => ({
+      id: f.id,
+      name: f.name,
+      path: f.path,
+      type: f.mimeType === DIRECTORY_MIME_TYPE ? 'directory' as const : 'file' as const,
+      storedAt: f.storedAt,
+    }))
+  }
+
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const file = await this.storage.getStoredFile(stored.id)
+    if (!file || file.mimeType === DIRECTORY_MIME_TYPE) {
+      return err('not_found', 'File not found in storage')
+    }
+    if (!file.path) {
+      return err('not_found', 'File path not found')
+    }
+
+    const loadContent = options.loadContent !== false
+    const restored = await this.readPath(file.path, file.id, loadContent)
+    if (!restored.ok) {
+      return restored.error.code === 'not_found'
+        ? err('not_found', 'File no longer exists at original location')
+        : restored
+    }
+
+    return ok(loadContent ? restored.data : this.toLazyFile(restored.data))
+  }
+
+  async restoreDirectory(stored: StoredHandle): Promise<OneFSResult<OneFSDirectory>> {
+    const file = await this.storage.getStoredFile(stored.id)
+    if (!file || file.mimeType !== DIRECTORY_MIME_TYPE) {
+      return err('not_found', 'Directory not found in storage')
+    }
+
+    const path = file.path
+    if (!path) {
+      return err('not_found', 'Directory path not found')
+    }
+
+    const stat = await this.call((bridge) => bridge.stat(path))
+    if (!stat.ok) {
+      return stat.error.code === 'not_found'
+        ? err('not_found', 'Directory no longer exists at original location')
+        : stat
+    }
+    if (stat.data.kind !== 'directory') {
+      return err('not_found', 'Path is not a directory')
+    }
+
+    return ok({ id: file.id, name: file.name, path })
+  }
+
+  async deleteFile(file: OneFSFile, options: OneFSDeleteFileOptions = {}): Promise<OneFSResult<boolean>> {
+    const path = file.path
+    if (!path) {
+      return err('not_supported', 'Cannot delete file without path')
+    }
+    if (options.trash) {
+      return err('not_supported', 'Trash is not supported on electron')
+    }
+
+    const stored = await this.storage.getStoredFile(file.id)
+    if (!stored || stored.path !== path) {
+      return err('permission_denied', 'File was not opened through this adapter')
+    }
+
+    const removed = await this.call((bridge) => bridge.remove(path))
+    if (!removed.ok) return removed
+
+    await this.storage.removeFile(file.id)
+    return ok(true)
+  }
+
+  async renameFile(file: OneFSFile, newName: string): Promise<OneFSResult<OneFSFile>> {
+    const oldPath = file.path
+    if (!oldPath) {
+      return err('not_supported', 'Cannot rename file without path')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const stored = await this.storage.getStoredFile(file.id)
+    if (!stored || stored.path !== oldPath) {
+      return err('permission_denied', 'File was not opened through this adapter')
+    }
+
+    const parentDir = oldPath.substring(0, Math.max(oldPath.lastIndexOf('/'), oldPath.lastIndexOf('\\')))
+    const newPath = parentDir ? `${parentDir}/${sanitized}` : sanitized
+
+    const renamed = await this.call((bridge) => bridge.rename(oldPath, newPath))
+    if (!renamed.ok) return renamed
+
+    const updatedFile: OneFSFile = { ...file, name: sanitized, path: newPath, mimeType: getMimeType(sanitized) }
+    await this.storage.storeFile({ ...stored, name: sanitized, path: newPath, mimeType: updatedFile.mimeType })
+
+    return ok(updatedFile)
+  }
+
+  async renameDirectory(target: OneFSDirectory | OneFSEntry, newName: string): Promise<OneFSResult<OneFSDirectory>> {
+    const oldPath = target.path
+    if (!oldPath) {
+      return err('not_supported', 'Cannot rename directory without path')
+    }
+    if ('kind' in target && target.kind !== 'directory') {
+      return err('io_error', 'Entry is not a directory')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid directory name')
+    }
+
+    const parentDir = oldPath.substring(0, Math.max(oldPath.lastIndexOf('/'), oldPath.lastIndexOf('\\')))
+    const newPath = parentDir ? `${parentDir}/${sanitized}` : sanitized
+
+    const renamed = await this.call((bridge) => bridge.rename(oldPath, newPath))
+    if (!renamed.ok) {
+      return renamed.error.code === 'already_exists' ? err('already_exists', `"${sanitized}" already exists`) : renamed
+    }
+
+    await this.updateStoredPaths(oldPath, newPath)
+    return ok({ id: 'id' in target ? target.id : generateId(), name: sanitized, path: newPath })
+  }
+
+  /**
+   * Point stored records for a renamed directory - and anything opened from inside it - at the new path.
+   */
+  private async updateStoredPaths(oldPath: string, newPath: string): Promise<void> {
+    const oldNormal = normalizePath(oldPath)
+    const stored = await this.storage.getStoredFiles()
+
+    await Promise.all(
+      stored
+        .filter(f => f.path && isPathWithin(f.path, oldPath))
+        .map(f => {
+          const rest = normalizePath(f.path!).slice(oldNormal.length)
+          return this.storage.storeFile({
+            ...f,
+            name: rest ? f.name : getFileName(newPath),
+            path: newPath + rest,
+          })
+        })
+    )
+  }
+
+  async removeFromRecent(id: string): Promise<void> {
+    await this.storage.removeFile(id)
+  }
+
+  async clearRecent(): Promise<void> {
+    await this.storage.clearFiles()
+  }
+
+  dispose(): void {
+    this.storage.dispose()
+  }
+}
@@ -1,20 +1,42 @@
 import type {
   OneFSAdapter,
   OneFSFile,
+  OneFSLazyFile,
   OneFSOpenOptions,
+  OneFSRestoreOptions,
   OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSWritableFile,
   OneFSDirectory,
   OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSTransferOptions,
+  OneFSWatchOptions,
+  OneFSWatchCallback,
+  OneFSWatchEvent,
   OneFSReadDirectoryOptions,
+  OneFSScanOptions,
   OneFSEntry,
+  OneFSBackup,
+  OneFSBackupConfig,
+  OneFSDeleteFileOptions,
+  OneFSTrashItem,
+  OneFSEmptyTrashOptions,
   StoredHandle,
   OneFSResult,
   PermissionMode,
   PermissionStatus,
 } from '../types'
-import { ok, err } from '../types'
+import { ok, err, PLATFORM_CAPABILITIES } from '../types'
 import { IDBStorage } from '../storage/idb'
-import { generateId, getMimeType, sanitizeFileName, toArrayBuffer } from '../utils'
+import { ScanFilter } from '../scan-filter'
+import { createPollingWatcher } from '../watch'
+import { resolveBackupConfig, storeIDBBackup, listIDBBackups } from '../backups'
+import { toTrashItem, selectExpiredTrash } from '../trash'
+import { generateId, getMimeType, getAtomicTempPath, conflict, resolveRelativePath, sanitizeFileName, toArrayBuffer, bytesToStream, withLazyContent, splitRelativePath } from '../utils'
+
+const STAT_CHUNK_SIZE = 25
 
 function buildAcceptTypes(accept?: string[]): FilePickerAcceptType[] {
   if (!accept || accept.length === 0) return []
@@ -38,20 +60,30 @@ function buildAcceptTypes(accept?: string[]): FilePickerAcceptType[] {
  */
 export class FSAccessAdapter implements OneFSAdapter {
   platform = 'web-fs-access' as const
+  capabilities = { ...PLATFORM_CAPABILITIES['web-fs-access'] }
   private storage: IDBStorage
   private persistByDefault: boolean
+  private backups: Required<OneFSBackupConfig> | null
 
-  constructor(appName: string, maxRecentFiles = 10, persistByDefault = true) {
+  constructor(
+    appName: string,
+    maxRecentFiles = 10,
+    persistByDefault = true,
+    backups?: boolean | OneFSBackupConfig
+  ) {
     this.storage = new IDBStorage(appName, maxRecentFiles)
     this.persistByDefault = persistByDefault
+    this.backups = resolveBackupConfig(backups)
   }
 
   isSupported(): boolean {
+    if (typeof window === 'undefined') return false
     return 'showOpenFilePicker' in window
   }
 
   async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
     const shouldPersist = options.persist ?? this.persistByDefault
+    const loadContent = options.loadContent ?? true
 
     try {
       const handles = await window.showOpenFilePicker({
@@ -63,7 +95,7 @@ export class FSAccessAdapter implements OneFSAdapter {
       const fileDataResults = await Promise.all(
         handles.map(async (handle) => {
           const file = await handle.getFile()
-          const content = new Uint8Array(await file.arrayBuffer())
+          const content = loadContent ? new Uint8Array(await file.arrayBuffer()) : null
           return { handle, file, content }
         })
       )
@@ -75,15 +107,17 @@ export class FSAccessAdapter implements OneFSAdapter {
           this.storage.storeHandle(handle, id).catch(() => {})
         }
 
-        return {
+        const onefsFile: OneFSFile = {
           id,
           name: handle.name,
-          content,
+          content: content ?? new Uint8Array(0),
           mimeType: file.type || getMimeType(handle.name),
-          size: content.byteLength,
+          size: content?.byteLength ?? file.size,
           lastModified: file.lastModified,
           handle,
         }
+
+        return content ? onefsFile : this.toLazyFile(onefsFile)
       })
 
       return ok(options.multiple ? files : files[0])
@@ -99,10 +133,17 @@ export class FSAccessAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Write to the file's handle. createWritable() writes to a browser-managed swap file
+   * that only replaces the original on close(), so saves are already atomic and the
+   * `atomic` option is not needed. With `ifUnmodifiedSince`, the file is re-read first and
+   * the save refused if it changed on disk. On success `file.size` and `file.lastModified`
+   * are updated to the saved version so the same object can be saved again.
+   */
   async saveFile(
     file: OneFSFile,
     content: Uint8Array | string,
-    _options?: OneFSSaveOptions
+    options: OneFSSaveOptions = {}
   ): Promise<OneFSResult<boolean>> {
     if (!file.handle) {
       return err('not_supported', 'Cannot save file without handle - use saveFileAs instead')
@@ -117,17 +158,41 @@ export class FSAccessAdapter implements OneFSAdapter {
         }
       }
 
+      if (options.ifUnmodifiedSince !== undefined) {
+        const current = await file.handle.getFile()
+        if (current.lastModified > options.ifUnmodifiedSince) {
+          return conflict({ size: current.size, lastModified: current.lastModified })
+        }
+      }
+
+      if (this.backups && options.backup !== false) {
+        try {
+          const current = await file.handle.getFile()
+          const content = new Uint8Array(await current.arrayBuffer())
+          await storeIDBBackup(this.storage, file.id, file.name, content, this.backups.maxBackups)
+        } catch (e) {
+          return err('io_error', 'Failed to back up the previous version - file not saved', e)
+        }
+      }
+
       const writable = await file.handle.createWritable()
       const data = typeof content === 'string' ? content : new Blob([toArrayBuffer(content)])
       await writable.write(data)
       await writable.close()
 
+      const saved = await file.handle.getFile()
+      file.size = saved.size
+      file.lastModified = saved.lastModified
+
       return ok(true)
     } catch (e) {
       const error = e as Error
       if (error.name === 'AbortError') {
         return err('cancelled', 'User cancelled save operation')
       }
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'File no longer exists', e)
+      }
       if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
         return err('permission_denied', 'Permission denied to save file', e)
       }
@@ -178,6 +243,89 @@ export class FSAccessAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Stream new content into an existing file via createWritable().
+   * The browser writes to a swap file and only replaces the original on close().
+   */
+  async createWriteStream(
+    file: OneFSFile,
+    options: OneFSSaveOptions = {}
+  ): Promise<OneFSResult<WritableStream<Uint8Array>>> {
+    if (!file.handle) {
+      return err('not_supported', 'Cannot save file without handle - use saveFileAsStream instead')
+    }
+
+    try {
+      const permission = await file.handle.queryPermission({ mode: 'readwrite' })
+      if (permission !== 'granted') {
+        const requested = await file.handle.requestPermission({ mode: 'readwrite' })
+        if (requested !== 'granted') {
+          return err('permission_denied', 'Write permission denied')
+        }
+      }
+
+      if (options.ifUnmodifiedSince !== undefined) {
+        const current = await file.handle.getFile()
+        if (current.lastModified > options.ifUnmodifiedSince) {
+          return conflict({ size: current.size, lastModified: current.lastModified })
+        }
+      }
+
+      const writable = await file.handle.createWritable()
+      return ok(writable as WritableStream<Uint8Array>)
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'File no longer exists', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to save file', e)
+      }
+      return err('io_error', error.message || 'Failed to open write stream', e)
+    }
+  }
+
+  async saveFileAsStream(options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSWritableFile>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+
+    try {
+      const handle = await window.showSaveFilePicker({
+        suggestedName: options.suggestedName,
+        types: buildAcceptTypes(options.accept),
+        startIn: options.startIn,
+      })
+
+      const writable = await handle.createWritable()
+
+      const id = generateId()
+      if (shouldPersist) {
+        await this.storage.storeHandle(handle, id)
+      }
+
+      return ok({
+        file: {
+          id,
+          name: handle.name,
+          content: new Uint8Array(0),
+          mimeType: getMimeType(handle.name),
+          size: 0,
+          lastModified: Date.now(),
+          handle,
+        },
+        stream: writable as WritableStream<Uint8Array>,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'AbortError') {
+        return err('cancelled', 'User cancelled save dialog')
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to save file', e)
+      }
+      return err('io_error', error.message || 'Failed to save file', e)
+    }
+  }
+
   async openDirectory(options: OneFSDirectoryOptions = {}): Promise<OneFSResult<OneFSDirectory>> {
     const shouldPersist = options.persist ?? this.persistByDefault
 
@@ -267,14 +415,289 @@ export class FSAccessAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Recursively scan a directory by walking handle.values().
+   * Entries carry their handle plus `relativePath` and `depth` - there is no absolute `path` on the web.
+   */
+  async scanDirectory(
+    directory: OneFSDirectory,
+    options: OneFSScanOptions = {}
+  ): Promise<OneFSResult<OneFSEntry[]>> {
+    if (!directory.handle) {
+      return err('not_supported', 'Cannot scan directory without handle')
+    }
+
+    try {
+      const files: OneFSEntry[] = []
+      for await (const entry of this.walkHandle(directory.handle, options)) {
+        files.push(entry)
+      }
+
+      if (options.signal?.aborted) {
+        return err('cancelled', 'Scan was cancelled')
+      }
+
+      return ok(files)
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to scan directory', e)
+      }
+      return err('io_error', error.message || 'Failed to scan directory', e)
+    }
+  }
+
+  /**
+   * Yield files as each directory is read. Stops quietly when the signal aborts;
+   * errors other than per-directory failures are reported through onError.
+   */
+  async *walk(directory: OneFSDirectory, options: OneFSScanOptions = {}): AsyncGenerator<OneFSEntry> {
+    if (!directory.handle) {
+      options.onError?.(directory.name, new Error('Cannot walk directory without handle'))
+      return
+    }
+
+    try {
+      yield* this.walkHandle(directory.handle, options)
+    } catch (e) {
+      options.onError?.(directory.name, e)
+    }
+  }
+
+  /**
+   * Watch with FileSystemObserver where available (Chromium), otherwise poll
+   * snapshots of the directory and diff them.
+   */
+  async watch(
+    directory: OneFSDirectory,
+    options: OneFSWatchOptions,
+    callback: OneFSWatchCallback
+  ): Promise<OneFSResult<() => void>> {
+    if (!directory.handle) {
+      return err('not_supported', 'Cannot watch directory without handle')
+    }
+
+    const handle = directory.handle
+
+    try {
+      if (typeof FileSystemObserver !== 'undefined') {
+        // Records are converted in order - stat calls must not reorder events
+        let queue = Promise.resolve()
+        const observer = new FileSystemObserver((records) => {
+          for (const record of records) {
+            queue = queue
+              .then(() => this.changeRecordToEvent(record, options))
+              .then((event) => {
+                if (event) callback(event)
+              })
+              .catch((e) => options.onError?.(e))
+          }
+        })
+        await observer.observe(handle, { recursive: !!options.recursive })
+        return ok(() => observer.disconnect())
+      }
+
+      const unwatch = await createPollingWatcher(
+        async () => {
+          const entries: OneFSEntry[] = []
+          const scanOptions = { maxDepth: options.recursive ? undefined : 0, includeDirectories: true }
+          for await (const entry of this.walkHandle(handle, scanOptions)) {
+            entries.push(entry)
+          }
+          return entries
+        },
+        callback,
+        { interval: options.pollInterval, onError: options.onError }
+      )
+      return ok(unwatch)
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to watch directory', e)
+      }
+      return err('io_error', error.message || 'Failed to watch directory', e)
+    }
+  }
+
+  private async changeRecordToEvent(
+    record: FileSystemChangeRecord,
+    options: OneFSWatchOptions
+  ): Promise<OneFSWatchEvent | null> {
+    if (record.type === 'errored') {
+      options.onError?.(new Error('Directory observer stopped - the directory may have been removed'))
+      return null
+    }
+    if (record.type === 'unknown') return null
+
+    const changed = record.changedHandle
+    const toEntry = async (components: string[], withStats: boolean): Promise<OneFSEntry> => {
+      const entry: OneFSEntry = {
+        name: components[components.length - 1] ?? changed.name,
+        kind: changed.kind,
+        handle: changed,
+        relativePath: components.join('/'),
+        depth: components.length - 1,
+      }
+      if (withStats && changed.kind === 'file') {
+        const file = await changed.getFile().catch(() => null)
+        entry.size = file?.size
+        entry.lastModified = file?.lastModified
+      }
+      return entry
+    }
+
+    switch (record.type) {
+      case 'appeared':
+        return { type: 'created', entry: await toEntry(record.relativePathComponents, true) }
+      case 'modified':
+        return { type: 'modified', entry: await toEntry(record.relativePathComponents, true) }
+      case 'disappeared':
+        return { type: 'deleted', entry: await toEntry(record.relativePathComponents, false) }
+      case 'moved': {
+        const entry = await toEntry(record.relativePathComponents, true)
+        if (!record.relativePathMovedFrom) {
+          return { type: 'created', entry }
+        }
+        const from = record.relativePathMovedFrom
+        return {
+          type: 'renamed',
+          entry,
+          oldEntry: {
+            name: from[from.length - 1] ?? changed.name,
+            kind: changed.kind,
+            relativePath: from.join('/'),
+            depth: from.length - 1,
+          },
+        }
+      }
+    }
+  }
+
+  private async *walkHandle(
+    root: FileSystemDirectoryHandle,
+    options: OneFSScanOptions
+  ): AsyncGenerator<OneFSEntry> {
+    const { onProgress, onError, signal, skipStats, maxDepth, includeDirectories } = options
+
+    const directoriesToScan: { handle: FileSystemDirectoryHandle; path: string; depth: number; filter: ScanFilter }[] = [
+      { handle: root, path: '', depth: 0, filter: ScanFilter.create(options) },
+    ]
+    let totalScanned = 0
+    let found = 0
+
+    while (directoriesToScan.length > 0) {
+      if (signal?.aborted) return
+
+      const current = directoriesToScan.pop()!
+      const fileHandlesToStat: { handle: FileSystemFileHandle; path: string }[] = []
+      let filter = current.filter
+
+      try {
+        const children: (FileSystemFileHandle | FileSystemDirectoryHandle)[] = []
+        for await (const entry of current.handle.values()) {
+          children.push(entry)
+        }
+
+        for (const entry of children) {
+          if (entry.kind !== 'file' || !filter.ignoreFileNames.includes(entry.name)) continue
+          try {
+            filter = filter.withIgnoreFile(current.path, await (await entry.getFile()).text())
+          } catch (readError) {
+            onError?.(current.path ? `${current.path}/${entry.name}` : entry.name, readError)
+          }
+        }
+
+        for (const entry of children) {
+          const entryPath = current.path ? `${current.path}/${entry.name}` : entry.name
+
+          if (entry.kind === 'directory') {
+            if (filter.skipDirectory(entryPath)) continue
+            if (maxDepth === undefined || current.depth < maxDepth) {
+              directoriesToScan.push({ handle: entry, path: entryPath, depth: current.depth + 1, filter })
+            }
+            if (includeDirectories) {
+              found++
+              yield { name: entry.name, kind: 'directory', handle: entry, relativePath: entryPath, depth: current.depth }
+            }
+          } else {
+            if (!filter.matchesPath(entryPath)) continue
+
+            if (skipStats) {
+              found++
+              yield { name: entry.name, kind: 'file', handle: entry, relativePath: entryPath, depth: current.depth }
+            } else {
+              fileHandlesToStat.push({ handle: entry, path: entryPath })
+            }
+          }
+
+          totalScanned++
+        }
+      } catch (dirError) {
+        // The root failing means the scan itself failed
+        if (!current.path) throw dirError
+        onError?.(current.path, dirError)
+        continue
+      }
+
+      for (let i = 0; i < fileHandlesToStat.length; i += STAT_CHUNK_SIZE) {
+        if (signal?.aborted) return
+
+        const chunk = fileHandlesToStat.slice(i, i + STAT_CHUNK_SIZE)
+        const stats = await Promise.all(
+          chunk.map(entry =>
+            entry.handle.getFile().catch(statError => {
+              onError?.(entry.path, statError)
+              return null
+            })
+          )
+        )
+        for (let j = 0; j < chunk.length; j++) {
+          const file = stats[j]
+          if (file && !filter.matchesStats(file.size, file.lastModified)) continue
+          found++
+          yield {
+            name: chunk[j].handle.name,
+            kind: 'file',
+            size: file?.size,
+            lastModified: file?.lastModified,
+            handle: chunk[j].handle,
+            relativePath: chunk[j].path,
+            depth: current.depth,
+          }
+        }
+
+        if (onProgress) {
+          onProgress(totalScanned, found)
+        }
+      }
+
+      if (onProgress && totalScanned % 100 === 0) {
+        onProgress(totalScanned, found)
+      }
+      if (totalScanned % 500 === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      }
+    }
+
+    if (onProgress) {
+      onProgress(totalScanned, found)
+    }
+  }
+
   /**
    * Load a specific file from a directory.
-   * Note: maxBytes option is not supported on web-fs-access (full file is always loaded).
+   * With maxBytes, only the first N bytes are read via File.slice().
    */
   async readFileFromDirectory(
     _directory: OneFSDirectory,
     entry: OneFSEntry,
-    _options?: { maxBytes?: number }
+    options?: { maxBytes?: number }
   ): Promise<OneFSResult<OneFSFile>> {
     if (!entry.handle || entry.kind !== 'file') {
       return err('not_supported', 'Cannot read file without handle')
@@ -283,7 +706,8 @@ export class FSAccessAdapter implements OneFSAdapter {
     try {
       const fileHandle = entry.handle as FileSystemFileHandle
       const file = await fileHandle.getFile()
-      const content = new Uint8Array(await file.arrayBuffer())
+      const blob = options?.maxBytes ? file.slice(0, options.maxBytes) : file
+      const content = new Uint8Array(await blob.arrayBuffer())
 
       return ok({
         id: generateId(),
@@ -306,93 +730,739 @@ export class FSAccessAdapter implements OneFSAdapter {
     }
   }
 
-  async getRecentFiles(): Promise<StoredHandle[]> {
-    return this.storage.getStoredHandles()
-  }
-
-  async restoreFile(stored: StoredHandle): Promise<OneFSResult<OneFSFile>> {
-    const handle = await this.storage.getHandleObject(stored.id)
-    if (!handle || handle.kind !== 'file') {
-      return err('not_found', 'File handle not found in storage')
+  /**
+   * Resolve a relative path by chaining getDirectoryHandle() through its folders
+   * and looking up the last segment as a file or directory.
+   */
+  async getEntry(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>> {
+    if (!directory.handle) {
+      return err('not_supported', 'Cannot resolve path without directory handle')
     }
 
-    const fileHandle = handle as FileSystemFileHandle
+    const resolved = resolveRelativePath(relativePath)
+    if (resolved === null) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+    if (!resolved) {
+      return err('io_error', 'Path must name an entry inside the directory')
+    }
 
     try {
-      const permission = await fileHandle.queryPermission({ mode: 'read' })
-      if (permission !== 'granted') {
-        const requested = await fileHandle.requestPermission({ mode: 'read' })
-        if (requested !== 'granted') {
-          return err('permission_denied', 'Read permission denied')
-        }
+      const segments = resolved.split('/')
+      let current = directory.handle
+      for (const segment of segments.slice(0, -1)) {
+        current = await current.getDirectoryHandle(segment)
       }
 
-      const file = await fileHandle.getFile()
-      const content = new Uint8Array(await file.arrayBuffer())
+      const handle = await this.findChildHandle(current, segments[segments.length - 1])
+      if (!handle) {
+        return err('not_found', `"${resolved}" not found`)
+      }
 
-      return ok({
-        id: stored.id,
-        name: fileHandle.name,
-        content,
-        mimeType: file.type || getMimeType(fileHandle.name),
-        size: content.byteLength,
-        lastModified: file.lastModified,
-        handle: fileHandle,
-      })
+      const entry = await this.toEntry(handle)
+      return ok({ ...entry, relativePath: resolved, depth: segments.length - 1 })
     } catch (e) {
       const error = e as Error
-      if (error.name === 'NotFoundError') {
-        return err('not_found', 'File no longer exists at original location', e)
+      if (error.name === 'NotFoundError' || error.name === 'TypeMismatchError') {
+        return err('not_found', `"${resolved}" not found`, e)
       }
       if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
-        return err('permission_denied', 'Permission denied to restore file', e)
+        return err('permission_denied', 'Permission denied to read directory', e)
       }
-      return err('io_error', error.message || 'Failed to restore file', e)
+      return err('io_error', error.message || 'Failed to resolve path', e)
     }
   }
 
-  async restoreDirectory(stored: StoredHandle, mode: PermissionMode = 'read'): Promise<OneFSResult<OneFSDirectory>> {
-    const handle = await this.storage.getHandleObject(stored.id)
-    if (!handle || handle.kind !== 'directory') {
-      return err('not_found', 'Directory handle not found in storage')
+  /**
+   * Stream a file or entry via File.stream() without buffering it in memory.
+   * Files without a handle stream their already-loaded content.
+   */
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot stream a directory')
     }
 
-    const dirHandle = handle as FileSystemDirectoryHandle
-
-    try {
-      const permission = await dirHandle.queryPermission({ mode })
-      if (permission !== 'granted') {
-        const requested = await dirHandle.requestPermission({ mode })
-        if (requested !== 'granted') {
-          return err('permission_denied', `${mode === 'readwrite' ? 'Write' : 'Read'} permission denied`)
-        }
+    if (!target.handle) {
+      if ('content' in target) {
+        return ok(bytesToStream(target.content))
       }
+      return err('not_supported', 'Cannot read file without handle')
+    }
 
-      return ok({
-        id: stored.id,
-        name: dirHandle.name,
-        handle: dirHandle,
-      })
+    try {
+      const file = await (target.handle as FileSystemFileHandle).getFile()
+      return ok(file.stream())
     } catch (e) {
       const error = e as Error
       if (error.name === 'NotFoundError') {
-        return err('not_found', 'Directory no longer exists at original location', e)
+        return err('not_found', 'File no longer exists', e)
       }
       if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
-        return err('permission_denied', 'Permission denied to restore directory', e)
+        return err('permission_denied', 'Permission denied to read file', e)
       }
-      return err('io_error', error.message || 'Failed to restore directory', e)
+      return err('io_error', error.message || 'Failed to open read stream', e)
     }
   }
 
-  async queryPermission(target: OneFSFile | OneFSDirectory, mode: PermissionMode): Promise<PermissionStatus> {
-    const handle = target.handle
-    if (!handle) return 'denied'
-
-    try {
-      return await handle.queryPermission({ mode })
-    } catch {
-      return 'denied'
+  /**
+   * Create a file inside a directory via getFileHandle(name, { create: true }).
+   */
+  async writeFileToDirectory(
+    directory: OneFSDirectory,
+    name: string,
+    content: Uint8Array | string,
+    options: OneFSWriteOptions = {}
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!directory.handle) {
+      return err('not_supported', 'Cannot write to directory without handle')
+    }
+
+    const sanitized = sanitizeFileName(name)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const shouldPersist = options.persist ?? this.persistByDefault
+
+    try {
+      const permission = await directory.handle.queryPermission({ mode: 'readwrite' })
+      if (permission !== 'granted') {
+        const requested = await directory.handle.requestPermission({ mode: 'readwrite' })
+        if (requested !== 'granted') {
+          return err('permission_denied', 'Write permission denied')
+        }
+      }
+
+      if (!options.overwrite) {
+        const existing = await directory.handle.getFileHandle(sanitized).catch(() => null)
+        if (existing) {
+          return err('already_exists', `File "${sanitized}" already exists`)
+        }
+      }
+
+      const handle = await directory.handle.getFileHandle(sanitized, { create: true })
+      const writable = await handle.createWritable()
+      const data = typeof content === 'string' ? content : new Blob([toArrayBuffer(content)])
+      await writable.write(data)
+      await writable.close()
+
+      const id = generateId()
+      if (shouldPersist) {
+        await this.storage.storeHandle(handle, id)
+      }
+
+      const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+
+      return ok({
+        id,
+        name: handle.name,
+        content: contentArray,
+        mimeType: getMimeType(handle.name),
+        size: contentArray.byteLength,
+        lastModified: Date.now(),
+        handle,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'Directory no longer exists', e)
+      }
+      if (error.name === 'TypeMismatchError') {
+        return err('already_exists', `A directory named "${sanitized}" already exists`, e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to write file', e)
+      }
+      return err('io_error', error.message || 'Failed to write file', e)
+    }
+  }
+
+  /**
+   * Create a directory by walking getDirectoryHandle() from the parent handle.
+   */
+  async createDirectory(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options: OneFSCreateDirectoryOptions = {}
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!parent.handle) {
+      return err('not_supported', 'Cannot create directory without handle')
+    }
+
+    const segments = splitRelativePath(relativePath)
+    if (!segments) {
+      return err('io_error', 'Invalid directory path')
+    }
+
+    try {
+      const permission = await parent.handle.queryPermission({ mode: 'readwrite' })
+      if (permission !== 'granted') {
+        const requested = await parent.handle.requestPermission({ mode: 'readwrite' })
+        if (requested !== 'granted') {
+          return err('permission_denied', 'Write permission denied')
+        }
+      }
+
+      let handle = parent.handle
+      for (let i = 0; i < segments.length; i++) {
+        const isLast = i === segments.length - 1
+
+        if (isLast && !options.recursive) {
+          const existing = await handle.getDirectoryHandle(segments[i]).catch(() => null)
+          if (existing) {
+            return err('already_exists', `Directory "${segments[i]}" already exists`)
+          }
+        }
+
+        handle = await handle.getDirectoryHandle(segments[i], { create: isLast || !!options.recursive })
+      }
+
+      return ok({
+        id: generateId(),
+        name: handle.name,
+        handle,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'Parent directory not found', e)
+      }
+      if (error.name === 'TypeMismatchError') {
+        return err('already_exists', 'A file with that name already exists', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to create directory', e)
+      }
+      return err('io_error', error.message || 'Failed to create directory', e)
+    }
+  }
+
+  /**
+   * Delete a file or directory entry via removeEntry() on its parent handle. Nested
+   * entries from scanDirectory() are located through their `relativePath`, and the
+   * handle found there must be the entry's own handle - otherwise nothing is deleted.
+   */
+  async deleteEntry(
+    directory: OneFSDirectory,
+    entry: OneFSEntry,
+    options: OneFSDeleteOptions = {}
+  ): Promise<OneFSResult<boolean>> {
+    if (!directory.handle) {
+      return err('not_supported', 'Cannot delete entry without directory handle')
+    }
+
+    const resolved = resolveRelativePath(entry.relativePath ?? entry.name)
+    if (resolved === null) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const segments = resolved.split('/')
+    const name = segments[segments.length - 1]
+    if (!resolved || name !== entry.name || sanitizeFileName(name) !== name) {
+      return err('permission_denied', 'Entry is not inside the directory')
+    }
+
+    try {
+      const permission = await directory.handle.queryPermission({ mode: 'readwrite' })
+      if (permission !== 'granted') {
+        const requested = await directory.handle.requestPermission({ mode: 'readwrite' })
+        if (requested !== 'granted') {
+          return err('permission_denied', 'Write permission denied')
+        }
+      }
+
+      let parent = directory.handle
+      for (const segment of segments.slice(0, -1)) {
+        parent = await parent.getDirectoryHandle(segment)
+      }
+
+      const target = await this.findChildHandle(parent, name)
+      if (!target || target.kind !== entry.kind || (entry.handle && !(await target.isSameEntry(entry.handle)))) {
+        return err('not_found', `"${resolved}" not found`)
+      }
+
+      await parent.removeEntry(name, { recursive: options.recursive ?? false })
+      return ok(true)
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError' || error.name === 'TypeMismatchError') {
+        return err('not_found', 'Entry not found', e)
+      }
+      if (error.name === 'InvalidModificationError') {
+        return err('io_error', 'Directory is not empty - pass recursive: true to delete it', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to delete entry', e)
+      }
+      return err('io_error', error.message || 'Failed to delete entry', e)
+    }
+  }
+
+  /**
+   * Move an entry with FileSystemHandle.move(). Browsers without cross-directory
+   * move support fall back to a recursive copy followed by remove() on the source.
+   */
+  async moveEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    if (!entry.handle || !targetDirectory.handle) {
+      return err('not_supported', 'Cannot move entry without handles')
+    }
+
+    const name = sanitizeFileName(newName ?? entry.name)
+    if (!name) {
+      return err('io_error', 'Invalid entry name')
+    }
+
+    const handle = entry.handle as FileSystemFileHandle | FileSystemDirectoryHandle
+    const canMove = typeof handle.move === 'function'
+    const canRemove = typeof handle.remove === 'function'
+    if (!canMove && !canRemove) {
+      return err('not_supported', 'Moving entries is not supported in this browser')
+    }
+
+    const targetHandle = targetDirectory.handle
+
+    try {
+      const prepared = await this.prepareTransfer(handle, targetHandle, name, options)
+      if (!prepared.ok) return prepared
+
+      const { existing, sameEntry } = prepared.data
+      if (existing && sameEntry) {
+        return ok(await this.toEntry(existing))
+      }
+
+      let moved = false
+      await this.transferOnto(targetHandle, name, existing, async () => {
+        if (canMove) {
+          try {
+            await handle.move(targetHandle, name)
+            moved = true
+          } catch (e) {
+            const error = e as Error
+            if (!canRemove || (error.name !== 'NotSupportedError' && error.name !== 'TypeError')) {
+              throw e
+            }
+          }
+        }
+
+        if (!moved) {
+          await this.copyHandle(handle, targetHandle, name, options)
+        }
+      })
+
+      if (!moved) {
+        await handle.remove({ recursive: true })
+      }
+
+      return ok(await this.toEntry(await this.getChildHandle(targetHandle, name, handle.kind)))
+    } catch (e) {
+      return this.transferError(e, 'move')
+    }
+  }
+
+  /**
+   * Copy an entry into a directory by streaming file contents into new handles.
+   * Directories are copied recursively - onProgress reports files copied so far.
+   */
+  async copyEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    if (!entry.handle || !targetDirectory.handle) {
+      return err('not_supported', 'Cannot copy entry without handles')
+    }
+
+    const name = sanitizeFileName(newName ?? entry.name)
+    if (!name) {
+      return err('io_error', 'Invalid entry name')
+    }
+
+    const handle = entry.handle as FileSystemFileHandle | FileSystemDirectoryHandle
+
+    const targetHandle = targetDirectory.handle
+
+    try {
+      const prepared = await this.prepareTransfer(handle, targetHandle, name, options)
+      if (!prepared.ok) return prepared
+
+      const { existing, sameEntry } = prepared.data
+      if (sameEntry) {
+        return err('already_exists', 'Cannot copy an entry onto itself')
+      }
+
+      const copied = await this.transferOnto(targetHandle, name, existing, () =>
+        this.copyHandle(handle, targetHandle, name, options)
+      )
+      return ok(await this.toEntry(copied))
+    } catch (e) {
+      return this.transferError(e, 'copy')
+    }
+  }
+
+  /**
+   * Shared checks for moveEntry/copyEntry: write permission, no directory into itself,
+   * and name conflicts. Resolves with the existing target handle, if any - `sameEntry`
+   * when it is the source itself, otherwise it is one that overwrite allows replacing.
+   */
+  private async prepareTransfer(
+    handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+    targetHandle: FileSystemDirectoryHandle,
+    name: string,
+    options: OneFSTransferOptions
+  ): Promise<OneFSResult<{ existing: FileSystemFileHandle | FileSystemDirectoryHandle | null; sameEntry: boolean }>> {
+    const permission = await targetHandle.queryPermission({ mode: 'readwrite' })
+    if (permission !== 'granted') {
+      const requested = await targetHandle.requestPermission({ mode: 'readwrite' })
+      if (requested !== 'granted') {
+        return err('permission_denied', 'Write permission denied')
+      }
+    }
+
+    if (handle.kind === 'directory') {
+      const inside = await handle.isSameEntry(targetHandle) || (await handle.resolve(targetHandle)) !== null
+      if (inside) {
+        return err('io_error', 'Cannot move or copy a directory into itself')
+      }
+    }
+
+    const existing = await this.findChildHandle(targetHandle, name) as FileSystemFileHandle | FileSystemDirectoryHandle | null
+    if (!existing) {
+      return ok({ existing: null, sameEntry: false })
+    }
+    if (await existing.isSameEntry(handle)) {
+      return ok({ existing, sameEntry: true })
+    }
+    if (!options.overwrite) {
+      return err('already_exists', `"${name}" already exists`)
+    }
+
+    return ok({ existing, sameEntry: false })
+  }
+
+  /**
+   * Run a transfer onto `name`. An existing entry being replaced is renamed aside
+   * first and only removed once the transfer succeeds - a failed or cancelled
+   * transfer puts it back.
+   */
+  private async transferOnto<T>(
+    targetHandle: FileSystemDirectoryHandle,
+    name: string,
+    existing: FileSystemFileHandle | FileSystemDirectoryHandle | null,
+    transfer: () => Promise<T>
+  ): Promise<T> {
+    if (!existing) {
+      return transfer()
+    }
+
+    const asideName = getAtomicTempPath(name)
+    await this.renameChild(targetHandle, existing, asideName)
+
+    let result: T
+    try {
+      result = await transfer()
+    } catch (e) {
+      await targetHandle.removeEntry(name, { recursive: true }).catch(() => {})
+      await this.getChildHandle(targetHandle, asideName, existing.kind)
+        .then((aside) => this.renameChild(targetHandle, aside as FileSystemFileHandle | FileSystemDirectoryHandle, name))
+        .catch(() => {})
+      throw e
+    }
+
+    await targetHandle.removeEntry(asideName, { recursive: true }).catch(() => {})
+    return result
+  }
+
+  /** Rename a child of `directory` with move(), or copy + remove where move() is missing */
+  private async renameChild(
+    directory: FileSystemDirectoryHandle,
+    handle: FileSystemFileHandle | FileSystemDirectoryHandle,
+    name: string
+  ): Promise<void> {
+    if (typeof handle.move === 'function') {
+      await handle.move(name)
+      return
+    }
+
+    const oldName = handle.name
+    await this.copyHandle(handle, directory, name, {})
+    await directory.removeEntry(oldName, { recursive: true })
+  }
+
+  private async copyHandle(
+    source: FileSystemFileHandle | FileSystemDirectoryHandle,
+    targetHandle: FileSystemDirectoryHandle,
+    name: string,
+    options: OneFSTransferOptions
+  ): Promise<FileSystemHandle> {
+    const { onProgress, signal } = options
+
+    if (source.kind === 'file') {
+      const copy = await targetHandle.getFileHandle(name, { create: true })
+      await this.copyFileHandle(source, copy)
+      onProgress?.(1, 1)
+      return copy
+    }
+
+    // Collect the tree up front so progress has a total
+    const files: { handle: FileSystemFileHandle; parent: FileSystemDirectoryHandle }[] = []
+    const root = await targetHandle.getDirectoryHandle(name, { create: true })
+    const pending: { source: FileSystemDirectoryHandle; target: FileSystemDirectoryHandle }[] = [
+      { source, target: root },
+    ]
+
+    while (pending.length > 0) {
+      if (signal?.aborted) {
+        throw new DOMException('Copy was cancelled', 'AbortError')
+      }
+
+      const current = pending.pop()!
+      for await (const child of current.source.values()) {
+        if (child.kind === 'file') {
+          files.push({ handle: child, parent: current.target })
+        } else {
+          const target = await current.target.getDirectoryHandle(child.name, { create: true })
+          pending.push({ source: child, target })
+        }
+      }
+    }
+
+    for (let i = 0; i < files.length; i++) {
+      if (signal?.aborted) {
+        throw new DOMException('Copy was cancelled', 'AbortError')
+      }
+
+      const copy = await files[i].parent.getFileHandle(files[i].handle.name, { create: true })
+      await this.copyFileHandle(files[i].handle, copy)
+      onProgress?.(i + 1, files.length)
+    }
+
+    return root
+  }
+
+  private async copyFileHandle(source: FileSystemFileHandle, target: FileSystemFileHandle): Promise<void> {
+    const file = await source.getFile()
+    const writable = await target.createWritable()
+    await file.stream().pipeTo(writable)
+  }
+
+  private async findChildHandle(
+    directory: FileSystemDirectoryHandle,
+    name: string
+  ): Promise<FileSystemHandle | null> {
+    try {
+      return await directory.getFileHandle(name)
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'TypeMismatchError') {
+        return directory.getDirectoryHandle(name)
+      }
+      if (error.name === 'NotFoundError') {
+        return null
+      }
+      throw e
+    }
+  }
+
+  private getChildHandle(
+    directory: FileSystemDirectoryHandle,
+    name: string,
+    kind: 'file' | 'directory'
+  ): Promise<FileSystemHandle> {
+    return kind === 'file' ? directory.getFileHandle(name) : directory.getDirectoryHandle(name)
+  }
+
+  private async toEntry(handle: FileSystemHandle): Promise<OneFSEntry> {
+    if (handle.kind === 'directory') {
+      return { name: handle.name, kind: 'directory', handle }
+    }
+
+    const file = await (handle as FileSystemFileHandle).getFile()
+    return {
+      name: handle.name,
+      kind: 'file',
+      size: file.size,
+      lastModified: file.lastModified,
+      handle,
+    }
+  }
+
+  private transferError(e: unknown, action: 'move' | 'copy'): OneFSResult<never> {
+    const error = e as Error
+    if (error.name === 'AbortError') {
+      return err('cancelled', `${action === 'move' ? 'Move' : 'Copy'} was cancelled`, e)
+    }
+    if (error.name === 'NotFoundError') {
+      return err('not_found', 'Entry not found', e)
+    }
+    if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+      return err('permission_denied', `Permission denied to ${action} entry`, e)
+    }
+    return err('io_error', error.message || `Failed to ${action} entry`, e)
+  }
+
+  /**
+   * Read a byte range via File.slice() - only the requested bytes are loaded.
+   */
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot read a directory')
+    }
+
+    if (!target.handle) {
+      if ('content' in target) {
+        return ok(target.content.slice(offset, offset + length))
+      }
+      return err('not_supported', 'Cannot read file without handle')
+    }
+
+    try {
+      const file = await (target.handle as FileSystemFileHandle).getFile()
+      return ok(new Uint8Array(await file.slice(offset, offset + length).arrayBuffer()))
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'File no longer exists', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to read file range', e)
+    }
+  }
+
+  private toLazyFile(file: OneFSFile): OneFSLazyFile {
+    return withLazyContent(file, {
+      read: (target) => this.readContent(target),
+      stream: (target) => this.openReadStream(target),
+    })
+  }
+
+  private async readContent(file: OneFSFile): Promise<OneFSResult<Uint8Array>> {
+    if (!file.handle) {
+      return ok(file.content)
+    }
+
+    try {
+      const blob = await file.handle.getFile()
+      return ok(new Uint8Array(await blob.arrayBuffer()))
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'File no longer exists', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to read file', e)
+    }
+  }
+
+  async getRecentFiles(): Promise<StoredHandle[]> {
+    return this.storage.getStoredHandles()
+  }
+
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const handle = await this.storage.getHandleObject(stored.id)
+    if (!handle || handle.kind !== 'file') {
+      return err('not_found', 'File handle not found in storage')
+    }
+
+    const fileHandle = handle as FileSystemFileHandle
+
+    try {
+      const permission = await fileHandle.queryPermission({ mode: 'read' })
+      if (permission !== 'granted') {
+        const requested = await fileHandle.requestPermission({ mode: 'read' })
+        if (requested !== 'granted') {
+          return err('permission_denied', 'Read permission denied')
+        }
+      }
+
+      const file = await fileHandle.getFile()
+
+      if (options.loadContent === false) {
+        return ok(this.toLazyFile({
+          id: stored.id,
+          name: fileHandle.name,
+          content: new Uint8Array(0),
+          mimeType: file.type || getMimeType(fileHandle.name),
+          size: file.size,
+          lastModified: file.lastModified,
+          handle: fileHandle,
+        }))
+      }
+
+      const content = new Uint8Array(await file.arrayBuffer())
+
+      return ok({
+        id: stored.id,
+        name: fileHandle.name,
+        content,
+        mimeType: file.type || getMimeType(fileHandle.name),
+        size: content.byteLength,
+        lastModified: file.lastModified,
+        handle: fileHandle,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'File no longer exists at original location', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to restore file', e)
+      }
+      return err('io_error', error.message || 'Failed to restore file', e)
+    }
+  }
+
+  async restoreDirectory(stored: StoredHandle, mode: PermissionMode = 'read'): Promise<OneFSResult<OneFSDirectory>> {
+    const handle = await this.storage.getHandleObject(stored.id)
+    if (!handle || handle.kind !== 'directory') {
+      return err('not_found', 'Directory handle not found in storage')
+    }
+
+    const dirHandle = handle as FileSystemDirectoryHandle
+
+    try {
+      const permission = await dirHandle.queryPermission({ mode })
+      if (permission !== 'granted') {
+        const requested = await dirHandle.requestPermission({ mode })
+        if (requested !== 'granted') {
+          return err('permission_denied', `${mode === 'readwrite' ? 'Write' : 'Read'} permission denied`)
+        }
+      }
+
+      return ok({
+        id: stored.id,
+        name: dirHandle.name,
+        handle: dirHandle,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'Directory no longer exists at original location', e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to restore directory', e)
+      }
+      return err('io_error', error.message || 'Failed to restore directory', e)
+    }
+  }
+
+  async queryPermission(target: OneFSFile | OneFSDirectory, mode: PermissionMode): Promise<PermissionStatus> {
+    const handle = target.handle
+    if (!handle) return 'denied'
+
+    try {
+      return await handle.queryPermission({ mode })
+    } catch {
+      return 'denied'
     }
   }
 
@@ -466,7 +1536,42 @@ export class FSAccessAdapter implements OneFSAdapter {
     await this.storage.removeNamedHandle(key)
   }
 
-  async deleteFile(file: OneFSFile): Promise<OneFSResult<boolean>> {
+  /**
+   * Backups live in IndexedDB keyed by file id - a handle gives no access to the
+   * file's folder - so they follow the file across restoreFile() but not a new pick.
+   */
+  async listBackups(file: OneFSFile): Promise<OneFSResult<OneFSBackup[]>> {
+    try {
+      return ok(await listIDBBackups(this.storage, file.id))
+    } catch (e) {
+      return err('io_error', (e as Error).message || 'Failed to list backups', e)
+    }
+  }
+
+  /** A backup stored under another file's id is not_found, even with the same name */
+  async restoreBackup(file: OneFSFile, backup: OneFSBackup): Promise<OneFSResult<OneFSFile>> {
+    try {
+      const stored = await this.storage.getBackup(backup.id)
+      if (!stored || stored.fileKey !== file.id) {
+        return err('not_found', 'Backup not found for this file')
+      }
+
+      const saved = await this.saveFile(file, stored.content)
+      if (!saved.ok) return saved
+
+      // saveFile() has set size and lastModified from the written file
+      return ok({ ...file, content: stored.content })
+    } catch (e) {
+      return err('io_error', (e as Error).message || 'Failed to restore backup', e)
+    }
+  }
+
+  /**
+   * Delete the file. With `trash`, its content and folder are captured in IndexedDB
+   * first - there is no trash folder to move it to - and the file is only removed
+   * once they are stored.
+   */
+  async deleteFile(file: OneFSFile, options: OneFSDeleteFileOptions = {}): Promise<OneFSResult<boolean>> {
     if (!file.handle) {
       return err('not_supported', 'Cannot delete file without handle')
     }
@@ -480,6 +1585,23 @@ export class FSAccessAdapter implements OneFSAdapter {
         }
       }
 
+      if (options.trash) {
+        const current = await file.handle.getFile()
+        const stored = await this.storage.storeTrashItem({
+          id: generateId(),
+          fileId: file.id,
+          name: file.name,
+          size: current.size,
+          deletedAt: Date.now(),
+          mimeType: file.mimeType,
+          content: new Uint8Array(await current.arrayBuffer()),
+          parentHandle: await this.findParentDirectory(file.handle) ?? undefined,
+        })
+        if (!stored) {
+          return err('io_error', 'File is too large for the trash - delete it without trash instead')
+        }
+      }
+
       await file.handle.remove()
       await this.storage.removeHandle(file.id)
       return ok(true)
@@ -495,6 +1617,114 @@ export class FSAccessAdapter implements OneFSAdapter {
     }
   }
 
+  async listTrash(): Promise<OneFSResult<OneFSTrashItem[]>> {
+    try {
+      const items = await this.storage.listTrashItems()
+      return ok(items.map(toTrashItem))
+    } catch (e) {
+      return err('io_error', (e as Error).message || 'Failed to list trash', e)
+    }
+  }
+
+  /**
+   * The folder holding a file, found through the directories in recent items - a file
+   * handle can't reach its parent, and a deleted file's handle can't be written again.
+   */
+  private async findParentDirectory(handle: FileSystemFileHandle): Promise<FileSystemDirectoryHandle | null> {
+    for (const stored of await this.storage.getStoredHandles()) {
+      if (stored.type !== 'directory') continue
+      try {
+        const directory = await this.storage.getHandleObject(stored.id)
+        if (directory?.kind !== 'directory') continue
+        const segments = await directory.resolve(handle)
+        if (!segments) continue
+
+        let parent = directory as FileSystemDirectoryHandle
+        for (const segment of segments.slice(0, -1)) {
+          parent = await parent.getDirectoryHandle(segment)
+        }
+        return parent
+      } catch {
+        // A stored folder that has gone away can't be the parent
+      }
+    }
+    return null
+  }
+
+  /**
+   * Recreate the file in the folder it was deleted from when that folder is inside a
+   * recent directory. Otherwise a save dialog suggests the original name, which needs
+   * a user gesture - call this from a click handler.
+   */
+  async restoreFromTrash(item: OneFSTrashItem): Promise<OneFSResult<OneFSFile>> {
+    try {
+      const stored = await this.storage.getTrashItem(item.id)
+      if (!stored?.content) {
+        return err('not_found', 'Item is not in the trash')
+      }
+
+      let handle: FileSystemFileHandle | null = null
+      const parent = stored.parentHandle
+      if (parent) {
+        const permission = await parent.queryPermission({ mode: 'readwrite' })
+        if (permission !== 'granted') {
+          const requested = await parent.requestPermission({ mode: 'readwrite' })
+          if (requested !== 'granted') {
+            return err('permission_denied', 'Write permission denied')
+          }
+        }
+        if (await parent.getFileHandle(stored.name).catch(() => null)) {
+          return err('already_exists', `"${stored.name}" already exists at its original location`)
+        }
+        // The folder itself may have been deleted since - fall back to the dialog
+        handle = await parent.getFileHandle(stored.name, { create: true }).catch((e: Error) => {
+          if (e.name !== 'NotFoundError') throw e
+          return null
+        })
+      }
+      handle ??= await window.showSaveFilePicker({ suggestedName: stored.name })
+
+      const content = stored.content
+      const writable = await handle.createWritable()
+      await writable.write(new Blob([toArrayBuffer(content)]))
+      await writable.close()
+
+      await this.storage.removeTrashItems([stored.id])
+      if (this.persistByDefault) {
+        await this.storage.storeHandle(handle, stored.fileId)
+      }
+
+      return ok({
+        id: stored.fileId,
+        name: handle.name,
+        handle,
+        content,
+        mimeType: stored.mimeType,
+        size: content.byteLength,
+        lastModified: Date.now(),
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'AbortError') {
+        return err('cancelled', 'User cancelled restore')
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to restore file', e)
+      }
+      return err('io_error', error.message || 'Failed to restore file from trash', e)
+    }
+  }
+
+  async emptyTrash(options: OneFSEmptyTrashOptions = {}): Promise<OneFSResult<number>> {
+    try {
+      const expired = selectExpiredTrash(await this.storage.listTrashItems(), options)
+      await this.storage.removeTrashItems(expired.map((item) => item.id))
+      return ok(expired.length)
+    } catch (e) {
+      return err('io_error', (e as Error).message || 'Failed to empty trash', e)
+    }
+  }
+
   async renameFile(file: OneFSFile, newName: string): Promise<OneFSResult<OneFSFile>> {
     if (!file.handle) {
       return err('not_supported', 'Cannot rename file without handle')
@@ -533,6 +1763,89 @@ export class FSAccessAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Rename a directory with FileSystemHandle.move(). Stored handles for the directory
+   * and anything inside it are re-resolved from the renamed handle, since handles
+   * persisted in IndexedDB still point at the old location.
+   */
+  async renameDirectory(
+    target: OneFSDirectory | OneFSEntry,
+    newName: string
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!target.handle || target.handle.kind !== 'directory') {
+      return err('not_supported', 'Cannot rename directory without directory handle')
+    }
+
+    const handle = target.handle as FileSystemDirectoryHandle
+    if (typeof handle.move !== 'function') {
+      return err('not_supported', 'Renaming directories is not supported in this browser')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid directory name')
+    }
+
+    try {
+      const permission = await handle.queryPermission({ mode: 'readwrite' })
+      if (permission !== 'granted') {
+        const requested = await handle.requestPermission({ mode: 'readwrite' })
+        if (requested !== 'granted') {
+          return err('permission_denied', 'Write permission denied')
+        }
+      }
+
+      // Resolve stored handles against the old location before it disappears
+      const affected: { id: string; kind: 'file' | 'directory'; segments: string[] }[] = []
+      for (const stored of await this.storage.getStoredHandles()) {
+        const storedHandle = await this.storage.getHandleObject(stored.id)
+        if (!storedHandle) continue
+        const segments = await handle.resolve(storedHandle).catch(() => null)
+        if (segments) {
+          affected.push({ id: stored.id, kind: storedHandle.kind, segments })
+        }
+      }
+
+      await handle.move(sanitized)
+
+      // The move already happened - a record that fails to follow it must not fail the rename
+      for (const { id, kind, segments } of affected) {
+        try {
+          let current: FileSystemFileHandle | FileSystemDirectoryHandle = handle
+          for (let i = 0; i < segments.length; i++) {
+            const isLast = i === segments.length - 1
+            const dir = current as FileSystemDirectoryHandle
+            current = isLast && kind === 'file'
+              ? await dir.getFileHandle(segments[i])
+              : await dir.getDirectoryHandle(segments[i])
+          }
+          await this.storage.updateHandle(id, current)
+        } catch {
+          // The entry was deleted since it was stored, so there is nothing left to restore
+          await this.storage.removeHandle(id).catch(() => {})
+        }
+      }
+
+      return ok({
+        id: 'id' in target ? target.id : generateId(),
+        name: handle.name,
+        handle,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.name === 'NotFoundError') {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.name === 'InvalidModificationError') {
+        return err('already_exists', `"${sanitized}" already exists`, e)
+      }
+      if (error.name === 'SecurityError' || error.name === 'NotAllowedError') {
+        return err('permission_denied', 'Permission denied to rename directory', e)
+      }
+      return err('io_error', error.message || 'Failed to rename directory', e)
+    }
+  }
+
   async removeFromRecent(id: string): Promise<void> {
     await this.storage.removeHandle(id)
   }
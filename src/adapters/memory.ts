@@ -0,0 +1,957 @@
+import type {
+  OneFSAdapter,
+  OneFSFile,
+  OneFSLazyFile,
+  OneFSOpenOptions,
+  OneFSRestoreOptions,
+  OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSWritableFile,
+  OneFSDirectory,
+  OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSDeleteFileOptions,
+  OneFSTransferOptions,
+  OneFSTrashItem,
+  OneFSEmptyTrashOptions,
+  OneFSReadDirectoryOptions,
+  OneFSScanOptions,
+  OneFSWatchCallback,
+  OneFSWatchEventType,
+  OneFSWatchOptions,
+  OneFSEntry,
+  StoredHandle,
+  StoredTrashItem,
+  OneFSResult,
+} from '../types'
+import { ok, err, PLATFORM_CAPABILITIES } from '../types'
+import { ScanFilter } from '../scan-filter'
+import { toTrashItem, selectExpiredTrash } from '../trash'
+import {
+  generateId,
+  getMimeType,
+  getFileName,
+  conflict,
+  resolveRelativePath,
+  sanitizeFileName,
+  isPathWithin,
+  normalizePath,
+  bytesToStream,
+  withLazyContent,
+  splitRelativePath,
+} from '../utils'
+
+interface MemoryNode {
+  kind: 'file' | 'directory'
+  content: Uint8Array
+  lastModified: number
+}
+
+interface MemoryWatcher {
+  root: string
+  recursive: boolean
+  callback: OneFSWatchCallback
+  onError?: (error: unknown) => void
+}
+
+/** Absolute `/`-separated path inside the virtual tree */
+function toTreePath(path: string): string {
+  return normalizePath(`/${path}`)
+}
+
+function getParentPath(path: string): string {
+  return path.slice(0, path.lastIndexOf('/')) || '/'
+}
+
+function joinPath(dir: string, name: string): string {
+  return dir === '/' ? `/${name}` : `${dir}/${name}`
+}
+
+function toBytes(content: Uint8Array | string): Uint8Array {
+  return typeof content === 'string' ? new TextEncoder().encode(content) : content.slice()
+}
+
+/**
+ * In-memory adapter backed by a virtual tree of `/`-separated paths.
+ * Used for tests and server-side rendering, and as the default when no browser
+ * or native file APIs exist.
+ *
+ * Pickers don't show UI - each call takes the next response queued with
+ * queuePick() or queueCancel(). openFile() and openDirectory() cancel when
+ * nothing is queued; saveFileAs() falls back to `/<suggestedName>`.
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryAdapter('test')
+ * memory.writeFile('/docs/notes.txt', 'hello')
+ * memory.queuePick('/docs/notes.txt')
+ *
+ * const fs = createOneFS({ appName: 'test', adapter: memory })
+ * const result = await fs.openFile() // notes.txt
+ * ```
+ */
+export class MemoryAdapter implements OneFSAdapter {
+  platform = 'memory' as const
+  capabilities = { ...PLATFORM_CAPABILITIES.memory }
+  private nodes = new Map<string, MemoryNode>([['/', { kind: 'directory', content: new Uint8Array(0), lastModified: Date.now() }]])
+  private picks: (string[] | null)[] = []
+  private recent: StoredHandle[] = []
+  private trash = new Map<string, StoredTrashItem>()
+  private watchers = new Set<MemoryWatcher>()
+  private maxRecentFiles: number
+  private persistByDefault: boolean
+
+  constructor(_appName = 'memory', maxRecentFiles = 10, persistByDefault = true) {
+    this.maxRecentFiles = maxRecentFiles
+    this.persistByDefault = persistByDefault
+  }
+
+  isSupported(): boolean {
+    return true
+  }
+
+  /** Create or replace a file, creating missing parent directories */
+  writeFile(path: string, content: Uint8Array | string, lastModified = Date.now()): void {
+    const treePath = toTreePath(path)
+    this.mkdir(getParentPath(treePath))
+    const existed = this.nodes.get(treePath)?.kind === 'file'
+    this.nodes.set(treePath, { kind: 'file', content: toBytes(content), lastModified })
+    this.notify(existed ? 'modified' : 'created', treePath)
+  }
+
+  /** Create a directory and any missing parents, like mkdir -p */
+  mkdir(path: string): void {
+    const treePath = toTreePath(path)
+    if (this.nodes.has(treePath)) return
+    this.mkdir(getParentPath(treePath))
+    this.nodes.set(treePath, { kind: 'directory', content: new Uint8Array(0), lastModified: Date.now() })
+    this.notify('created', treePath)
+  }
+
+  /** A copy of a file's content, or null if there is no file at `path` */
+  readFile(path: string): Uint8Array | null {
+    const node = this.nodes.get(toTreePath(path))
+    return node?.kind === 'file' ? node.content.slice() : null
+  }
+
+  exists(path: string): boolean {
+    return this.nodes.has(toTreePath(path))
+  }
+
+  /**
+   * Queue the paths the next picker call returns - one or more files for openFile(),
+   * a directory for openDirectory(), or the target path for saveFileAs().
+   */
+  queuePick(...paths: string[]): void {
+    this.picks.push(paths.map(toTreePath))
+  }
+
+  /** Make the next picker call fail with 'cancelled' */
+  queueCancel(): void {
+    this.picks.push(null)
+  }
+
+  /** Remove every file, queued pick, recent entry and trashed item */
+  reset(): void {
+    this.nodes = new Map([['/', { kind: 'directory', content: new Uint8Array(0), lastModified: Date.now() }]])
+    this.picks = []
+    this.recent = []
+    this.trash.clear()
+  }
+
+  async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
+    const picked = this.picks.shift()
+    if (!picked?.length) {
+      return err('cancelled', 'User cancelled file picker')
+    }
+
+    const shouldPersist = options.persist ?? this.persistByDefault
+    const loadContent = options.loadContent ?? true
+    const files: OneFSFile[] = []
+
+    for (const path of options.multiple ? picked : picked.slice(0, 1)) {
+      const node = this.nodes.get(path)
+      if (node?.kind !== 'file') {
+        return err('not_found', `File not found: ${path}`)
+      }
+
+      const file = this.toFile(path, node, generateId())
+      files.push(loadContent ? file : this.toLazyFile(file))
+      if (shouldPersist) this.addRecent(file.id, path, 'file')
+    }
+
+    return ok(options.multiple ? files : files[0])
+  }
+
+  async saveFile(file: OneFSFile, content: Uint8Array | string, options?: OneFSSaveOptions): Promise<OneFSResult<boolean>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot save file without path')
+    }
+
+    const path = toTreePath(file.path)
+    const current = this.nodes.get(path)
+    if (current?.kind === 'directory') {
+      return err('io_error', `"${file.name}" is a directory`)
+    }
+    if (current && options?.ifUnmodifiedSince !== undefined && current.lastModified > options.ifUnmodifiedSince) {
+      return conflict({ size: current.content.byteLength, lastModified: current.lastModified })
+    }
+    if (!this.isDirectory(getParentPath(path))) {
+      return err('not_found', 'Parent directory not found')
+    }
+
+    this.writeFile(path, content)
+    const node = this.nodes.get(path)!
+    file.size = node.content.byteLength
+    file.lastModified = node.lastModified
+
+    if (options?.persist ?? this.persistByDefault) this.addRecent(file.id, path, 'file')
+    return ok(true)
+  }
+
+  async saveFileAs(content: Uint8Array | string, options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const target = this.pickSavePath(options)
+    if (!target.ok) return target
+
+    const path = target.data
+    if (this.nodes.get(path)?.kind === 'directory') {
+      return err('io_error', `"${getFileName(path)}" is a directory`)
+    }
+
+    this.writeFile(path, content)
+    const file = this.toFile(path, this.nodes.get(path)!, generateId())
+    if (options.persist ?? this.persistByDefault) this.addRecent(file.id, path, 'file')
+    return ok(file)
+  }
+
+  /**
+   * Collect chunks and write them when the stream closes - abort() leaves the file untouched.
+   */
+  async createWriteStream(file: OneFSFile, options?: OneFSSaveOptions): Promise<OneFSResult<WritableStream<Uint8Array>>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot write file without path')
+    }
+
+    const path = toTreePath(file.path)
+    const current = this.nodes.get(path)
+    if (current && options?.ifUnmodifiedSince !== undefined && current.lastModified > options.ifUnmodifiedSince) {
+      return conflict({ size: current.content.byteLength, lastModified: current.lastModified })
+    }
+
+    if (options?.persist ?? this.persistByDefault) this.addRecent(file.id, path, 'file')
+    return ok(this.createBufferedStream(path))
+  }
+
+  async saveFileAsStream(options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSWritableFile>> {
+    const target = this.pickSavePath(options)
+    if (!target.ok) return target
+
+    const path = target.data
+    const name = getFileName(path)
+    const file: OneFSFile = {
+      id: generateId(),
+      name,
+      path,
+      content: new Uint8Array(0),
+      mimeType: getMimeType(name),
+      size: 0,
+      lastModified: Date.now(),
+    }
+
+    if (options.persist ?? this.persistByDefault) this.addRecent(file.id, path, 'file')
+    return ok({ file, stream: this.createBufferedStream(path) })
+  }
+
+  private createBufferedStream(path: string): WritableStream<Uint8Array> {
+    const chunks: Uint8Array[] = []
+
+    return new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        chunks.push(chunk.slice())
+      },
+      close: () => {
+        const content = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0))
+        let offset = 0
+        for (const chunk of chunks) {
+          content.set(chunk, offset)
+          offset += chunk.byteLength
+        }
+        this.writeFile(path, content)
+      },
+      abort: () => {
+        chunks.length = 0
+      },
+    })
+  }
+
+  private pickSavePath(options: OneFSSaveOptions): OneFSResult<string> {
+    const picked = this.picks.shift()
+    if (picked === null) {
+      return err('cancelled', 'User cancelled save dialog')
+    }
+    if (picked?.length) {
+      return ok(picked[0])
+    }
+
+    const name = sanitizeFileName(options.suggestedName ?? 'untitled')
+    return name ? ok(toTreePath(name)) : err('io_error', 'Invalid file name')
+  }
+
+  async openDirectory(options: OneFSDirectoryOptions = {}): Promise<OneFSResult<OneFSDirectory>> {
+    const picked = this.picks.shift()
+    if (!picked?.length) {
+      return err('cancelled', 'User cancelled directory picker')
+    }
+
+    const path = picked[0]
+    if (!this.isDirectory(path)) {
+      return err('not_found', `Directory not found: ${path}`)
+    }
+
+    const directory = { id: generateId(), name: getFileName(path), path }
+    if (options.persist ?? this.persistByDefault) this.addRecent(directory.id, path, 'directory')
+    return ok(directory)
+  }
+
+  async readDirectory(directory: OneFSDirectory, options: OneFSReadDirectoryOptions = {}): Promise<OneFSResult<OneFSEntry[]>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot read directory without path')
+    }
+
+    const path = toTreePath(directory.path)
+    if (!this.isDirectory(path)) {
+      return err('not_found', 'Directory not found')
+    }
+
+    return ok(this.children(path).map((child) => this.toEntry(child, options.skipStats)))
+  }
+
+  async readFileFromDirectory(
+    directory: OneFSDirectory,
+    entry: OneFSEntry,
+    options?: { maxBytes?: number }
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!directory.path || !entry.path) {
+      return err('not_supported', 'Cannot read entry without path')
+    }
+    const path = toTreePath(entry.path)
+    if (!isPathWithin(path, toTreePath(directory.path))) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const node = this.nodes.get(path)
+    if (node?.kind !== 'file') {
+      return err('not_found', `File not found: ${entry.name}`)
+    }
+
+    const file = this.toFile(path, node, generateId())
+    if (options?.maxBytes !== undefined) {
+      file.content = file.content.slice(0, options.maxBytes)
+    }
+    return ok(file)
+  }
+
+  async getEntry(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot resolve path without directory path')
+    }
+
+    const resolved = resolveRelativePath(relativePath)
+    if (resolved === null) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+    if (!resolved) {
+      return err('io_error', 'Path must name an entry inside the directory')
+    }
+
+    const path = joinPath(toTreePath(directory.path), resolved)
+    if (!this.nodes.has(path)) {
+      return err('not_found', `"${resolved}" not found`)
+    }
+
+    return ok({ ...this.toEntry(path), relativePath: resolved, depth: resolved.split('/').length - 1 })
+  }
+
+  async writeFileToDirectory(
+    directory: OneFSDirectory,
+    name: string,
+    content: Uint8Array | string,
+    options: OneFSWriteOptions = {}
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot write to directory without path')
+    }
+
+    const sanitized = sanitizeFileName(name)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const dirPath = toTreePath(directory.path)
+    if (!this.isDirectory(dirPath)) {
+      return err('not_found', 'Directory not found')
+    }
+
+    const path = joinPath(dirPath, sanitized)
+    const existing = this.nodes.get(path)
+    if (existing && (!options.overwrite || existing.kind === 'directory')) {
+      return err('already_exists', `File "${sanitized}" already exists`)
+    }
+
+    this.writeFile(path, content)
+    const file = this.toFile(path, this.nodes.get(path)!, generateId())
+    if (options.persist ?? this.persistByDefault) this.addRecent(file.id, path, 'file')
+    return ok(file)
+  }
+
+  async createDirectory(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options: OneFSCreateDirectoryOptions = {}
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!parent.path) {
+      return err('not_supported', 'Cannot create directory without path')
+    }
+
+    const segments = splitRelativePath(relativePath)
+    if (!segments) {
+      return err('io_error', 'Invalid directory path')
+    }
+
+    const path = joinPath(toTreePath(parent.path), segments.join('/'))
+    const name = segments[segments.length - 1]
+
+    if (this.nodes.has(path)) {
+      if (!this.isDirectory(path) || !options.recursive) {
+        return err('already_exists', `"${name}" already exists`)
+      }
+      return ok({ id: generateId(), name, path })
+    }
+
+    if (!options.recursive && !this.isDirectory(getParentPath(path))) {
+      return err('not_found', 'Parent directory not found')
+    }
+    if (this.hasFileAncestor(path)) {
+      return err('already_exists', 'A file exists where a directory is expected')
+    }
+
+    this.mkdir(path)
+
+    return ok({ id: generateId(), name, path })
+  }
+
+  async deleteEntry(directory: OneFSDirectory, entry: OneFSEntry, options: OneFSDeleteOptions = {}): Promise<OneFSResult<boolean>> {
+    if (!directory.path || !entry.path) {
+      return err('not_supported', 'Cannot delete entry without path')
+    }
+
+    const path = toTreePath(entry.path)
+    const dirPath = toTreePath(directory.path)
+    if (!isPathWithin(path, dirPath) || path === dirPath) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    const node = this.nodes.get(path)
+    if (!node) {
+      return err('not_found', 'Entry not found')
+    }
+    if (node.kind === 'directory' && !options.recursive && this.children(path).length > 0) {
+      return err('io_error', 'Directory is not empty - pass recursive: true to delete it')
+    }
+
+    this.removeTree(path)
+    return ok(true)
+  }
+
+  async moveEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    const prepared = this.prepareTransfer(entry, targetDirectory, newName, options)
+    if (!prepared.ok) return prepared
+
+    const { sourcePath, targetPath, sameEntry } = prepared.data
+    if (!sameEntry) {
+      this.moveTree(sourcePath, targetPath)
+    }
+    return ok(this.toEntry(targetPath))
+  }
+
+  /**
+   * Copy an entry, recreating folders. onProgress reports files copied so far. The copy
+   * itself is synchronous, so `signal` is checked once - before an overwritten target is removed.
+   */
+  async copyEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    if (options.signal?.aborted) {
+      return err('cancelled', 'Copy was cancelled')
+    }
+
+    const prepared = this.prepareTransfer(entry, targetDirectory, newName, options)
+    if (!prepared.ok) return prepared
+
+    const { sourcePath, targetPath, sameEntry } = prepared.data
+    if (sameEntry) {
+      return err('already_exists', 'Cannot copy an entry onto itself')
+    }
+
+    const sources = this.descendants(sourcePath)
+    const files = sources.filter((path) => this.nodes.get(path)!.kind === 'file')
+    let copied = 0
+
+    for (const path of sources) {
+      const node = this.nodes.get(path)!
+      const destination = targetPath + path.slice(sourcePath.length)
+      if (node.kind === 'directory') {
+        this.mkdir(destination)
+      } else {
+        this.writeFile(destination, node.content, node.lastModified)
+        options.onProgress?.(++copied, files.length)
+      }
+    }
+
+    return ok(this.toEntry(targetPath))
+  }
+
+  private prepareTransfer(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName: string | undefined,
+    options: OneFSTransferOptions
+  ): OneFSResult<{ sourcePath: string; targetPath: string; sameEntry: boolean }> {
+    if (!entry.path || !targetDirectory.path) {
+      return err('not_supported', 'Cannot transfer entry without path')
+    }
+
+    const name = sanitizeFileName(newName ?? entry.name)
+    if (!name) {
+      return err('io_error', 'Invalid entry name')
+    }
+
+    const sourcePath = toTreePath(entry.path)
+    const targetDir = toTreePath(targetDirectory.path)
+    const targetPath = joinPath(targetDir, name)
+
+    if (!this.nodes.has(sourcePath)) {
+      return err('not_found', 'Entry not found')
+    }
+    if (!this.isDirectory(targetDir)) {
+      return err('not_found', 'Target directory not found')
+    }
+    if (entry.kind === 'directory' && isPathWithin(targetDir, sourcePath)) {
+      return err('io_error', 'Cannot move or copy a directory into itself')
+    }
+    if (targetPath === sourcePath) {
+      return ok({ sourcePath, targetPath, sameEntry: true })
+    }
+
+    if (this.nodes.has(targetPath)) {
+      if (!options.overwrite) {
+        return err('already_exists', `"${name}" already exists`)
+      }
+      this.removeTree(targetPath)
+    }
+
+    return ok({ sourcePath, targetPath, sameEntry: false })
+  }
+
+  async renameDirectory(target: OneFSDirectory | OneFSEntry, newName: string): Promise<OneFSResult<OneFSDirectory>> {
+    if (!target.path) {
+      return err('not_supported', 'Cannot rename directory without path')
+    }
+    if ('kind' in target && target.kind !== 'directory') {
+      return err('io_error', 'Entry is not a directory')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid directory name')
+    }
+
+    const oldPath = toTreePath(target.path)
+    if (!this.isDirectory(oldPath) || oldPath === '/') {
+      return err('not_found', 'Directory not found')
+    }
+
+    const newPath = joinPath(getParentPath(oldPath), sanitized)
+    if (this.nodes.has(newPath)) {
+      return err('already_exists', `"${sanitized}" already exists`)
+    }
+
+    this.moveTree(oldPath, newPath)
+    return ok({ id: 'id' in target ? target.id : generateId(), name: sanitized, path: newPath })
+  }
+
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    const content = this.readTarget(target)
+    return content.ok ? ok(bytesToStream(content.data)) : content
+  }
+
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    const content = this.readTarget(target)
+    return content.ok ? ok(content.data.slice(offset, offset + length)) : content
+  }
+
+  async scanDirectory(directory: OneFSDirectory, options: OneFSScanOptions = {}): Promise<OneFSResult<OneFSEntry[]>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot scan directory without path')
+    }
+    if (!this.isDirectory(toTreePath(directory.path))) {
+      return err('not_found', 'Directory not found')
+    }
+
+    const files: OneFSEntry[] = []
+    for await (const entry of this.walk(directory, options)) {
+      files.push(entry)
+    }
+
+    if (options.signal?.aborted) {
+      return err('cancelled', 'Scan was cancelled')
+    }
+    return ok(files)
+  }
+
+  async *walk(directory: OneFSDirectory, options: OneFSScanOptions = {}): AsyncGenerator<OneFSEntry> {
+    if (!directory.path) {
+      options.onError?.(directory.name, new Error('Cannot walk directory without path'))
+      return
+    }
+
+    const { onProgress, signal, skipStats, maxDepth, includeDirectories } = options
+    const pending = [{ path: toTreePath(directory.path), relativePath: '', depth: 0, filter: ScanFilter.create(options) }]
+    let scanned = 0
+    let found = 0
+
+    while (pending.length > 0) {
+      if (signal?.aborted) return
+
+      const { path: currentDir, relativePath: currentRelative, depth, filter: parentFilter } = pending.pop()!
+      const children = this.children(currentDir)
+      let filter = parentFilter
+
+      for (const child of children) {
+        const node = this.nodes.get(child)!
+        if (node.kind === 'file' && filter.ignoreFileNames.includes(getFileName(child))) {
+          filter = filter.withIgnoreFile(currentRelative, new TextDecoder().decode(node.content))
+        }
+      }
+
+      for (const child of children) {
+        const node = this.nodes.get(child)
+        if (!node) continue
+
+        const name = getFileName(child)
+        const relativePath = currentRelative ? `${currentRelative}/${name}` : name
+        scanned++
+
+        if (node.kind === 'directory') {
+          if (filter.skipDirectory(relativePath)) continue
+          if (maxDepth === undefined || depth < maxDepth) {
+            pending.push({ path: child, relativePath, depth: depth + 1, filter })
+          }
+          if (includeDirectories) {
+            found++
+            yield { name, kind: 'directory', path: child, relativePath, depth }
+          }
+        } else {
+          if (!filter.matchesPath(relativePath)) continue
+          if (!skipStats && !filter.matchesStats(node.content.byteLength, node.lastModified)) continue
+          found++
+          yield { ...this.toEntry(child, skipStats), relativePath, depth }
+        }
+      }
+
+      onProgress?.(scanned, found)
+    }
+  }
+
+  /**
+   * Changes made through this adapter (or writeFile()/mkdir()) are reported as they
+   * happen - there is no polling.
+   */
+  async watch(directory: OneFSDirectory, options: OneFSWatchOptions, callback: OneFSWatchCallback): Promise<OneFSResult<() => void>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot watch directory without path')
+    }
+
+    const root = toTreePath(directory.path)
+    if (!this.isDirectory(root)) {
+      return err('not_found', 'Directory not found')
+    }
+
+    const watcher: MemoryWatcher = { root, recursive: !!options.recursive, callback, onError: options.onError }
+    this.watchers.add(watcher)
+    return ok(() => {
+      this.watchers.delete(watcher)
+    })
+  }
+
+  async getRecentFiles(): Promise<StoredHandle[]> {
+    return this.recent.map((stored) => ({ ...stored }))
+  }
+
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const record = this.recent.find((item) => item.id === stored.id && item.type === 'file')
+    if (!record?.path) {
+      return err('not_found', 'File not found in storage')
+    }
+
+    const node = this.nodes.get(record.path)
+    if (node?.kind !== 'file') {
+      return err('not_found', 'File no longer exists at original location')
+    }
+
+    const file = this.toFile(record.path, node, record.id)
+    return ok(options.loadContent === false ? this.toLazyFile(file) : file)
+  }
+
+  async restoreDirectory(stored: StoredHandle): Promise<OneFSResult<OneFSDirectory>> {
+    const record = this.recent.find((item) => item.id === stored.id && item.type === 'directory')
+    if (!record?.path) {
+      return err('not_found', 'Directory not found in storage')
+    }
+    if (!this.isDirectory(record.path)) {
+      return err('not_found', 'Directory no longer exists at original location')
+    }
+    return ok({ id: record.id, name: record.name, path: record.path })
+  }
+
+  async deleteFile(file: OneFSFile, options: OneFSDeleteFileOptions = {}): Promise<OneFSResult<boolean>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot delete file without path')
+    }
+
+    const path = toTreePath(file.path)
+    const node = this.nodes.get(path)
+    if (node?.kind !== 'file') {
+      return err('not_found', 'File not found')
+    }
+
+    if (options.trash) {
+      const id = generateId()
+      this.trash.set(id, {
+        id,
+        fileId: file.id,
+        name: getFileName(path),
+        originalPath: path,
+        size: node.content.byteLength,
+        deletedAt: Date.now(),
+        mimeType: getMimeType(path),
+        content: node.content,
+      })
+    }
+
+    this.removeTree(path)
+    await this.removeFromRecent(file.id)
+    return ok(true)
+  }
+
+  async listTrash(): Promise<OneFSResult<OneFSTrashItem[]>> {
+    const items = [...this.trash.values()].sort((a, b) => b.deletedAt - a.deletedAt)
+    return ok(items.map(toTrashItem))
+  }
+
+  async restoreFromTrash(item: OneFSTrashItem): Promise<OneFSResult<OneFSFile>> {
+    const stored = this.trash.get(item.id)
+    if (!stored?.originalPath || !stored.content) {
+      return err('not_found', 'Item is not in the trash')
+    }
+    if (this.nodes.has(stored.originalPath)) {
+      return err('already_exists', `"${stored.name}" already exists at its original location`)
+    }
+
+    this.writeFile(stored.originalPath, stored.content)
+    this.trash.delete(stored.id)
+
+    const file = this.toFile(stored.originalPath, this.nodes.get(stored.originalPath)!, stored.fileId)
+    if (this.persistByDefault) this.addRecent(file.id, stored.originalPath, 'file')
+    return ok(file)
+  }
+
+  async emptyTrash(options: OneFSEmptyTrashOptions = {}): Promise<OneFSResult<number>> {
+    const expired = selectExpiredTrash([...this.trash.values()], options)
+    for (const item of expired) {
+      this.trash.delete(item.id)
+    }
+    return ok(expired.length)
+  }
+
+  async renameFile(file: OneFSFile, newName: string): Promise<OneFSResult<OneFSFile>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot rename file without path')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const oldPath = toTreePath(file.path)
+    if (this.nodes.get(oldPath)?.kind !== 'file') {
+      return err('not_found', 'File not found')
+    }
+
+    const newPath = joinPath(getParentPath(oldPath), sanitized)
+    if (newPath !== oldPath && this.nodes.has(newPath)) {
+      return err('already_exists', `"${sanitized}" already exists`)
+    }
+
+    this.moveTree(oldPath, newPath)
+    return ok({ ...file, name: sanitized, path: newPath, mimeType: getMimeType(sanitized) })
+  }
+
+  async removeFromRecent(id: string): Promise<void> {
+    this.recent = this.recent.filter((stored) => stored.id !== id)
+  }
+
+  async clearRecent(): Promise<void> {
+    this.recent = []
+  }
+
+  dispose(): void {
+    this.watchers.clear()
+  }
+
+  private isDirectory(path: string): boolean {
+    return this.nodes.get(path)?.kind === 'directory'
+  }
+
+  private hasFileAncestor(path: string): boolean {
+    for (let parent = getParentPath(path); parent !== '/'; parent = getParentPath(parent)) {
+      const node = this.nodes.get(parent)
+      if (node) return node.kind === 'file'
+    }
+    return false
+  }
+
+  /** Direct children of a directory, sorted by name */
+  private children(dir: string): string[] {
+    return [...this.nodes.keys()].filter((path) => path !== '/' && getParentPath(path) === dir).sort()
+  }
+
+  /** `path` and everything below it, parents before children */
+  private descendants(path: string): string[] {
+    return [...this.nodes.keys()].filter((p) => isPathWithin(p, path)).sort()
+  }
+
+  private removeTree(path: string): void {
+    const kind = this.nodes.get(path)?.kind
+    for (const p of this.descendants(path)) {
+      this.nodes.delete(p)
+    }
+    this.notify('deleted', path, undefined, kind)
+  }
+
+  /** Move `from` and everything below it, and point recent entries at the new location */
+  private moveTree(from: string, to: string): void {
+    const moved = this.descendants(from).map((path) => [path, this.nodes.get(path)!] as const)
+    for (const [path] of moved) {
+      this.nodes.delete(path)
+    }
+    for (const [path, node] of moved) {
+      this.nodes.set(to + path.slice(from.length), node)
+    }
+
+    for (const stored of this.recent) {
+      if (stored.path && isPathWithin(stored.path, from)) {
+        const rest = stored.path.slice(from.length)
+        stored.path = to + rest
+        if (!rest) stored.name = getFileName(to)
+      }
+    }
+
+    this.notify('renamed', to, from)
+  }
+
+  private notify(type: OneFSWatchEventType, path: string, oldPath?: string, deletedKind?: 'file' | 'directory'): void {
+    for (const watcher of this.watchers) {
+      const inScope = (p: string) =>
+        p !== watcher.root &&
+        isPathWithin(p, watcher.root) &&
+        (watcher.recursive || getParentPath(p) === watcher.root)
+      const toEntry = (p: string, kind?: 'file' | 'directory'): OneFSEntry => {
+        const relativePath = p.slice(watcher.root === '/' ? 1 : watcher.root.length + 1)
+        const entry = this.nodes.has(p) ? this.toEntry(p) : { name: getFileName(p), kind: kind ?? 'file', path: p }
+        return { ...entry, relativePath, depth: relativePath.split('/').length - 1 }
+      }
+
+      try {
+        if (type === 'renamed' && oldPath) {
+          const kind = this.nodes.get(path)?.kind
+          if (inScope(path) && inScope(oldPath)) {
+            watcher.callback({ type, entry: toEntry(path), oldEntry: toEntry(oldPath, kind) })
+          } else if (inScope(path)) {
+            watcher.callback({ type: 'created', entry: toEntry(path) })
+          } else if (inScope(oldPath)) {
+            watcher.callback({ type: 'deleted', entry: toEntry(oldPath, kind) })
+          }
+        } else if (inScope(path)) {
+          watcher.callback({ type, entry: toEntry(path, deletedKind) })
+        }
+      } catch (e) {
+        watcher.onError?.(e)
+      }
+    }
+  }
+
+  private toEntry(path: string, skipStats?: boolean): OneFSEntry {
+    const node = this.nodes.get(path)!
+    const name = path === '/' ? '/' : getFileName(path)
+    if (node.kind === 'directory') {
+      return { name, kind: 'directory', path }
+    }
+    if (skipStats) {
+      return { name, kind: 'file', path }
+    }
+    return { name, kind: 'file', size: node.content.byteLength, lastModified: node.lastModified, path }
+  }
+
+  private toFile(path: string, node: MemoryNode, id: string): OneFSFile {
+    const name = getFileName(path)
+    return {
+      id,
+      name,
+      path,
+      content: node.content.slice(),
+      mimeType: getMimeType(name),
+      size: node.content.byteLength,
+      lastModified: node.lastModified,
+    }
+  }
+
+  private toLazyFile(file: OneFSFile): OneFSLazyFile {
+    return withLazyContent({ ...file, content: new Uint8Array(0) }, {
+      read: async (target) => this.readTarget(target),
+      stream: (target) => this.openReadStream(target),
+    })
+  }
+
+  private readTarget(target: OneFSFile | OneFSEntry): OneFSResult<Uint8Array> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('io_error', 'Cannot read a directory')
+    }
+    if (!target.path) {
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    const node = this.nodes.get(toTreePath(target.path))
+    if (node?.kind !== 'file') {
+      return err('not_found', 'File not found')
+    }
+    return ok(node.content.slice())
+  }
+
+  private addRecent(id: string, path: string, type: 'file' | 'directory'): void {
+    this.recent = [
+      { id, name: getFileName(path), path, type, storedAt: Date.now() },
+      ...this.recent.filter((stored) => stored.id !== id),
+    ].slice(0, this.maxRecentFiles)
+  }
+}
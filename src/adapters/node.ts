@@ -0,0 +1,871 @@
+import type {
+  OneFSAdapter,
+  OneFSFile,
+  OneFSLazyFile,
+  OneFSOpenOptions,
+  OneFSRestoreOptions,
+  OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSDirectory,
+  OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSDeleteFileOptions,
+  OneFSReadDirectoryOptions,
+  OneFSScanOptions,
+  OneFSEntry,
+  OneFSNodeOptions,
+  OneFSPromptRequest,
+  StoredHandle,
+  OneFSResult,
+} from '../types'
+import { ok, err, PLATFORM_CAPABILITIES } from '../types'
+import { ScanFilter } from '../scan-filter'
+import {
+  generateId,
+  getMimeType,
+  getAtomicTempPath,
+  isAtomicTempName,
+  conflict,
+  resolveRelativePath,
+  sanitizeFileName,
+  isPathWithin,
+  normalizePath,
+  withLazyContent,
+  splitRelativePath,
+} from '../utils'
+
+type NodeFS = typeof import('node:fs/promises')
+type NodePath = typeof import('node:path')
+type NodeOS = typeof import('node:os')
+type NodeDirent = import('node:fs').Dirent
+
+const RECENT_FILE_NAME = 'recent.json'
+const STREAM_CHUNK_SIZE = 256 * 1024
+
+/**
+ * Map a Node errno error to a result. ENOENT uses `notFound` as its message.
+ */
+export function nodeError<T>(e: unknown, fallback: string, notFound = 'File not found'): OneFSResult<T> {
+  const error = e as NodeJS.ErrnoException
+  switch (error.code) {
+    case 'ENOENT':
+      return err('not_found', notFound, e)
+    case 'EACCES':
+    case 'EPERM':
+      return err('permission_denied', error.message || 'Permission denied', e)
+    case 'EEXIST':
+      return err('already_exists', error.message || 'Entry already exists', e)
+    case 'ENOTEMPTY':
+      return err('io_error', 'Directory is not empty - pass recursive: true to delete it', e)
+  }
+  return err('io_error', error.message || fallback, e)
+}
+
+/**
+ * Write via temp file + rename. The temp file gets the target's mode bits; ownership is not
+ * carried over. Symlinks are written in place so the link survives.
+ */
+export async function writeNodeFile(fs: NodeFS, filePath: string, data: Uint8Array, atomic: boolean): Promise<void> {
+  const link = await fs.lstat(filePath).catch(() => null)
+  if (!atomic || link?.isSymbolicLink()) {
+    await fs.writeFile(filePath, data)
+    return
+  }
+
+  const tempPath = getAtomicTempPath(filePath)
+  try {
+    await fs.writeFile(tempPath, data)
+    if (link) await fs.chmod(tempPath, link.mode & 0o7777)
+    await fs.rename(tempPath, filePath)
+  } catch (e) {
+    await fs.rm(tempPath, { force: true }).catch(() => {})
+    throw e
+  }
+}
+
+/** Read up to `length` bytes at `offset` through a file handle */
+export async function readNodeRange(fs: NodeFS, filePath: string, offset: number, length: number): Promise<Uint8Array> {
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const buffer = new Uint8Array(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, offset)
+    return buffer.slice(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+/** Per-user app data directory: %APPDATA% on Windows, Application Support on macOS, XDG data dir elsewhere */
+function getDefaultDataDir(os: NodeOS, path: NodePath, appName: string): string {
+  const home = os.homedir()
+  if (process.platform === 'win32') {
+    return path.join(process.env.APPDATA ?? path.join(home, 'AppData', 'Roaming'), appName)
+  }
+  if (process.platform === 'darwin') {
+    return path.join(home, 'Library', 'Application Support', appName)
+  }
+  return path.join(process.env.XDG_DATA_HOME ?? path.join(home, '.local', 'share'), appName)
+}
+
+/**
+ * Node.js adapter over node:fs/promises with real paths - for CLIs, servers and
+ * Electron's main process.
+ *
+ * There are no dialogs: picker calls use the `path` option when given, otherwise
+ * they ask the `prompt` callback, and are cancelled when neither is set.
+ * Recent files are kept in `recent.json` in the app data directory.
+ *
+ * @example
+ * ```typescript
+ * const fs = createOneFS({
+ *   appName: 'mycli',
+ *   node: { prompt: async ({ type }) => rl.question(`${type} path: `) },
+ * })
+ * const doc = await fs.openFile({ path: './notes.md' })
+ * ```
+ */
+export class NodeAdapter implements OneFSAdapter {
+  platform = 'node' as const
+  capabilities = { ...PLATFORM_CAPABILITIES.node }
+  private appName: string
+  private maxRecentFiles: number
+  private persistByDefault: boolean
+  private options: OneFSNodeOptions
+  private modules: { fs: NodeFS; path: NodePath; os: NodeOS } | null = null
+  private recent: StoredHandle[] | null = null
+  private recentWrite: Promise<void> = Promise.resolve()
+  private recentUpdate: Promise<void> = Promise.resolve()
+
+  constructor(appName: string, maxRecentFiles = 10, persistByDefault = true, options: OneFSNodeOptions = {}) {
+    if (!appName || !/^[\w.\-]+$/.test(appName)) {
+      throw new Error(`Invalid appName: must be non-empty and contain only alphanumeric, hyphens, underscores, or dots`)
+    }
+    this.appName = appName
+    this.maxRecentFiles = maxRecentFiles
+    this.persistByDefault = persistByDefault
+    this.options = options
+  }
+
+  /** Node.js without a DOM - Electron renderers and browsers use the web adapters */
+  isSupported(): boolean {
+    return typeof process !== 'undefined' && !!process.versions?.node && typeof document === 'undefined'
+  }
+
+  private async loadModules(): Promise<{ fs: NodeFS; path: NodePath; os: NodeOS }> {
+    if (!this.modules) {
+      const [fs, path, os] = await Promise.all([import('node:fs/promises'), import('node:path'), import('node:os')])
+      this.modules = { fs, path, os }
+    }
+    return this.modules
+  }
+
+  /**
+   * Resolve picker paths: explicit `path` options first, then the prompt callback.
+   * Returns null when the user cancelled or there is nothing to ask.
+   */
+  private async pick(request: OneFSPromptRequest, explicit?: string | string[]): Promise<string[] | null> {
+    const { path } = await this.loadModules()
+    const answer = explicit ?? (this.options.prompt ? await this.options.prompt(request) : null)
+    const paths = (Array.isArray(answer) ? answer : answer ? [answer] : []).filter(Boolean)
+    return paths.length > 0 ? paths.map((p) => path.resolve(p)) : null
+  }
+
+  async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+    const picked = await this.pick({ type: 'openFile', multiple: options.multiple, accept: options.accept }, options.path)
+    if (!picked) {
+      return err('cancelled', 'User cancelled file picker')
+    }
+
+    try {
+      const paths = options.multiple ? picked : picked.slice(0, 1)
+      const files = await Promise.all(
+        paths.map(async (filePath) => {
+          const file = await this.readPath(filePath, generateId(), options.loadContent !== false)
+          if (shouldPersist) this.addRecentDeferred(file.id, filePath, 'file')
+          return options.loadContent === false ? this.toLazyFile(file) : file
+        })
+      )
+
+      return ok(options.multiple ? files : files[0])
+    } catch (e) {
+      return nodeError(e, 'Failed to open file')
+    }
+  }
+
+  /**
+   * Write to the file's path - through a sibling temp file and rename unless
+   * `atomic: false`. With `ifUnmodifiedSince`, the save is refused if the file's
+   * mtime is newer; on success `file.size` and `file.lastModified` are updated.
+   */
+  async saveFile(file: OneFSFile, content: Uint8Array | string, options?: OneFSSaveOptions): Promise<OneFSResult<boolean>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot save file without path')
+    }
+
+    const shouldPersist = options?.persist ?? this.persistByDefault
+    const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+
+    try {
+      const { fs } = await this.loadModules()
+
+      if (options?.ifUnmodifiedSince !== undefined) {
+        const stat = await fs.stat(file.path).catch(() => null)
+        if (stat && stat.mtimeMs > options.ifUnmodifiedSince) {
+          return conflict({ size: stat.size, lastModified: stat.mtimeMs })
+        }
+      }
+
+      await writeNodeFile(fs, file.path, contentArray, options?.atomic ?? true)
+      const stat = await fs.stat(file.path)
+      file.size = stat.size
+      file.lastModified = stat.mtimeMs
+
+      if (shouldPersist) this.addRecentDeferred(file.id, file.path, 'file')
+      return ok(true)
+    } catch (e) {
+      return nodeError(e, 'Failed to save file', 'Parent directory not found')
+    }
+  }
+
+  async saveFileAs(content: Uint8Array | string, options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+    const picked = await this.pick(
+      { type: 'saveFile', accept: options.accept, suggestedName: options.suggestedName },
+      options.path
+    )
+    if (!picked) {
+      return err('cancelled', 'User cancelled save dialog')
+    }
+
+    const filePath = picked[0]
+    const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+
+    try {
+      const { fs, path } = await this.loadModules()
+      await writeNodeFile(fs, filePath, contentArray, options.atomic ?? true)
+      const stat = await fs.stat(filePath)
+      const name = path.basename(filePath)
+
+      const file: OneFSFile = {
+        id: generateId(),
+        name,
+        path: filePath,
+        content: contentArray,
+        mimeType: getMimeType(name),
+        size: contentArray.byteLength,
+        lastModified: stat.mtimeMs,
+      }
+
+      if (shouldPersist) this.addRecentDeferred(file.id, filePath, 'file')
+      return ok(file)
+    } catch (e) {
+      return nodeError(e, 'Failed to save file', 'Parent directory not found')
+    }
+  }
+
+  async openDirectory(options: OneFSDirectoryOptions = {}): Promise<OneFSResult<OneFSDirectory>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+    const picked = await this.pick({ type: 'openDirectory' }, options.path)
+    if (!picked) {
+      return err('cancelled', 'User cancelled directory picker')
+    }
+
+    const dirPath = picked[0]
+    try {
+      const { fs, path } = await this.loadModules()
+      const stat = await fs.stat(dirPath)
+      if (!stat.isDirectory()) {
+        return err('not_found', 'Path is not a directory')
+      }
+
+      const directory: OneFSDirectory = { id: generateId(), name: path.basename(dirPath), path: dirPath }
+      if (shouldPersist) this.addRecentDeferred(directory.id, dirPath, 'directory')
+      return ok(directory)
+    } catch (e) {
+      return nodeError(e, 'Failed to open directory', 'Directory not found')
+    }
+  }
+
+  async readDirectory(directory: OneFSDirectory, options: OneFSReadDirectoryOptions = {}): Promise<OneFSResult<OneFSEntry[]>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot read directory without path')
+    }
+
+    try {
+      const { fs, path } = await this.loadModules()
+      const dirents = await fs.readdir(directory.path, { withFileTypes: true })
+      const entries: OneFSEntry[] = []
+
+      for (const dirent of dirents) {
+        if (isAtomicTempName(dirent.name)) continue
+
+        const entryPath = path.join(directory.path, dirent.name)
+        if (dirent.isDirectory()) {
+          entries.push({ name: dirent.name, kind: 'directory', path: entryPath })
+        } else if (dirent.isFile()) {
+          entries.push(options.skipStats
+            ? { name: dirent.name, kind: 'file', path: entryPath }
+            : await this.statEntry(entryPath, options.onError))
+        }
+      }
+
+      return ok(entries)
+    } catch (e) {
+      return nodeError(e, 'Failed to read directory', 'Directory not found')
+    }
+  }
+
+  async readFileFromDirectory(
+    directory: OneFSDirectory,
+    entry: OneFSEntry,
+    options?: { maxBytes?: number }
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!directory.path || !entry.path) {
+      return err('not_supported', 'Cannot read entry without path')
+    }
+    if (!isPathWithin(entry.path, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    try {
+      if (options?.maxBytes === undefined) {
+        return ok(await this.readPath(entry.path, generateId(), true))
+      }
+
+      const file = await this.readPath(entry.path, generateId(), false)
+      const range = await this.readRange(file, 0, options.maxBytes)
+      return range.ok ? ok({ ...file, content: range.data }) : range
+    } catch (e) {
+      return nodeError(e, 'Failed to read file')
+    }
+  }
+
+  async getEntry(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot resolve path without directory path')
+    }
+
+    const resolved = resolveRelativePath(relativePath)
+    if (resolved === null) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+    if (!resolved) {
+      return err('io_error', 'Path must name an entry inside the directory')
+    }
+
+    try {
+      const { fs, path } = await this.loadModules()
+      const entryPath = path.join(directory.path, ...resolved.split('/'))
+      if (!isPathWithin(entryPath, directory.path)) {
+        return err('permission_denied', 'Path is outside the expected directory')
+      }
+
+      const stat = await fs.stat(entryPath)
+      const depth = resolved.split('/').length - 1
+      if (stat.isDirectory()) {
+        return ok({ name: path.basename(entryPath), kind: 'directory', path: entryPath, relativePath: resolved, depth })
+      }
+      return ok({ ...(await this.statEntry(entryPath)), relativePath: resolved, depth })
+    } catch (e) {
+      return nodeError(e, 'Failed to resolve path', `"${resolved}" not found`)
+    }
+  }
+
+  async writeFileToDirectory(
+    directory: OneFSDirectory,
+    name: string,
+    content: Uint8Array | string,
+    options: OneFSWriteOptions = {}
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot write to directory without path')
+    }
+
+    const sanitized = sanitizeFileName(name)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const shouldPersist = options.persist ?? this.persistByDefault
+    const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+
+    try {
+      const { fs, path } = await this.loadModules()
+      const filePath = path.join(directory.path, sanitized)
+
+      // 'wx' fails with EEXIST instead of replacing the file
+      await fs.writeFile(filePath, contentArray, { flag: options.overwrite ? 'w' : 'wx' })
+      const stat = await fs.stat(filePath)
+
+      const file: OneFSFile = {
+        id: generateId(),
+        name: sanitized,
+        path: filePath,
+        content: contentArray,
+        mimeType: getMimeType(sanitized),
+        size: contentArray.byteLength,
+        lastModified: stat.mtimeMs,
+      }
+
+      if (shouldPersist) this.addRecentDeferred(file.id, filePath, 'file')
+      return ok(file)
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'EEXIST') {
+        return err('already_exists', `File "${sanitized}" already exists`, e)
+      }
+      return nodeError(e, 'Failed to write file', 'Directory not found')
+    }
+  }
+
+  async createDirectory(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options: OneFSCreateDirectoryOptions = {}
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!parent.path) {
+      return err('not_supported', 'Cannot create directory without path')
+    }
+
+    const segments = splitRelativePath(relativePath)
+    if (!segments) {
+      return err('io_error', 'Invalid directory path')
+    }
+
+    const name = segments[segments.length - 1]
+
+    try {
+      const { fs, path } = await this.loadModules()
+      const dirPath = path.join(parent.path, ...segments)
+
+      const existing = await fs.stat(dirPath).catch(() => null)
+      if (existing) {
+        if (!existing.isDirectory() || !options.recursive) {
+          return err('already_exists', `"${name}" already exists`)
+        }
+      } else {
+        await fs.mkdir(dirPath, { recursive: !!options.recursive })
+      }
+
+      return ok({ id: generateId(), name, path: dirPath })
+    } catch (e) {
+      return nodeError(e, 'Failed to create directory', 'Parent directory not found')
+    }
+  }
+
+  async deleteEntry(directory: OneFSDirectory, entry: OneFSEntry, options: OneFSDeleteOptions = {}): Promise<OneFSResult<boolean>> {
+    if (!directory.path || !entry.path) {
+      return err('not_supported', 'Cannot delete entry without path')
+    }
+
+    if (!isPathWithin(entry.path, directory.path) || normalizePath(entry.path) === normalizePath(directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      if (entry.kind === 'directory' && !options.recursive) {
+        await fs.rmdir(entry.path)
+      } else {
+        await fs.rm(entry.path, { recursive: entry.kind === 'directory' })
+      }
+      return ok(true)
+    } catch (e) {
+      return nodeError(e, 'Failed to delete entry', 'Entry not found')
+    }
+  }
+
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('io_error', 'Cannot read a directory')
+    }
+    if (!target.path) {
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      return ok(await readNodeRange(fs, target.path, offset, length))
+    } catch (e) {
+      return nodeError(e, 'Failed to read file range')
+    }
+  }
+
+  /**
+   * Stream a file in 256 KB chunks from a file handle.
+   */
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('io_error', 'Cannot read a directory')
+    }
+    if (!target.path) {
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      const handle = await fs.open(target.path, 'r')
+
+      return ok(new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const buffer = new Uint8Array(STREAM_CHUNK_SIZE)
+            const { bytesRead } = await handle.read(buffer, 0, STREAM_CHUNK_SIZE, null)
+            if (bytesRead === 0) {
+              await handle.close()
+              controller.close()
+              return
+            }
+            controller.enqueue(buffer.subarray(0, bytesRead))
+          } catch (e) {
+            await handle.close().catch(() => {})
+            controller.error(e)
+          }
+        },
+        async cancel() {
+          await handle.close()
+        },
+      }))
+    } catch (e) {
+      return nodeError(e, 'Failed to open file')
+    }
+  }
+
+  async scanDirectory(directory: OneFSDirectory, options: OneFSScanOptions = {}): Promise<OneFSResult<OneFSEntry[]>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot scan directory without path')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      await fs.access(directory.path)
+
+      const files: OneFSEntry[] = []
+      for await (const entry of this.walk(directory, options)) {
+        files.push(entry)
+      }
+
+      if (options.signal?.aborted) {
+        return err('cancelled', 'Scan was cancelled')
+      }
+      return ok(files)
+    } catch (e) {
+      return nodeError(e, 'Failed to scan directory', 'Directory not found')
+    }
+  }
+
+  /**
+   * Depth-first walk with the shared scan filters. Unreadable directories are
+   * reported through onError and skipped.
+   */
+  async *walk(directory: OneFSDirectory, options: OneFSScanOptions = {}): AsyncGenerator<OneFSEntry> {
+    if (!directory.path) {
+      options.onError?.(directory.name, new Error('Cannot walk directory without path'))
+      return
+    }
+
+    const { fs, path } = await this.loadModules()
+    const { onProgress, onError, signal, skipStats, maxDepth, includeDirectories } = options
+    const pending = [{ path: directory.path, relativePath: '', depth: 0, filter: ScanFilter.create(options) }]
+    let scanned = 0
+    let found = 0
+
+    while (pending.length > 0) {
+      if (signal?.aborted) return
+
+      const { path: currentDir, relativePath: currentRelative, depth, filter: parentFilter } = pending.pop()!
+      let filter = parentFilter
+      let dirents: NodeDirent[]
+
+      try {
+        dirents = await fs.readdir(currentDir, { withFileTypes: true })
+      } catch (dirError) {
+        onError?.(currentDir, dirError)
+        continue
+      }
+
+      for (const dirent of dirents) {
+        if (!dirent.isFile() || !filter.ignoreFileNames.includes(dirent.name)) continue
+        const ignorePath = path.join(currentDir, dirent.name)
+        try {
+          filter = filter.withIgnoreFile(currentRelative, await fs.readFile(ignorePath, 'utf8'))
+        } catch (readError) {
+          onError?.(ignorePath, readError)
+        }
+      }
+
+      for (const dirent of dirents) {
+        if (signal?.aborted) return
+        if (isAtomicTempName(dirent.name)) continue
+
+        const entryPath = path.join(currentDir, dirent.name)
+        const relativePath = currentRelative ? `${currentRelative}/${dirent.name}` : dirent.name
+        scanned++
+
+        if (dirent.isDirectory()) {
+          if (filter.skipDirectory(relativePath)) continue
+          if (maxDepth === undefined || depth < maxDepth) {
+            pending.push({ path: entryPath, relativePath, depth: depth + 1, filter })
+          }
+          if (includeDirectories) {
+            found++
+            yield { name: dirent.name, kind: 'directory', path: entryPath, relativePath, depth }
+          }
+        } else if (dirent.isFile()) {
+          if (!filter.matchesPath(relativePath)) continue
+
+          const entry = skipStats
+            ? { name: dirent.name, kind: 'file' as const, path: entryPath }
+            : await this.statEntry(entryPath, onError)
+          if (!filter.matchesStats(entry.size, entry.lastModified)) continue
+          found++
+          yield { ...entry, relativePath, depth }
+        }
+      }
+
+      onProgress?.(scanned, found)
+    }
+  }
+
+  /** A file entry with size and mtime - stat failures go to onError and leave them unset */
+  private async statEntry(entryPath: string, onError?: (path: string, error: unknown) => void): Promise<OneFSEntry> {
+    const { fs, path } = await this.loadModules()
+    const name = path.basename(entryPath)
+    try {
+      const stat = await fs.stat(entryPath)
+      return { name, kind: 'file', size: stat.size, lastModified: stat.mtimeMs, path: entryPath }
+    } catch (e) {
+      if (!onError) throw e
+      onError(entryPath, e)
+      return { name, kind: 'file', path: entryPath }
+    }
+  }
+
+  private async readPath(filePath: string, id: string, loadContent: boolean): Promise<OneFSFile> {
+    const { fs, path } = await this.loadModules()
+    const stat = await fs.stat(filePath)
+    const name = path.basename(filePath)
+    const content = loadContent ? new Uint8Array(await fs.readFile(filePath)) : new Uint8Array(0)
+
+    return {
+      id,
+      name,
+      path: filePath,
+      content,
+      mimeType: getMimeType(name),
+      size: loadContent ? content.byteLength : stat.size,
+      lastModified: stat.mtimeMs,
+    }
+  }
+
+  private toLazyFile(file: OneFSFile): OneFSLazyFile {
+    return withLazyContent(file, {
+      read: async (target) => {
+        try {
+          const { fs } = await this.loadModules()
+          return ok(new Uint8Array(await fs.readFile(target.path!)))
+        } catch (e) {
+          return nodeError(e, 'Failed to read file')
+        }
+      },
+      stream: (target) => this.openReadStream(target),
+    })
+  }
+
+  async getRecentFiles(): Promise<StoredHandle[]> {
+    return (await this.readRecent()).map((stored) => ({ ...stored }))
+  }
+
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const record = (await this.readRecent()).find((item) => item.id === stored.id && item.type === 'file')
+    if (!record?.path) {
+      return err('not_found', 'File not found in storage')
+    }
+
+    try {
+      const loadContent = options.loadContent !== false
+      const file = await this.readPath(record.path, record.id, loadContent)
+      return ok(loadContent ? file : this.toLazyFile(file))
+    } catch (e) {
+      return nodeError(e, 'Failed to restore file', 'File no longer exists at original location')
+    }
+  }
+
+  async restoreDirectory(stored: StoredHandle): Promise<OneFSResult<OneFSDirectory>> {
+    const record = (await this.readRecent()).find((item) => item.id === stored.id && item.type === 'directory')
+    if (!record?.path) {
+      return err('not_found', 'Directory not found in storage')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      const stat = await fs.stat(record.path)
+      if (!stat.isDirectory()) {
+        return err('not_found', 'Path is not a directory')
+      }
+      return ok({ id: record.id, name: record.name, path: record.path })
+    } catch (e) {
+      return nodeError(e, 'Failed to restore directory', 'Directory no longer exists at original location')
+    }
+  }
+
+  async deleteFile(file: OneFSFile, options: OneFSDeleteFileOptions = {}): Promise<OneFSResult<boolean>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot delete file without path')
+    }
+    if (options.trash) {
+      return err('not_supported', 'Trash is not supported on node')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      await fs.unlink(file.path)
+      await this.removeFromRecent(file.id)
+      return ok(true)
+    } catch (e) {
+      return nodeError(e, 'Failed to delete file')
+    }
+  }
+
+  async renameFile(file: OneFSFile, newName: string): Promise<OneFSResult<OneFSFile>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot rename file without path')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    try {
+      const { path } = await this.loadModules()
+      const newPath = path.join(path.dirname(file.path), sanitized)
+      const renamed = await this.renamePath(file.path, newPath)
+      if (!renamed.ok) return renamed
+
+      return ok({ ...file, name: sanitized, path: newPath, mimeType: getMimeType(sanitized) })
+    } catch (e) {
+      return nodeError(e, 'Failed to rename file')
+    }
+  }
+
+  async renameDirectory(target: OneFSDirectory | OneFSEntry, newName: string): Promise<OneFSResult<OneFSDirectory>> {
+    if (!target.path) {
+      return err('not_supported', 'Cannot rename directory without path')
+    }
+    if ('kind' in target && target.kind !== 'directory') {
+      return err('io_error', 'Entry is not a directory')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid directory name')
+    }
+
+    try {
+      const { path } = await this.loadModules()
+      const newPath = path.join(path.dirname(target.path), sanitized)
+      const renamed = await this.renamePath(target.path, newPath)
+      if (!renamed.ok) return renamed
+
+      return ok({ id: 'id' in target ? target.id : generateId(), name: sanitized, path: newPath })
+    } catch (e) {
+      return nodeError(e, 'Failed to rename directory', 'Directory not found')
+    }
+  }
+
+  /** rename() that refuses to replace an existing entry, then repoints recent records under the old path */
+  private async renamePath(oldPath: string, newPath: string): Promise<OneFSResult<true>> {
+    const { fs, path } = await this.loadModules()
+    if (normalizePath(oldPath) !== normalizePath(newPath) && await fs.stat(newPath).catch(() => null)) {
+      return err('already_exists', `"${path.basename(newPath)}" already exists`)
+    }
+
+    await fs.rename(oldPath, newPath)
+
+    const recent = await this.readRecent()
+    const oldNormal = normalizePath(oldPath)
+    let changed = false
+    for (const stored of recent) {
+      if (stored.path && isPathWithin(stored.path, oldPath)) {
+        const rest = normalizePath(stored.path).slice(oldNormal.length)
+        stored.path = rest ? path.join(newPath, ...rest.split('/')) : newPath
+        if (!rest) stored.name = path.basename(newPath)
+        changed = true
+      }
+    }
+    // The rename already happened - a failed recent.json write must not report it as failed
+    if (changed) await this.saveRecent(recent).catch(() => {})
+
+    return ok(true)
+  }
+
+  async removeFromRecent(id: string): Promise<void> {
+    const recent = await this.readRecent()
+    await this.saveRecent(recent.filter((stored) => stored.id !== id))
+  }
+
+  async clearRecent(): Promise<void> {
+    await this.recentUpdate
+    await this.saveRecent([])
+  }
+
+  private async getRecentPath(): Promise<string> {
+    const { path, os } = await this.loadModules()
+    const dataDir = this.options.dataDir ?? getDefaultDataDir(os, path, this.appName)
+    return path.join(dataDir, RECENT_FILE_NAME)
+  }
+
+  /** Recent records from recent.json - a missing or unreadable file is an empty list */
+  private async loadRecent(): Promise<StoredHandle[]> {
+    if (this.recent) return this.recent
+
+    const { fs } = await this.loadModules()
+    try {
+      const parsed = JSON.parse(await fs.readFile(await this.getRecentPath(), 'utf8'))
+      this.recent = Array.isArray(parsed) ? parsed : []
+    } catch {
+      this.recent = []
+    }
+    return this.recent!
+  }
+
+  /** Recent records, once additions still being written are in */
+  private async readRecent(): Promise<StoredHandle[]> {
+    await this.recentUpdate
+    return this.loadRecent()
+  }
+
+  /**
+   * Add a recent item in the background, like storeFileDeferred() on IndexedDB,
+   * so a failed recent.json write never fails the open or save it follows.
+   */
+  private addRecentDeferred(id: string, entryPath: string, type: 'file' | 'directory'): void {
+    this.recentUpdate = this.recentUpdate.then(() => this.addRecent(id, entryPath, type)).catch(() => {})
+  }
+
+  private async addRecent(id: string, entryPath: string, type: 'file' | 'directory'): Promise<void> {
+    const { path } = await this.loadModules()
+    await this.loadRecent()
+    // Read this.recent after the await so concurrent updates build on each other
+    await this.saveRecent([
+      { id, name: path.basename(entryPath), path: entryPath, type, storedAt: Date.now() },
+      ...this.recent!.filter((stored) => stored.id !== id),
+    ])
+  }
+
+  /** Replace recent.json atomically. Writes are queued so concurrent updates land in order. */
+  private saveRecent(recent: StoredHandle[]): Promise<void> {
+    this.recent = recent.slice(0, this.maxRecentFiles)
+    const snapshot = JSON.stringify(this.recent, null, 2)
+
+    this.recentWrite = this.recentWrite.catch(() => {}).then(async () => {
+      const { fs, path } = await this.loadModules()
+      const recentPath = await this.getRecentPath()
+      await fs.mkdir(path.dirname(recentPath), { recursive: true })
+      await writeNodeFile(fs, recentPath, new TextEncoder().encode(snapshot), true)
+    })
+    return this.recentWrite
+  }
+}
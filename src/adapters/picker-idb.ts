@@ -1,15 +1,19 @@
 import type {
   OneFSAdapter,
   OneFSFile,
+  OneFSLazyFile,
   OneFSOpenOptions,
+  OneFSRestoreOptions,
   OneFSSaveOptions,
+  OneFSWritableFile,
+  OneFSEntry,
   StoredHandle,
   StoredFile,
   OneFSResult,
 } from '../types'
-import { ok, err } from '../types'
+import { ok, err, PLATFORM_CAPABILITIES } from '../types'
 import { IDBStorage } from '../storage/idb'
-import { generateId, getMimeType, toArrayBuffer, sanitizeFileName } from '../utils'
+import { generateId, getMimeType, toArrayBuffer, sanitizeFileName, bytesToStream, withLazyContent } from '../utils'
 
 /**
  * Fallback adapter for browsers without File System Access API.
@@ -20,8 +24,11 @@ import { generateId, getMimeType, toArrayBuffer, sanitizeFileName } from '../uti
  */
 export class PickerIDBAdapter implements OneFSAdapter {
   platform = 'web-fallback' as const
+  capabilities = { ...PLATFORM_CAPABILITIES['web-fallback'] }
   private storage: IDBStorage
   private persistByDefault: boolean
+  /** Picked File objects by OneFSFile id, so reads can stream from disk instead of memory */
+  private pickedFiles = new Map<string, File>()
 
   constructor(appName: string, maxRecentFiles = 10, persistByDefault = true) {
     this.storage = new IDBStorage(appName, maxRecentFiles)
@@ -32,8 +39,14 @@ export class PickerIDBAdapter implements OneFSAdapter {
     return typeof document !== 'undefined' && 'createElement' in document
   }
 
+  /**
+   * Open files via <input type="file">.
+   * With loadContent: false, files are not cached in IndexedDB (that would require
+   * reading them), so they can't be restored from getRecentFiles() later.
+   */
   async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
     const shouldPersist = options.persist ?? this.persistByDefault
+    const loadContent = options.loadContent ?? true
 
     return new Promise((resolve) => {
       const input = document.createElement('input')
@@ -51,6 +64,25 @@ export class PickerIDBAdapter implements OneFSAdapter {
           return
         }
 
+        if (!loadContent) {
+          const files = Array.from(fileList).map((file) => {
+            const id = generateId()
+            this.pickedFiles.set(id, file)
+
+            return this.toLazyFile({
+              id,
+              name: file.name,
+              content: new Uint8Array(0),
+              mimeType: file.type || getMimeType(file.name),
+              size: file.size,
+              lastModified: file.lastModified,
+            })
+          })
+
+          resolve(ok(options.multiple ? files : files[0]))
+          return
+        }
+
         try {
           const results = await Promise.all(
             Array.from(fileList).map(async (file) => {
@@ -61,6 +93,7 @@ export class PickerIDBAdapter implements OneFSAdapter {
 
           const files: OneFSFile[] = results.map(({ file, content }) => {
             const id = generateId()
+            this.pickedFiles.set(id, file)
 
             if (shouldPersist) {
               this.storage.storeFileDeferred({
@@ -107,6 +140,7 @@ export class PickerIDBAdapter implements OneFSAdapter {
   ): Promise<OneFSResult<boolean>> {
     const shouldPersist = options?.persist ?? this.persistByDefault
     const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+    this.pickedFiles.delete(file.id)
 
     try {
       if (shouldPersist) {
@@ -122,7 +156,7 @@ export class PickerIDBAdapter implements OneFSAdapter {
         await this.storage.storeFile(storedFile)
       }
 
-      this.triggerDownload(file.name, contentArray, file.mimeType)
+      this.triggerDownload(file.name, new Blob([toArrayBuffer(contentArray)], { type: file.mimeType }))
       return ok(true)
     } catch (e) {
       const error = e as Error
@@ -154,7 +188,7 @@ export class PickerIDBAdapter implements OneFSAdapter {
         await this.storage.storeFile(storedFile)
       }
 
-      this.triggerDownload(name, contentArray, mimeType)
+      this.triggerDownload(name, new Blob([toArrayBuffer(contentArray)], { type: mimeType }))
 
       return ok({
         id,
@@ -170,8 +204,117 @@ export class PickerIDBAdapter implements OneFSAdapter {
     }
   }
 
-  private triggerDownload(name: string, content: Uint8Array, mimeType: string): void {
-    const blob = new Blob([toArrayBuffer(content)], { type: mimeType })
+  /**
+   * Stream a file via File.stream() when it came from the picker in this session,
+   * otherwise stream its in-memory content.
+   */
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    if ('kind' in target) {
+      return err('not_supported', 'Directory entries are not supported on web-fallback')
+    }
+
+    const picked = this.pickedFiles.get(target.id)
+    if (picked) {
+      return ok(picked.stream())
+    }
+    return ok(bytesToStream(target.content))
+  }
+
+  /**
+   * Read a byte range via File.slice() when the file was picked this session,
+   * otherwise slice the in-memory content.
+   */
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    if ('kind' in target) {
+      return err('not_supported', 'Directory entries are not supported on web-fallback')
+    }
+
+    const picked = this.pickedFiles.get(target.id)
+    if (picked) {
+      try {
+        return ok(new Uint8Array(await picked.slice(offset, offset + length).arrayBuffer()))
+      } catch (e) {
+        const error = e as Error
+        return err('io_error', error.message || 'Failed to read file range', e)
+      }
+    }
+    return ok(target.content.slice(offset, offset + length))
+  }
+
+  /**
+   * Stream into an existing file by buffering chunks into a Blob.
+   * The download is triggered when the stream closes.
+   */
+  async createWriteStream(
+    file: OneFSFile,
+    options?: OneFSSaveOptions
+  ): Promise<OneFSResult<WritableStream<Uint8Array>>> {
+    const shouldPersist = options?.persist ?? this.persistByDefault
+    this.pickedFiles.delete(file.id)
+    return ok(this.createDownloadStream(file.id, file.name, file.mimeType, shouldPersist))
+  }
+
+  /**
+   * Stream into a new file by buffering chunks into a Blob.
+   * The download is triggered when the stream closes.
+   */
+  async saveFileAsStream(options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSWritableFile>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+    const name = options.suggestedName ?? 'untitled'
+    const mimeType = getMimeType(name)
+    const id = generateId()
+
+    return ok({
+      file: {
+        id,
+        name,
+        content: new Uint8Array(0),
+        mimeType,
+        size: 0,
+        lastModified: Date.now(),
+      },
+      stream: this.createDownloadStream(id, name, mimeType, shouldPersist),
+    })
+  }
+
+  private createDownloadStream(
+    id: string,
+    name: string,
+    mimeType: string,
+    shouldPersist: boolean
+  ): WritableStream<Uint8Array> {
+    const parts: ArrayBuffer[] = []
+
+    return new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        parts.push(toArrayBuffer(chunk))
+      },
+      close: async () => {
+        const blob = new Blob(parts, { type: mimeType })
+        parts.length = 0
+
+        if (shouldPersist) {
+          const content = new Uint8Array(await blob.arrayBuffer())
+          await this.storage.storeFile({
+            id,
+            name,
+            content,
+            mimeType,
+            size: content.byteLength,
+            lastModified: Date.now(),
+            storedAt: Date.now(),
+          })
+        }
+
+        this.triggerDownload(name, blob)
+      },
+      abort: () => {
+        parts.length = 0
+      },
+    })
+  }
+
+  private triggerDownload(name: string, blob: Blob): void {
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
@@ -192,12 +335,23 @@ export class PickerIDBAdapter implements OneFSAdapter {
     }))
   }
 
-  async restoreFile(stored: StoredHandle): Promise<OneFSResult<OneFSFile>> {
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions = {}): Promise<OneFSResult<OneFSFile>> {
     const file = await this.storage.getStoredFile(stored.id)
     if (!file) {
       return err('not_found', 'File not found in storage')
     }
 
+    if (options.loadContent === false) {
+      return ok(this.toLazyFile({
+        id: file.id,
+        name: file.name,
+        content: new Uint8Array(0),
+        mimeType: file.mimeType,
+        size: file.size,
+        lastModified: file.lastModified,
+      }))
+    }
+
     return ok({
       id: file.id,
       name: file.name,
@@ -208,6 +362,40 @@ export class PickerIDBAdapter implements OneFSAdapter {
     })
   }
 
+  private toLazyFile(file: OneFSFile): OneFSLazyFile {
+    return withLazyContent(file, {
+      read: (target) => this.readContent(target),
+      stream: async (target) => {
+        if (this.pickedFiles.has(target.id)) {
+          return this.openReadStream(target)
+        }
+        const content = await this.readContent(target)
+        return content.ok ? ok(bytesToStream(content.data)) : content
+      },
+    })
+  }
+
+  /**
+   * Read content from the picked File if still available, otherwise from the IndexedDB cache.
+   */
+  private async readContent(file: OneFSFile): Promise<OneFSResult<Uint8Array>> {
+    try {
+      const picked = this.pickedFiles.get(file.id)
+      if (picked) {
+        return ok(new Uint8Array(await picked.arrayBuffer()))
+      }
+
+      const stored = await this.storage.getStoredFile(file.id)
+      if (!stored) {
+        return err('not_found', 'File not found in storage')
+      }
+      return ok(stored.content)
+    } catch (e) {
+      const error = e as Error
+      return err('io_error', error.message || 'Failed to read file', e)
+    }
+  }
+
   async removeFromRecent(id: string): Promise<void> {
     await this.storage.removeFile(id)
   }
@@ -217,6 +405,7 @@ export class PickerIDBAdapter implements OneFSAdapter {
   }
 
   dispose(): void {
+    this.pickedFiles.clear()
     this.storage.dispose()
   }
 }
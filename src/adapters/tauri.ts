@@ -1,10 +1,26 @@
 import type {
   OneFSAdapter,
   OneFSFile,
+  OneFSLazyFile,
   OneFSOpenOptions,
+  OneFSRestoreOptions,
   OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSWritableFile,
   OneFSDirectory,
   OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSDeleteFileOptions,
+  OneFSTrashItem,
+  OneFSEmptyTrashOptions,
+  OneFSTransferOptions,
+  OneFSFileStat,
+  OneFSBackup,
+  OneFSBackupConfig,
+  OneFSWatchOptions,
+  OneFSWatchCallback,
+  OneFSWatchEvent,
   OneFSReadDirectoryOptions,
   OneFSScanOptions,
   OneFSEntry,
@@ -12,29 +28,72 @@ import type {
   StoredFile,
   OneFSResult,
 } from '../types'
-import { ok, err } from '../types'
+import { ok, err, PLATFORM_CAPABILITIES } from '../types'
 import { IDBStorage } from '../storage/idb'
-import { generateId, getMimeType, getFileName, sanitizeFileName, isPathWithin, toArrayBuffer } from '../utils'
+import { ScanFilter } from '../scan-filter'
+import { hideAtomicTempFiles, hideBackupFolders } from '../watch'
+import { TRASH_FOLDER, toTrashItem, selectExpiredTrash } from '../trash'
+import { BACKUP_FOLDER, resolveBackupConfig, getBackupFolder, getBackupPath, parseBackupName, storeIDBBackup, listIDBBackups } from '../backups'
+import { generateId, getMimeType, getFileName, getAtomicTempPath, isAtomicTempName, conflict, resolveRelativePath, sanitizeFileName, isPathWithin, normalizePath, toArrayBuffer, bytesToStream, withLazyContent, splitRelativePath } from '../utils'
 
 type TauriDialog = typeof import('@tauri-apps/plugin-dialog')
 type TauriFS = typeof import('@tauri-apps/plugin-fs')
 type TauriCore = typeof import('@tauri-apps/api/core')
+type TauriFileHandle = Awaited<ReturnType<TauriFS['open']>>
+type TauriWatchEvent = Parameters<Parameters<TauriFS['watch']>[1]>[0]
 
 const DIRECTORY_MIME_TYPE = 'inode/directory'
 const STAT_CHUNK_SIZE = 25
+const STREAM_CHUNK_SIZE = 256 * 1024
+
+/** Whether plugin-fs refused a path - outside the capability scope, or denied by the OS */
+function isRefused(e: unknown): boolean {
+  const message = (e as Error)?.message ?? String(e)
+  return message.includes('forbidden') || message.includes('not allowed') || message.includes('Permission denied')
+}
+
+function fileHandleWriteStream(handle: TauriFileHandle): WritableStream<Uint8Array> {
+  return new WritableStream<Uint8Array>({
+    async write(chunk) {
+      try {
+        let offset = 0
+        while (offset < chunk.byteLength) {
+          offset += await handle.write(chunk.subarray(offset))
+        }
+      } catch (e) {
+        await handle.close().catch(() => {})
+        throw e
+      }
+    },
+    async close() {
+      await handle.close()
+    },
+    async abort() {
+      await handle.close()
+    },
+  })
+}
 
 export class TauriAdapter implements OneFSAdapter {
   platform = 'tauri' as const
+  capabilities = { ...PLATFORM_CAPABILITIES.tauri }
   private storage: IDBStorage
   private dialog: TauriDialog | null = null
   private fs: TauriFS | null = null
   private core: TauriCore | null = null
   private persistByDefault: boolean
+  private backups: Required<OneFSBackupConfig> | null
   private scanLock: Promise<void> = Promise.resolve()
 
-  constructor(appName: string, maxRecentFiles = 10, persistByDefault = true) {
+  constructor(
+    appName: string,
+    maxRecentFiles = 10,
+    persistByDefault = true,
+    backups?: boolean | OneFSBackupConfig
+  ) {
     this.storage = new IDBStorage(appName, maxRecentFiles)
     this.persistByDefault = persistByDefault
+    this.backups = resolveBackupConfig(backups)
   }
 
   isSupported(): boolean {
@@ -65,6 +124,15 @@ export class TauriAdapter implements OneFSAdapter {
     return release!
   }
 
+  private async withScanLock<T>(action: () => Promise<T>): Promise<T> {
+    const release = await this.acquireScanLock()
+    try {
+      return await action()
+    } finally {
+      release()
+    }
+  }
+
   async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
     const shouldPersist = options.persist ?? this.persistByDefault
 
@@ -86,15 +154,42 @@ export class TauriAdapter implements OneFSAdapter {
       }
 
       const paths = Array.isArray(result) ? result : [result]
+      paths.forEach((path) => this.removeStaleTemp(path))
+
+      if (options.loadContent === false) {
+        const lazyFiles = await Promise.all(
+          paths.map(async (path) => {
+            const stat = await fs.stat(path)
+            const name = getFileName(path)
+            const file: OneFSFile = {
+              id: generateId(),
+              name,
+              path,
+              content: new Uint8Array(0),
+              mimeType: getMimeType(name),
+              size: stat.size,
+              lastModified: stat.mtime ? new Date(stat.mtime).getTime() : Date.now(),
+            }
+
+            if (shouldPersist) {
+              this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+            }
+
+            return this.toLazyFile(file)
+          })
+        )
+
+        return ok(options.multiple ? lazyFiles : lazyFiles[0])
+      }
 
       const fileDataResults = await Promise.all(
         paths.map(async (path) => {
-          const content = await fs.readFile(path)
-          return { path, content }
+          const [content, stat] = await Promise.all([fs.readFile(path), this.statPath(path)])
+          return { path, content, lastModified: stat?.lastModified || Date.now() }
         })
       )
 
-      const files: OneFSFile[] = fileDataResults.map(({ path, content }) => {
+      const files: OneFSFile[] = fileDataResults.map(({ path, content, lastModified }) => {
         const name = getFileName(path)
         const id = generateId()
 
@@ -106,7 +201,7 @@ export class TauriAdapter implements OneFSAdapter {
             content,
             mimeType: getMimeType(name),
             size: content.byteLength,
-            lastModified: Date.now(),
+            lastModified,
             storedAt: Date.now(),
           })
         }
@@ -118,7 +213,7 @@ export class TauriAdapter implements OneFSAdapter {
           content,
           mimeType: getMimeType(name),
           size: content.byteLength,
-          lastModified: Date.now(),
+          lastModified,
         }
       })
 
@@ -132,6 +227,11 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Write to the file's path. With `ifUnmodifiedSince`, the path is re-stat'ed first and
+   * the save refused if its mtime is newer. On success `file.size` and `file.lastModified`
+   * are updated to the saved version so the same object can be saved again.
+   */
   async saveFile(
     file: OneFSFile,
     content: Uint8Array | string,
@@ -147,7 +247,27 @@ export class TauriAdapter implements OneFSAdapter {
       const { fs } = await this.loadModules()
       const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
 
-      await fs.writeFile(file.path, contentArray)
+      if (options?.ifUnmodifiedSince !== undefined) {
+        const current = await this.statPath(file.path)
+        if (current && current.lastModified > options.ifUnmodifiedSince) {
+          return conflict(current)
+        }
+      }
+
+      if (options?.backup !== false) {
+        try {
+          await this.backupFile(file.path)
+        } catch (e) {
+          return err('io_error', 'Failed to back up the previous version - file not saved', e)
+        }
+      }
+
+      await this.writeFile(file.path, contentArray, options?.atomic ?? true)
+
+      const saved = await this.statPath(file.path)
+      const lastModified = saved?.lastModified || Date.now()
+      file.size = contentArray.byteLength
+      file.lastModified = lastModified
 
       if (shouldPersist) {
         this.storage.storeFileDeferred({
@@ -157,7 +277,7 @@ export class TauriAdapter implements OneFSAdapter {
           content: contentArray,
           mimeType: file.mimeType,
           size: contentArray.byteLength,
-          lastModified: Date.now(),
+          lastModified,
           storedAt: Date.now(),
         })
       }
@@ -172,11 +292,123 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Atomic writes go to a sibling temp file that is renamed over the target, so a crash
+   * leaves either the old or the new content. The temp file is created with the target's
+   * mode bits, but the rename gives it a new inode - ownership, ACLs and hard links are not
+   * carried over. Symlinks are written through in place rather than replaced by a regular
+   * file, and so is any file whose temp file is refused: the dialog scope usually only
+   * allows the picked path itself, and read-only folders can still hold writable files.
+   */
+  private async writeFile(path: string, data: Uint8Array, atomic: boolean): Promise<void> {
+    const { fs } = await this.loadModules()
+    const info = atomic ? await fs.lstat(path).catch(() => null) : null
+    if (!atomic || info?.isSymlink) {
+      await fs.writeFile(path, data)
+      return
+    }
+
+    const tempPath = getAtomicTempPath(path)
+    try {
+      await fs.writeFile(tempPath, data, info?.mode ? { mode: info.mode & 0o7777 } : undefined)
+      await fs.rename(tempPath, path)
+    } catch (e) {
+      await fs.remove(tempPath).catch(() => {})
+      if (!isRefused(e)) throw e
+      await fs.writeFile(path, data)
+    }
+  }
+
+  /** Remove the temp file of an atomic save that never finished, e.g. after a crash */
+  private removeStaleTemp(path: string): void {
+    const tempPath = getAtomicTempPath(path)
+    this.loadModules()
+      .then(async ({ fs }) => {
+        if (await fs.exists(tempPath)) await fs.remove(tempPath)
+      })
+      .catch(() => {})
+  }
+
+  /** `.backups` folders only belong to the adapter when backups are kept there */
+  private isBackupFolder(name: string): boolean {
+    return name === BACKUP_FOLDER && this.backups?.location === 'folder'
+  }
+
+  /**
+   * Keep the on-disk version before saveFile() overwrites it, then drop backups
+   * beyond the retention count. A file that doesn't exist yet has nothing to back up.
+   * 'folder' and 'sibling' write next to the file, so its folder must be in the fs
+   * scope - the dialog scope only covers the picked path itself.
+   */
+  private async backupFile(path: string): Promise<void> {
+    if (!this.backups) return
+    const { fs } = await this.loadModules()
+    if (!(await fs.exists(path))) return
+
+    const { location, maxBackups } = this.backups
+    if (location === 'idb') {
+      await storeIDBBackup(this.storage, path, getFileName(path), await fs.readFile(path), maxBackups)
+      return
+    }
+
+    if (location === 'folder') {
+      await fs.mkdir(getBackupFolder(path), { recursive: true })
+    }
+    await fs.copyFile(path, getBackupPath(path, location, Date.now()))
+
+    const backups = await this.findBackups(path)
+    for (const backup of backups.slice(maxBackups)) {
+      await fs.remove(backup.path!)
+    }
+  }
+
+  /** Backups of a path in the configured location, newest first */
+  private async findBackups(path: string): Promise<OneFSBackup[]> {
+    const location = this.backups?.location ?? 'folder'
+    if (location === 'idb') {
+      return listIDBBackups(this.storage, path)
+    }
+
+    const name = getFileName(path)
+    if (location === 'sibling') {
+      const backupPath = getBackupPath(path, 'sibling', 0)
+      const stat = await this.statPath(backupPath)
+      return stat
+        ? [{ id: backupPath, name, path: backupPath, size: stat.size, createdAt: stat.lastModified, location }]
+        : []
+    }
+
+    const { fs } = await this.loadModules()
+    const folder = getBackupFolder(path)
+    if (!(await fs.exists(folder))) return []
+
+    const backups: OneFSBackup[] = []
+    for (const entry of await fs.readDir(folder)) {
+      const createdAt = entry.isFile ? parseBackupName(name, entry.name) : null
+      if (createdAt === null) continue
+      const backupPath = `${folder}/${entry.name}`
+      const stat = await this.statPath(backupPath)
+      backups.push({ id: backupPath, name, path: backupPath, size: stat?.size ?? 0, createdAt, location })
+    }
+    return backups.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  /** Current size and mtime of a path, or null if it no longer exists */
+  private async statPath(path: string): Promise<OneFSFileStat | null> {
+    const { fs } = await this.loadModules()
+    const stat = await fs.stat(path).catch(() => null)
+    if (!stat) return null
+    return {
+      size: stat.size,
+      lastModified: stat.mtime ? new Date(stat.mtime).getTime() : 0,
+    }
+  }
+
   async saveFileAs(content: Uint8Array | string, options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSFile>> {
     const shouldPersist = options.persist ?? this.persistByDefault
 
     try {
-      const { dialog, fs } = await this.loadModules()
+      const { dialog } = await this.loadModules()
 
       const filters =
         options.accept?.length
@@ -193,7 +425,7 @@ export class TauriAdapter implements OneFSAdapter {
       }
 
       const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
-      await fs.writeFile(path, contentArray)
+      await this.writeFile(path, contentArray, options.atomic ?? true)
 
       const name = getFileName(path)
       const id = generateId()
@@ -229,6 +461,85 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Stream new content into an existing file through incremental file-handle writes.
+   * The file is truncated when the stream opens.
+   */
+  async createWriteStream(
+    file: OneFSFile,
+    options: OneFSSaveOptions = {}
+  ): Promise<OneFSResult<WritableStream<Uint8Array>>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot save file without path - use saveFileAsStream instead')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+
+      if (options.ifUnmodifiedSince !== undefined) {
+        const current = await this.statPath(file.path)
+        if (current && current.lastModified > options.ifUnmodifiedSince) {
+          return conflict(current)
+        }
+      }
+      const handle = await fs.open(file.path, { write: true, create: true, truncate: true })
+      return ok(fileHandleWriteStream(handle))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to save file', e)
+      }
+      return err('io_error', error.message || 'Failed to open write stream', e)
+    }
+  }
+
+  async saveFileAsStream(options: OneFSSaveOptions = {}): Promise<OneFSResult<OneFSWritableFile>> {
+    const shouldPersist = options.persist ?? this.persistByDefault
+
+    try {
+      const { dialog, fs } = await this.loadModules()
+
+      const filters =
+        options.accept?.length
+          ? [{ name: 'Accepted files', extensions: options.accept.map((a) => a.replace('.', '')) }]
+          : undefined
+
+      const path = await dialog.save({
+        defaultPath: options.suggestedName,
+        filters,
+      })
+
+      if (!path) {
+        return err('cancelled', 'User cancelled save dialog')
+      }
+
+      const handle = await fs.open(path, { write: true, create: true, truncate: true })
+
+      const name = getFileName(path)
+      const file: OneFSFile = {
+        id: generateId(),
+        name,
+        path,
+        content: new Uint8Array(0),
+        mimeType: getMimeType(name),
+        size: 0,
+        lastModified: Date.now(),
+      }
+
+      if (shouldPersist) {
+        this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+      }
+
+      return ok({ file, stream: fileHandleWriteStream(handle) })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to save file', e)
+      }
+      return err('io_error', error.message || 'Failed to save file', e)
+    }
+  }
+
   async openDirectory(options: OneFSDirectoryOptions = {}): Promise<OneFSResult<OneFSDirectory>> {
     const shouldPersist = options.persist ?? this.persistByDefault
 
@@ -284,7 +595,8 @@ export class TauriAdapter implements OneFSAdapter {
       const needsStat: { index: number; name: string; path: string }[] = []
 
       for (const entry of dirEntries) {
-        if (!entry.name) continue
+        if (!entry.name || isAtomicTempName(entry.name)) continue
+        if (entry.isDirectory && this.isBackupFolder(entry.name)) continue
 
         const safeName = sanitizeFileName(entry.name)
         const filePath = `${directory.path}/${safeName}`
@@ -340,10 +652,66 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
+  /**
+   * Resolve a relative path against the directory's path, refusing anything that
+   * normalizes to a location outside it.
+   */
+  async getEntry(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot resolve path without directory path')
+    }
+
+    const resolved = resolveRelativePath(relativePath)
+    if (resolved === null) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+    if (!resolved) {
+      return err('io_error', 'Path must name an entry inside the directory')
+    }
+
+    const path = normalizePath(`${directory.path}/${resolved}`)
+    if (!isPathWithin(path, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      const stat = await fs.stat(path)
+      const name = getFileName(path)
+      const depth = resolved.split('/').length - 1
+
+      if (stat.isDirectory) {
+        return ok({ name, kind: 'directory', path, relativePath: resolved, depth })
+      }
+      return ok({
+        name,
+        kind: 'file',
+        size: stat.size,
+        lastModified: stat.mtime ? new Date(stat.mtime).getTime() : Date.now(),
+        path,
+        relativePath: resolved,
+        depth,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', `"${resolved}" not found`, e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to read directory', e)
+      }
+      return err('io_error', error.message || 'Failed to resolve path', e)
+    }
+  }
+
+  /**
+   * Load a specific file from a directory.
+   * With maxBytes, only the first N bytes are read through a file handle.
+   */
   async readFileFromDirectory(
     directory: OneFSDirectory,
     entry: OneFSEntry,
-    _options?: { maxBytes?: number }
+    options?: { maxBytes?: number }
   ): Promise<OneFSResult<OneFSFile>> {
     if (!entry.path || entry.kind !== 'file') {
       return err('not_supported', 'Cannot read file without path')
@@ -354,8 +722,9 @@ export class TauriAdapter implements OneFSAdapter {
     }
 
     try {
-      const { fs } = await this.loadModules()
-      const content = await fs.readFile(entry.path)
+      const content = options?.maxBytes
+        ? await this.readPathRange(entry.path, 0, options.maxBytes)
+        : await (await this.loadModules()).fs.readFile(entry.path)
 
       return ok({
         id: generateId(),
@@ -378,175 +747,831 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
-  async scanDirectory(
+  async writeFileToDirectory(
     directory: OneFSDirectory,
-    options: OneFSScanOptions = {}
-  ): Promise<OneFSResult<OneFSEntry[]>> {
-    const release = await this.acquireScanLock()
-    try {
-      return await this._scanDirectoryImpl(directory, options)
-    } finally {
-      release()
+    name: string,
+    content: Uint8Array | string,
+    options: OneFSWriteOptions = {}
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot write to directory without path')
     }
-  }
 
-  private async _scanDirectoryImpl(
-    directory: OneFSDirectory,
-    options: OneFSScanOptions = {}
-  ): Promise<OneFSResult<OneFSEntry[]>> {
-    if (!directory.path) {
-      return err('not_supported', 'Cannot scan directory without path')
+    const sanitized = sanitizeFileName(name)
+    if (!sanitized) {
+      return err('io_error', 'Invalid file name')
+    }
+
+    const filePath = `${directory.path}/${sanitized}`
+    if (!isPathWithin(filePath, directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
     }
 
-    const { extensions, onProgress, onError, signal, skipStats } = options
-    const extensionSet = extensions?.length
-      ? new Set(extensions.map((e) => e.toLowerCase().replace(/^\./, '')))
-      : null
+    const shouldPersist = options.persist ?? this.persistByDefault
 
     try {
       const { fs } = await this.loadModules()
-      const files: OneFSEntry[] = []
-      const directoriesToScan: string[] = [directory.path]
-      let totalScanned = 0
 
-      while (directoriesToScan.length > 0) {
-        if (signal?.aborted) {
-          return err('cancelled', 'Scan was cancelled')
-        }
-
-        const currentDir = directoriesToScan.pop()!
-
-        try {
-          const dirEntries = await fs.readDir(currentDir)
-          const fileEntriesToStat: { name: string; path: string }[] = []
-
-          for (const entry of dirEntries) {
-            if (!entry.name) continue
-
-            const safeName = sanitizeFileName(entry.name)
-            const entryPath = `${currentDir}/${safeName}`
-
-            if (!isPathWithin(entryPath, directory.path)) continue
-
-            if (entry.isDirectory) {
-              directoriesToScan.push(entryPath)
-            } else if (entry.isFile) {
-              if (extensionSet) {
-                const ext = safeName.split('.').pop()?.toLowerCase()
-                if (!ext || !extensionSet.has(ext)) continue
-              }
-
-              if (skipStats) {
-                files.push({ name: safeName, kind: 'file', path: entryPath })
-              } else {
-                fileEntriesToStat.push({ name: safeName, path: entryPath })
-              }
-            }
-
-            totalScanned++
-          }
-
-          for (let i = 0; i < fileEntriesToStat.length; i += STAT_CHUNK_SIZE) {
-            if (signal?.aborted) {
-              return err('cancelled', 'Scan was cancelled')
-            }
-
-            const chunk = fileEntriesToStat.slice(i, i + STAT_CHUNK_SIZE)
-            const stats = await Promise.all(
-              chunk.map(entry =>
-                fs.stat(entry.path).catch(statError => {
-                  onError?.(entry.path, statError)
-                  return null
-                })
-              )
-            )
-            for (let j = 0; j < chunk.length; j++) {
-              const stat = stats[j]
-              if (stat) {
-                files.push({
-                  name: chunk[j].name,
-                  kind: 'file',
-                  size: stat.size,
-                  lastModified: stat.mtime ? new Date(stat.mtime).getTime() : Date.now(),
-                  path: chunk[j].path,
-                })
-              } else {
-                files.push({ name: chunk[j].name, kind: 'file', path: chunk[j].path })
-              }
-            }
+      if (!options.overwrite && await fs.exists(filePath)) {
+        return err('already_exists', `File "${sanitized}" already exists`)
+      }
 
-            if (onProgress) {
-              onProgress(totalScanned, files.length)
-            }
-          }
+      const contentArray = typeof content === 'string' ? new TextEncoder().encode(content) : content
+      await fs.writeFile(filePath, contentArray)
 
-          if (onProgress && totalScanned % 100 === 0) {
-            onProgress(totalScanned, files.length)
-          }
-          if (totalScanned % 500 === 0) {
-            await new Promise((resolve) => setTimeout(resolve, 0))
-          }
-        } catch (dirError) {
-          onError?.(currentDir, dirError)
-        }
+      const file: OneFSFile = {
+        id: generateId(),
+        name: sanitized,
+        path: filePath,
+        content: contentArray,
+        mimeType: getMimeType(sanitized),
+        size: contentArray.byteLength,
+        lastModified: Date.now(),
       }
 
-      if (onProgress) {
-        onProgress(totalScanned, files.length)
+      if (shouldPersist) {
+        this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
       }
 
-      return ok(files)
+      return ok(file)
     } catch (e) {
       const error = e as Error
       if (error.message?.includes('No such file') || error.message?.includes('not found')) {
         return err('not_found', 'Directory not found', e)
       }
       if (error.message?.includes('Permission denied')) {
-        return err('permission_denied', 'Permission denied to scan directory', e)
+        return err('permission_denied', 'Permission denied to write file', e)
       }
-      return err('io_error', error.message || 'Failed to scan directory', e)
+      return err('io_error', error.message || 'Failed to write file', e)
     }
   }
 
-  async getRecentFiles(): Promise<StoredHandle[]> {
-    const files = await this.storage.getStoredFiles()
-    return files.map((f) => ({
-      id: f.id,
-      name: f.name,
-      path: f.path,
-      type: f.mimeType === DIRECTORY_MIME_TYPE ? 'directory' as const : 'file' as const,
-      storedAt: f.storedAt,
-    }))
-  }
+  async createDirectory(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options: OneFSCreateDirectoryOptions = {}
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!parent.path) {
+      return err('not_supported', 'Cannot create directory without path')
+    }
 
-  async restoreFile(stored: StoredHandle): Promise<OneFSResult<OneFSFile>> {
-    const file = await this.storage.getStoredFile(stored.id)
-    if (!file) {
-      return err('not_found', 'File not found in storage')
+    const segments = splitRelativePath(relativePath)
+    if (!segments) {
+      return err('io_error', 'Invalid directory path')
     }
 
-    if (file.path && file.mimeType !== DIRECTORY_MIME_TYPE) {
-      try {
-        const { fs } = await this.loadModules()
-        const content = await fs.readFile(file.path)
-        const stat = await fs.stat(file.path)
+    const dirPath = `${parent.path}/${segments.join('/')}`
+    if (!isPathWithin(dirPath, parent.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
 
-        return ok({
-          id: file.id,
-          name: file.name,
-          path: file.path,
-          content,
-          mimeType: file.mimeType,
-          size: content.byteLength,
-          lastModified: stat.mtime ? new Date(stat.mtime).getTime() : file.lastModified,
-        })
-      } catch (e) {
-        const message = e instanceof Error ? e.message : 'File no longer accessible'
-        return err('not_found', message, e)
+    try {
+      const { fs } = await this.loadModules()
+
+      if (await fs.exists(dirPath)) {
+        const stat = await fs.stat(dirPath)
+        if (!stat.isDirectory || !options.recursive) {
+          return err('already_exists', `"${segments[segments.length - 1]}" already exists`)
+        }
+      } else {
+        await fs.mkdir(dirPath, { recursive: !!options.recursive })
+      }
+
+      return ok({
+        id: generateId(),
+        name: segments[segments.length - 1],
+        path: dirPath,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'Parent directory not found', e)
       }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to create directory', e)
+      }
+      return err('io_error', error.message || 'Failed to create directory', e)
     }
+  }
 
-    return ok({
+  async deleteEntry(
+    directory: OneFSDirectory,
+    entry: OneFSEntry,
+    options: OneFSDeleteOptions = {}
+  ): Promise<OneFSResult<boolean>> {
+    if (!directory.path || !entry.path) {
+      return err('not_supported', 'Cannot delete entry without path')
+    }
+
+    if (!isPathWithin(entry.path, directory.path) || normalizePath(entry.path) === normalizePath(directory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      await fs.remove(entry.path, { recursive: entry.kind === 'directory' && !!options.recursive })
+      return ok(true)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'Entry not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to delete entry', e)
+      }
+      if (error.message?.includes('not empty')) {
+        return err('io_error', 'Directory is not empty - pass recursive: true to delete it', e)
+      }
+      return err('io_error', error.message || 'Failed to delete entry', e)
+    }
+  }
+
+  /**
+   * Move an entry with rename(). Falls back to copy + remove when the target
+   * is on a different device.
+   */
+  async moveEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    try {
+      const prepared = await this.prepareTransfer(entry, targetDirectory, newName, options)
+      if (!prepared.ok) return prepared
+
+      const { sourcePath, targetPath, sameEntry, replacing } = prepared.data
+      if (!sameEntry) {
+        const { fs } = await this.loadModules()
+        let copied = false
+        await this.transferOnto(targetPath, replacing, async () => {
+          try {
+            await fs.rename(sourcePath, targetPath)
+          } catch (e) {
+            const error = e as Error
+            if (!error.message?.includes('cross-device')) throw e
+            await this.copyPath(sourcePath, targetPath, entry.kind, options)
+            copied = true
+          }
+        })
+        if (copied) {
+          await fs.remove(sourcePath, { recursive: entry.kind === 'directory' })
+        }
+      }
+
+      return ok(await this.statEntry(targetPath, entry.kind))
+    } catch (e) {
+      return this.transferError(e, 'move')
+    }
+  }
+
+  /**
+   * Copy an entry with copyFile(), recreating the directory tree for folders.
+   * onProgress reports files copied so far.
+   */
+  async copyEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options: OneFSTransferOptions = {}
+  ): Promise<OneFSResult<OneFSEntry>> {
+    try {
+      const prepared = await this.prepareTransfer(entry, targetDirectory, newName, options)
+      if (!prepared.ok) return prepared
+
+      const { sourcePath, targetPath, sameEntry, replacing } = prepared.data
+      if (sameEntry) {
+        return err('already_exists', 'Cannot copy an entry onto itself')
+      }
+
+      await this.transferOnto(targetPath, replacing, () => this.copyPath(sourcePath, targetPath, entry.kind, options))
+      return ok(await this.statEntry(targetPath, entry.kind))
+    } catch (e) {
+      return this.transferError(e, 'copy')
+    }
+  }
+
+  /**
+   * Shared checks for moveEntry/copyEntry: sandboxed target path, no directory
+   * into itself, and name conflicts. `replacing` is set when overwrite allows an
+   * existing target, which transferOnto() keeps until the transfer succeeds.
+   */
+  private async prepareTransfer(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName: string | undefined,
+    options: OneFSTransferOptions
+  ): Promise<OneFSResult<{ sourcePath: string; targetPath: string; sameEntry: boolean; replacing: boolean }>> {
+    if (!entry.path || !targetDirectory.path) {
+      return err('not_supported', 'Cannot transfer entry without path')
+    }
+
+    const name = sanitizeFileName(newName ?? entry.name)
+    if (!name) {
+      return err('io_error', 'Invalid entry name')
+    }
+
+    const targetPath = `${targetDirectory.path}/${name}`
+    if (!isPathWithin(targetPath, targetDirectory.path)) {
+      return err('permission_denied', 'Path is outside the expected directory')
+    }
+
+    if (entry.kind === 'directory' && isPathWithin(targetDirectory.path, entry.path)) {
+      return err('io_error', 'Cannot move or copy a directory into itself')
+    }
+
+    if (normalizePath(targetPath) === normalizePath(entry.path)) {
+      return ok({ sourcePath: entry.path, targetPath, sameEntry: true, replacing: false })
+    }
+
+    const { fs } = await this.loadModules()
+    const replacing = await fs.exists(targetPath)
+    if (replacing && !options.overwrite) {
+      return err('already_exists', `"${name}" already exists`)
+    }
+
+    return ok({ sourcePath: entry.path, targetPath, sameEntry: false, replacing })
+  }
+
+  /**
+   * Run a transfer onto `targetPath`. When replacing, the existing entry is renamed
+   * aside first and only removed once the transfer succeeds - a failed or cancelled
+   * transfer puts it back.
+   */
+  private async transferOnto(targetPath: string, replacing: boolean, transfer: () => Promise<void>): Promise<void> {
+    if (!replacing) {
+      return transfer()
+    }
+
+    const { fs } = await this.loadModules()
+    const asidePath = getAtomicTempPath(targetPath)
+    await fs.rename(targetPath, asidePath)
+    try {
+      await transfer()
+    } catch (e) {
+      await fs.remove(targetPath, { recursive: true }).catch(() => {})
+      await fs.rename(asidePath, targetPath).catch(() => {})
+      throw e
+    }
+    await fs.remove(asidePath, { recursive: true }).catch(() => {})
+  }
+
+  private async copyPath(
+    sourcePath: string,
+    targetPath: string,
+    kind: 'file' | 'directory',
+    options: OneFSTransferOptions
+  ): Promise<void> {
+    const { fs } = await this.loadModules()
+    const { onProgress, signal } = options
+
+    if (kind === 'file') {
+      await fs.copyFile(sourcePath, targetPath)
+      onProgress?.(1, 1)
+      return
+    }
+
+    // Recreate the tree first so progress has a total
+    const files: { from: string; to: string }[] = []
+    const pending: { from: string; to: string }[] = [{ from: sourcePath, to: targetPath }]
+    await fs.mkdir(targetPath, { recursive: true })
+
+    while (pending.length > 0) {
+      if (signal?.aborted) {
+        throw new DOMException('Copy was cancelled', 'AbortError')
+      }
+
+      const current = pending.pop()!
+      const dirEntries = await fs.readDir(current.from)
+      for (const child of dirEntries) {
+        if (!child.name) continue
+        const safeName = sanitizeFileName(child.name)
+        const paths = { from: `${current.from}/${safeName}`, to: `${current.to}/${safeName}` }
+
+        if (child.isDirectory) {
+          await fs.mkdir(paths.to, { recursive: true })
+          pending.push(paths)
+        } else if (child.isFile) {
+          files.push(paths)
+        }
+      }
+    }
+
+    for (let i = 0; i < files.length; i++) {
+      if (signal?.aborted) {
+        throw new DOMException('Copy was cancelled', 'AbortError')
+      }
+
+      await fs.copyFile(files[i].from, files[i].to)
+      onProgress?.(i + 1, files.length)
+    }
+  }
+
+  private async statEntry(path: string, kind: 'file' | 'directory'): Promise<OneFSEntry> {
+    const name = path.substring(path.lastIndexOf('/') + 1)
+    if (kind === 'directory') {
+      return { name, kind, path }
+    }
+
+    const { fs } = await this.loadModules()
+    const stat = await fs.stat(path)
+    return {
+      name,
+      kind,
+      size: stat.size,
+      lastModified: stat.mtime ? new Date(stat.mtime).getTime() : Date.now(),
+      path,
+    }
+  }
+
+  private transferError(e: unknown, action: 'move' | 'copy'): OneFSResult<never> {
+    const error = e as Error
+    if (error.name === 'AbortError') {
+      return err('cancelled', `${action === 'move' ? 'Move' : 'Copy'} was cancelled`, e)
+    }
+    if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+      return err('not_found', 'Entry not found', e)
+    }
+    if (error.message?.includes('Permission denied')) {
+      return err('permission_denied', `Permission denied to ${action} entry`, e)
+    }
+    return err('io_error', error.message || `Failed to ${action} entry`, e)
+  }
+
+  /**
+   * Read a byte range by seeking a file handle - only the requested bytes cross the bridge.
+   */
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot read a directory')
+    }
+
+    if (!target.path) {
+      if ('content' in target) {
+        return ok(target.content.slice(offset, offset + length))
+      }
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    try {
+      return ok(await this.readPathRange(target.path, offset, length))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'File not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to read file range', e)
+    }
+  }
+
+  private async readPathRange(path: string, offset: number, length: number): Promise<Uint8Array> {
+    const { fs } = await this.loadModules()
+    const handle = await fs.open(path, { read: true })
+
+    try {
+      const { size } = await handle.stat()
+      const toRead = Math.max(0, Math.min(length, size - offset))
+      if (toRead === 0) return new Uint8Array(0)
+
+      if (offset > 0) {
+        await handle.seek(offset, fs.SeekMode.Start)
+      }
+
+      const buffer = new Uint8Array(toRead)
+      let filled = 0
+      while (filled < toRead) {
+        const bytesRead = await handle.read(buffer.subarray(filled))
+        if (!bytesRead) break
+        filled += bytesRead
+      }
+      return buffer.subarray(0, filled)
+    } finally {
+      await handle.close().catch(() => {})
+    }
+  }
+
+  /**
+   * Stream a file or entry in fixed-size chunks through a plugin-fs file handle.
+   * Files without a path stream their already-loaded content.
+   */
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    if ('kind' in target && target.kind !== 'file') {
+      return err('not_supported', 'Cannot stream a directory')
+    }
+
+    if (!target.path) {
+      if ('content' in target) {
+        return ok(bytesToStream(target.content))
+      }
+      return err('not_supported', 'Cannot read file without path')
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      const handle = await fs.open(target.path, { read: true })
+
+      return ok(new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const buffer = new Uint8Array(STREAM_CHUNK_SIZE)
+            const bytesRead = await handle.read(buffer)
+            if (!bytesRead) {
+              await handle.close()
+              controller.close()
+              return
+            }
+            controller.enqueue(buffer.subarray(0, bytesRead))
+          } catch (e) {
+            await handle.close().catch(() => {})
+            controller.error(e)
+          }
+        },
+        async cancel() {
+          await handle.close()
+        },
+      }))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'File not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to open read stream', e)
+    }
+  }
+
+  async scanDirectory(
+    directory: OneFSDirectory,
+    options: OneFSScanOptions = {}
+  ): Promise<OneFSResult<OneFSEntry[]>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot scan directory without path')
+    }
+
+    try {
+      const files: OneFSEntry[] = []
+      for await (const entry of this._scanDirectoryImpl(directory, options)) {
+        files.push(entry)
+      }
+
+      if (options.signal?.aborted) {
+        return err('cancelled', 'Scan was cancelled')
+      }
+
+      return ok(files)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to scan directory', e)
+      }
+      return err('io_error', error.message || 'Failed to scan directory', e)
+    }
+  }
+
+  /**
+   * Yield files as each stat chunk completes. Stops quietly when the signal aborts;
+   * errors other than per-directory failures are reported through onError.
+   */
+  async *walk(directory: OneFSDirectory, options: OneFSScanOptions = {}): AsyncGenerator<OneFSEntry> {
+    if (!directory.path) {
+      options.onError?.(directory.name, new Error('Cannot walk directory without path'))
+      return
+    }
+
+    try {
+      yield* this._scanDirectoryImpl(directory, options)
+    } catch (e) {
+      options.onError?.(directory.path, e)
+    }
+  }
+
+  /**
+   * Watch with plugin-fs watch() (debounced) or watchImmediate() when debounceMs is 0.
+   * Requires the plugin's `watch` feature and the `fs:allow-watch` permission.
+   */
+  async watch(
+    directory: OneFSDirectory,
+    options: OneFSWatchOptions,
+    callback: OneFSWatchCallback
+  ): Promise<OneFSResult<() => void>> {
+    if (!directory.path) {
+      return err('not_supported', 'Cannot watch directory without path')
+    }
+
+    const rootPath = directory.path
+
+    try {
+      const { fs } = await this.loadModules()
+
+      // Events are converted in order - stat calls must not reorder them
+      let queue = Promise.resolve()
+      const handler = (event: TauriWatchEvent) => {
+        queue = queue
+          .then(() => this.watchEventToEvents(event, rootPath))
+          .then((events) => {
+            for (const event of events) {
+              let shown = hideAtomicTempFiles(event)
+              if (shown && this.backups?.location === 'folder') shown = hideBackupFolders(shown)
+              if (shown) callback(shown)
+            }
+          })
+          .catch((e) => options.onError?.(e))
+      }
+
+      const unwatch = options.debounceMs === 0
+        ? await fs.watchImmediate(rootPath, handler, { recursive: !!options.recursive })
+        : await fs.watch(rootPath, handler, { recursive: !!options.recursive, delayMs: options.debounceMs })
+
+      return ok(unwatch)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.message?.includes('Permission denied') || error.message?.includes('not allowed')) {
+        return err('permission_denied', 'Permission denied to watch directory', e)
+      }
+      return err('io_error', error.message || 'Failed to watch directory', e)
+    }
+  }
+
+  private async watchEventToEvents(event: TauriWatchEvent, rootPath: string): Promise<OneFSWatchEvent[]> {
+    const { fs } = await this.loadModules()
+    const kind = event.type
+    if (typeof kind === 'string' || 'access' in kind) return []
+
+    const rootLength = normalizePath(rootPath).length
+    const toEntry = async (path: string, kindHint: 'file' | 'directory', withStats: boolean): Promise<OneFSEntry> => {
+      const relativePath = normalizePath(path).slice(rootLength).replace(/^\//, '')
+      const entry: OneFSEntry = {
+        name: getFileName(path),
+        kind: kindHint,
+        path,
+        relativePath,
+        depth: relativePath.split('/').length - 1,
+      }
+      if (!withStats) return entry
+
+      const stat = await fs.stat(path).catch(() => null)
+      if (stat?.isDirectory) {
+        entry.kind = 'directory'
+      } else if (stat) {
+        entry.kind = 'file'
+        entry.size = stat.size
+        entry.lastModified = stat.mtime ? new Date(stat.mtime).getTime() : undefined
+      }
+      return entry
+    }
+    const each = (type: 'created' | 'modified' | 'deleted', kindHint: 'file' | 'directory', withStats: boolean) =>
+      Promise.all(event.paths.map(async (path): Promise<OneFSWatchEvent> => ({ type, entry: await toEntry(path, kindHint, withStats) })))
+
+    if ('create' in kind) {
+      return each('created', kind.create.kind === 'folder' ? 'directory' : 'file', true)
+    }
+    if ('remove' in kind) {
+      return each('deleted', kind.remove.kind === 'folder' ? 'directory' : 'file', false)
+    }
+
+    const modify = kind.modify
+    if (modify.kind === 'rename') {
+      if (modify.mode === 'both' && event.paths.length >= 2) {
+        const entry = await toEntry(event.paths[1], 'file', true)
+        const oldEntry = await toEntry(event.paths[0], entry.kind, false)
+        return [{ type: 'renamed', entry, oldEntry }]
+      }
+      if (modify.mode === 'from') return each('deleted', 'file', false)
+      if (modify.mode === 'to') return each('created', 'file', true)
+
+      return Promise.all(event.paths.map(async (path): Promise<OneFSWatchEvent> => {
+        const exists = await fs.exists(path).catch(() => false)
+        return { type: exists ? 'created' : 'deleted', entry: await toEntry(path, 'file', exists) }
+      }))
+    }
+    if (modify.kind === 'metadata' && modify.mode === 'access-time') return []
+
+    return each('modified', 'file', true)
+  }
+
+  /**
+   * Shared walk behind scanDirectory() and walk(). The scan lock is held for each
+   * directory read and stat chunk, never across a yield - a consumer that scans again
+   * while iterating, or abandons the iterator, doesn't block other scans. A root that
+   * can't be read throws; deeper folders are reported through onError.
+   */
+  private async *_scanDirectoryImpl(
+    directory: OneFSDirectory,
+    options: OneFSScanOptions = {}
+  ): AsyncGenerator<OneFSEntry> {
+    const rootPath = directory.path!
+    const { onProgress, onError, signal, skipStats, maxDepth, includeDirectories } = options
+
+    const { fs } = await this.loadModules()
+    const directoriesToScan: { path: string; relativePath: string; depth: number; filter: ScanFilter }[] = [
+      { path: rootPath, relativePath: '', depth: 0, filter: ScanFilter.create(options) },
+    ]
+    let totalScanned = 0
+    let found = 0
+
+    while (directoriesToScan.length > 0) {
+      if (signal?.aborted) return
+
+      const { path: currentDir, relativePath: currentRelative, depth, filter: parentFilter } = directoriesToScan.pop()!
+      const fileEntriesToStat: { name: string; path: string; relativePath: string }[] = []
+      let filter = parentFilter
+
+      try {
+        const dirEntries = await this.withScanLock(async () => {
+          const dirEntries = await fs.readDir(currentDir)
+          for (const entry of dirEntries) {
+            if (!entry.isFile || !entry.name || !filter.ignoreFileNames.includes(entry.name)) continue
+            const ignorePath = `${currentDir}/${sanitizeFileName(entry.name)}`
+            try {
+              filter = filter.withIgnoreFile(currentRelative, await fs.readTextFile(ignorePath))
+            } catch (readError) {
+              onError?.(ignorePath, readError)
+            }
+          }
+          return dirEntries
+        })
+
+        for (const entry of dirEntries) {
+          if (!entry.name || isAtomicTempName(entry.name)) continue
+
+          const safeName = sanitizeFileName(entry.name)
+          const entryPath = `${currentDir}/${safeName}`
+          const relativePath = currentRelative ? `${currentRelative}/${safeName}` : safeName
+
+          if (!isPathWithin(entryPath, rootPath)) continue
+
+          if (entry.isDirectory) {
+            if (this.isBackupFolder(safeName) || filter.skipDirectory(relativePath)) continue
+            if (maxDepth === undefined || depth < maxDepth) {
+              directoriesToScan.push({ path: entryPath, relativePath, depth: depth + 1, filter })
+            }
+            if (includeDirectories) {
+              found++
+              yield { name: safeName, kind: 'directory', path: entryPath, relativePath, depth }
+            }
+          } else if (entry.isFile) {
+            if (!filter.matchesPath(relativePath)) continue
+
+            if (skipStats) {
+              found++
+              yield { name: safeName, kind: 'file', path: entryPath, relativePath, depth }
+            } else {
+              fileEntriesToStat.push({ name: safeName, path: entryPath, relativePath })
+            }
+          }
+
+          totalScanned++
+        }
+      } catch (dirError) {
+        // The root failing means the scan itself failed
+        if (!currentRelative) throw dirError
+        onError?.(currentDir, dirError)
+        continue
+      }
+
+      for (let i = 0; i < fileEntriesToStat.length; i += STAT_CHUNK_SIZE) {
+        if (signal?.aborted) return
+
+        const chunk = fileEntriesToStat.slice(i, i + STAT_CHUNK_SIZE)
+        const stats = await this.withScanLock(() => Promise.all(
+          chunk.map(entry =>
+            fs.stat(entry.path).catch(statError => {
+              onError?.(entry.path, statError)
+              return null
+            })
+          )
+        ))
+        for (let j = 0; j < chunk.length; j++) {
+          const stat = stats[j]
+          if (stat) {
+            const lastModified = stat.mtime ? new Date(stat.mtime).getTime() : Date.now()
+            if (!filter.matchesStats(stat.size, lastModified)) continue
+            found++
+            yield {
+              name: chunk[j].name,
+              kind: 'file',
+              size: stat.size,
+              lastModified,
+              path: chunk[j].path,
+              relativePath: chunk[j].relativePath,
+              depth,
+            }
+          } else {
+            found++
+            yield { name: chunk[j].name, kind: 'file', path: chunk[j].path, relativePath: chunk[j].relativePath, depth }
+          }
+        }
+
+        if (onProgress) {
+          onProgress(totalScanned, found)
+        }
+      }
+
+      if (onProgress && totalScanned % 100 === 0) {
+        onProgress(totalScanned, found)
+      }
+      if (totalScanned % 500 === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0))
+      }
+    }
+
+    if (onProgress) {
+      onProgress(totalScanned, found)
+    }
+  }
+
+  private toLazyFile(file: OneFSFile): OneFSLazyFile {
+    return withLazyContent(file, {
+      read: (target) => this.readContent(target),
+      stream: (target) => this.openReadStream(target),
+    })
+  }
+
+  private async readContent(file: OneFSFile): Promise<OneFSResult<Uint8Array>> {
+    if (!file.path) {
+      return ok(file.content)
+    }
+
+    try {
+      const { fs } = await this.loadModules()
+      return ok(await fs.readFile(file.path))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'File not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to read file', e)
+      }
+      return err('io_error', error.message || 'Failed to read file', e)
+    }
+  }
+
+  async getRecentFiles(): Promise<StoredHandle[]> {
+    const files = await this.storage.getStoredFiles()
+    return files.map((f) => ({
+      id: f.id,
+      name: f.name,
+      path: f.path,
+      type: f.mimeType === DIRECTORY_MIME_TYPE ? 'directory' as const : 'file' as const,
+      storedAt: f.storedAt,
+    }))
+  }
+
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions = {}): Promise<OneFSResult<OneFSFile>> {
+    const file = await this.storage.getStoredFile(stored.id)
+    if (!file) {
+      return err('not_found', 'File not found in storage')
+    }
+
+    if (file.path && file.mimeType !== DIRECTORY_MIME_TYPE) {
+      try {
+        const { fs } = await this.loadModules()
+        this.removeStaleTemp(file.path)
+
+        if (options.loadContent === false) {
+          const stat = await fs.stat(file.path)
+          return ok(this.toLazyFile({
+            id: file.id,
+            name: file.name,
+            path: file.path,
+            content: new Uint8Array(0),
+            mimeType: file.mimeType,
+            size: stat.size,
+            lastModified: stat.mtime ? new Date(stat.mtime).getTime() : file.lastModified,
+          }))
+        }
+
+        const content = await fs.readFile(file.path)
+        const stat = await fs.stat(file.path)
+
+        return ok({
+          id: file.id,
+          name: file.name,
+          path: file.path,
+          content,
+          mimeType: file.mimeType,
+          size: content.byteLength,
+          lastModified: stat.mtime ? new Date(stat.mtime).getTime() : file.lastModified,
+        })
+      } catch (e) {
+        const message = e instanceof Error ? e.message : 'File no longer accessible'
+        return err('not_found', message, e)
+      }
+    }
+
+    return ok({
       id: file.id,
       name: file.name,
       path: file.path,
@@ -588,7 +1613,11 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
-  async deleteFile(file: OneFSFile): Promise<OneFSResult<boolean>> {
+  /**
+   * Delete the file, or with `trash` move it into `<app data>/trash` and record where
+   * it came from so restoreFromTrash() can put it back.
+   */
+  async deleteFile(file: OneFSFile, options: OneFSDeleteFileOptions = {}): Promise<OneFSResult<boolean>> {
     if (!file.path) {
       return err('not_supported', 'Cannot delete file without path')
     }
@@ -600,7 +1629,11 @@ export class TauriAdapter implements OneFSAdapter {
 
     try {
       const { fs } = await this.loadModules()
-      await fs.remove(file.path)
+      if (options.trash) {
+        await this.moveToTrash(file, file.path)
+      } else {
+        await fs.remove(file.path)
+      }
       await this.storage.removeFile(file.id)
       return ok(true)
     } catch (e) {
@@ -615,6 +1648,180 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
+  /** `<app data>/trash`, created on first use */
+  private async getTrashDir(): Promise<string> {
+    const { fs } = await this.loadModules()
+    const { appDataDir, join } = await import('@tauri-apps/api/path')
+    const dir = await join(await appDataDir(), TRASH_FOLDER)
+    await fs.mkdir(dir, { recursive: true })
+    return dir
+  }
+
+  /** Move a file into `<app data>/trash`, dropping its trash record again if the move fails */
+  private async moveToTrash(file: OneFSFile, path: string): Promise<void> {
+    const { fs } = await this.loadModules()
+    const { join } = await import('@tauri-apps/api/path')
+    const id = generateId()
+    const trashPath = await join(await this.getTrashDir(), `${id}_${getFileName(path)}`)
+    const stat = await fs.stat(path)
+
+    await this.storage.storeTrashItem({
+      id,
+      fileId: file.id,
+      name: file.name,
+      originalPath: path,
+      size: stat.size,
+      deletedAt: Date.now(),
+      mimeType: file.mimeType,
+      trashPath,
+    })
+
+    try {
+      await this.movePath(path, trashPath)
+    } catch (e) {
+      await this.storage.removeTrashItems([id]).catch(() => {})
+      throw e
+    }
+  }
+
+  /** rename() a file, falling back to copy + remove when the trash is on another device */
+  private async movePath(from: string, to: string): Promise<void> {
+    const { fs } = await this.loadModules()
+    try {
+      await fs.rename(from, to)
+    } catch (e) {
+      const error = e as Error
+      if (!error.message?.includes('cross-device')) throw e
+      await fs.copyFile(from, to)
+      await fs.remove(from)
+    }
+  }
+
+  async listTrash(): Promise<OneFSResult<OneFSTrashItem[]>> {
+    try {
+      const items = await this.storage.listTrashItems()
+      return ok(items.map(toTrashItem))
+    } catch (e) {
+      return err('io_error', (e as Error).message || 'Failed to list trash', e)
+    }
+  }
+
+  async restoreFromTrash(item: OneFSTrashItem): Promise<OneFSResult<OneFSFile>> {
+    try {
+      const stored = await this.storage.getTrashItem(item.id)
+      if (!stored?.trashPath || !stored.originalPath) {
+        return err('not_found', 'Item is not in the trash')
+      }
+
+      const { fs } = await this.loadModules()
+      if (await fs.exists(stored.originalPath)) {
+        return err('already_exists', `"${stored.name}" already exists at its original location`)
+      }
+
+      await this.movePath(stored.trashPath, stored.originalPath)
+      await this.storage.removeTrashItems([stored.id])
+
+      const content = await fs.readFile(stored.originalPath)
+      const stat = await this.statPath(stored.originalPath)
+      const file: OneFSFile = {
+        id: stored.fileId,
+        name: stored.name,
+        path: stored.originalPath,
+        content,
+        mimeType: stored.mimeType,
+        size: content.byteLength,
+        lastModified: stat?.lastModified ?? Date.now(),
+      }
+
+      if (this.persistByDefault) {
+        this.storage.storeFileDeferred({ ...file, storedAt: Date.now() })
+      }
+
+      return ok(file)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'Trashed file or its original folder no longer exists', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to restore file', e)
+      }
+      return err('io_error', error.message || 'Failed to restore file from trash', e)
+    }
+  }
+
+  async emptyTrash(options: OneFSEmptyTrashOptions = {}): Promise<OneFSResult<number>> {
+    try {
+      const { fs } = await this.loadModules()
+      const expired = selectExpiredTrash(await this.storage.listTrashItems(), options)
+
+      for (const item of expired) {
+        if (item.trashPath && await fs.exists(item.trashPath)) {
+          await fs.remove(item.trashPath)
+        }
+        await this.storage.removeTrashItems([item.id])
+      }
+
+      return ok(expired.length)
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to empty trash', e)
+      }
+      return err('io_error', error.message || 'Failed to empty trash', e)
+    }
+  }
+
+  async listBackups(file: OneFSFile): Promise<OneFSResult<OneFSBackup[]>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot list backups of a file without path')
+    }
+
+    try {
+      return ok(await this.findBackups(file.path))
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to list backups', e)
+      }
+      return err('io_error', error.message || 'Failed to list backups', e)
+    }
+  }
+
+  async restoreBackup(file: OneFSFile, backup: OneFSBackup): Promise<OneFSResult<OneFSFile>> {
+    if (!file.path) {
+      return err('not_supported', 'Cannot restore backups of a file without path')
+    }
+
+    try {
+      const backups = await this.findBackups(file.path)
+      const match = backups.find((b) => b.id === backup.id)
+      if (!match) {
+        return err('not_found', 'Backup not found for this file')
+      }
+
+      const { fs } = await this.loadModules()
+      const content = match.location === 'idb'
+        ? (await this.storage.getBackup(match.id))?.content
+        : await fs.readFile(match.path!)
+      if (!content) {
+        return err('not_found', 'Backup not found for this file')
+      }
+
+      const saved = await this.saveFile(file, content)
+      if (!saved.ok) return saved
+
+      // saveFile() has set size and lastModified from the written file
+      return ok({ ...file, content })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'Backup not found', e)
+      }
+      return err('io_error', error.message || 'Failed to restore backup', e)
+    }
+  }
+
   async renameFile(file: OneFSFile, newName: string): Promise<OneFSResult<OneFSFile>> {
     if (!file.path) {
       return err('not_supported', 'Cannot rename file without path')
@@ -668,6 +1875,73 @@ export class TauriAdapter implements OneFSAdapter {
     }
   }
 
+  async renameDirectory(
+    target: OneFSDirectory | OneFSEntry,
+    newName: string
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!target.path) {
+      return err('not_supported', 'Cannot rename directory without path')
+    }
+    if ('kind' in target && target.kind !== 'directory') {
+      return err('io_error', 'Entry is not a directory')
+    }
+
+    const sanitized = sanitizeFileName(newName)
+    if (!sanitized) {
+      return err('io_error', 'Invalid directory name')
+    }
+
+    const oldPath = target.path
+    const parentDir = oldPath.substring(0, oldPath.lastIndexOf('/'))
+    const newPath = parentDir ? `${parentDir}/${sanitized}` : sanitized
+
+    try {
+      const { fs } = await this.loadModules()
+      if (await fs.exists(newPath)) {
+        return err('already_exists', `"${sanitized}" already exists`)
+      }
+
+      await fs.rename(oldPath, newPath)
+      await this.updateStoredPaths(oldPath, newPath)
+
+      return ok({
+        id: 'id' in target ? target.id : generateId(),
+        name: sanitized,
+        path: newPath,
+      })
+    } catch (e) {
+      const error = e as Error
+      if (error.message?.includes('No such file') || error.message?.includes('not found')) {
+        return err('not_found', 'Directory not found', e)
+      }
+      if (error.message?.includes('Permission denied')) {
+        return err('permission_denied', 'Permission denied to rename directory', e)
+      }
+      return err('io_error', error.message || 'Failed to rename directory', e)
+    }
+  }
+
+  /**
+   * Point stored records for a renamed directory - and anything opened from inside it - at the new path.
+   */
+  private async updateStoredPaths(oldPath: string, newPath: string): Promise<void> {
+    const oldNormal = normalizePath(oldPath)
+    const stored = await this.storage.getStoredFiles()
+
+    await Promise.all(
+      stored
+        .filter(f => f.path && isPathWithin(f.path, oldPath))
+        .map(f => {
+          const rest = normalizePath(f.path!).slice(oldNormal.length)
+          return this.storage.storeFile({
+            ...f,
+            name: rest ? f.name : getFileName(newPath),
+            path: newPath + rest,
+          })
+        })
+    )
+  }
+
   async removeFromRecent(id: string): Promise<void> {
     await this.storage.removeFile(id)
   }
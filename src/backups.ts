@@ -0,0 +1,97 @@
+import type { IDBStorage } from './storage/idb'
+import type { OneFSBackup, OneFSBackupConfig, StoredBackup } from './types'
+import { generateId } from './utils'
+
+export const DEFAULT_MAX_BACKUPS = 5
+export const BACKUP_FOLDER = '.backups'
+
+/**
+ * Fill in defaults - `true` enables backups with them, `false` or undefined disables them.
+ * A `maxBackups` that isn't a finite number falls back to the default.
+ */
+export function resolveBackupConfig(
+  config: boolean | OneFSBackupConfig | undefined
+): Required<OneFSBackupConfig> | null {
+  if (!config) return null
+  const { location = 'folder', maxBackups = DEFAULT_MAX_BACKUPS } = config === true ? {} : config
+  return {
+    location,
+    maxBackups: Number.isFinite(maxBackups) ? Math.max(1, Math.floor(maxBackups)) : DEFAULT_MAX_BACKUPS,
+  }
+}
+
+function splitPath(path: string): [string, string] {
+  const index = path.lastIndexOf('/')
+  return [path.slice(0, Math.max(index, 0)), path.slice(index + 1)]
+}
+
+/** The `.backups/` folder next to a file */
+export function getBackupFolder(path: string): string {
+  const [dir] = splitPath(path)
+  return dir ? `${dir}/${BACKUP_FOLDER}` : BACKUP_FOLDER
+}
+
+/** Whether a path or relative path lies inside a `.backups/` folder */
+export function isInBackupFolder(path: string): boolean {
+  return path.split('/').includes(BACKUP_FOLDER)
+}
+
+/**
+ * Where a backup of `path` taken at `createdAt` is written:
+ * `dir/doc.txt~` for 'sibling', `dir/.backups/doc.txt.<createdAt>.bak` for 'folder'.
+ */
+export function getBackupPath(path: string, location: 'sibling' | 'folder', createdAt: number): string {
+  if (location === 'sibling') return `${path}~`
+  const [, name] = splitPath(path)
+  return `${getBackupFolder(path)}/${name}.${createdAt}.bak`
+}
+
+/** Timestamp of a `.backups/` entry belonging to `fileName`, or null if it belongs to another file */
+export function parseBackupName(fileName: string, name: string): number | null {
+  const prefix = `${fileName}.`
+  if (!name.startsWith(prefix) || !name.endsWith('.bak')) return null
+  const stamp = name.slice(prefix.length, -'.bak'.length)
+  return /^\d+$/.test(stamp) ? Number(stamp) : null
+}
+
+function toBackup(stored: StoredBackup): OneFSBackup {
+  return {
+    id: stored.id,
+    name: stored.name,
+    size: stored.size,
+    createdAt: stored.createdAt,
+    location: 'idb',
+  }
+}
+
+/**
+ * Store an 'idb' backup and drop the oldest beyond `maxBackups`.
+ * Content over the IndexedDB cache limit is not backed up.
+ */
+export async function storeIDBBackup(
+  storage: IDBStorage,
+  fileKey: string,
+  name: string,
+  content: Uint8Array,
+  maxBackups: number
+): Promise<void> {
+  const stored = await storage.storeBackup({
+    id: generateId(),
+    fileKey,
+    name,
+    content,
+    size: content.byteLength,
+    createdAt: Date.now(),
+  })
+  if (!stored) return
+
+  const backups = await storage.getBackups(fileKey)
+  if (backups.length > maxBackups) {
+    await storage.removeBackups(backups.slice(maxBackups).map((backup) => backup.id))
+  }
+}
+
+export async function listIDBBackups(storage: IDBStorage, fileKey: string): Promise<OneFSBackup[]> {
+  const backups = await storage.getBackups(fileKey)
+  return backups.map(toBackup)
+}
@@ -0,0 +1,35 @@
+import type { OneFSElectronBridge, OneFSElectronPreloadModules } from './types'
+
+/** ipcMain channels are `onefs:<method>`, e.g. `onefs:readFile` */
+export const ELECTRON_CHANNEL_PREFIX = 'onefs:'
+
+export const BRIDGE_METHODS: (keyof OneFSElectronBridge)[] = [
+  'showOpenDialog',
+  'showSaveDialog',
+  'stat',
+  'readDir',
+  'readFile',
+  'writeFile',
+  'mkdir',
+  'remove',
+  'rename',
+]
+
+/**
+ * Expose the Electron bridge to the renderer as `window.onefsElectron`, where
+ * ElectronAdapter looks for it. Call from a preload script.
+ *
+ * @example
+ * ```typescript
+ * // preload.ts
+ * import { contextBridge, ipcRenderer } from 'electron'
+ * exposeElectronBridge({ contextBridge, ipcRenderer })
+ * ```
+ */
+export function exposeElectronBridge({ contextBridge, ipcRenderer }: OneFSElectronPreloadModules): void {
+  const bridge: Record<string, (...args: unknown[]) => Promise<unknown>> = {}
+  for (const method of BRIDGE_METHODS) {
+    bridge[method] = (...args) => ipcRenderer.invoke(ELECTRON_CHANNEL_PREFIX + method, ...args)
+  }
+  contextBridge.exposeInMainWorld('onefsElectron', bridge)
+}
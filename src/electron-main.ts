@@ -0,0 +1,275 @@
+/**
+ * Electron main-process entry - `onefs/electron-main` serves the bridge ElectronAdapter
+ * calls. It lives apart from the main entry so renderer bundles never see node: imports.
+ */
+import type {
+  OneFSElectronBridge,
+  OneFSElectronDialog,
+  OneFSElectronDirEntry,
+  OneFSElectronHandlerOptions,
+  OneFSElectronMainModules,
+  OneFSElectronOpenDialogOptions,
+  OneFSElectronSaveDialogOptions,
+  OneFSElectronStat,
+  OneFSResult,
+} from './types'
+import { ok, err } from './types'
+import { isPathWithin, normalizePath } from './utils'
+import { nodeError, writeNodeFile, readNodeRange } from './adapters/node'
+import { BRIDGE_METHODS, ELECTRON_CHANNEL_PREFIX } from './electron-bridge'
+
+export type {
+  OneFSElectronBridge,
+  OneFSElectronDialog,
+  OneFSElectronHandlerOptions,
+  OneFSElectronMainModules,
+  OneFSElectronOpenDialogOptions,
+  OneFSElectronSaveDialogOptions,
+} from './types'
+export { ELECTRON_CHANNEL_PREFIX }
+
+type NodeFS = typeof import('node:fs/promises')
+type NodePath = typeof import('node:path')
+type NodeStats = import('node:fs').Stats
+
+let nodeModules: Promise<{ fs: NodeFS; path: NodePath }> | null = null
+
+function loadModules(): Promise<{ fs: NodeFS; path: NodePath }> {
+  nodeModules ??= Promise.all([import('node:fs/promises'), import('node:path')]).then(([fs, path]) => ({ fs, path }))
+  return nodeModules
+}
+
+function toStat(stat: NodeStats): OneFSElectronStat {
+  return { kind: stat.isDirectory() ? 'directory' : 'file', size: stat.size, lastModified: stat.mtimeMs }
+}
+
+function toFilters(accept?: string[]): { name: string; extensions: string[] }[] | undefined {
+  return accept?.length
+    ? [{ name: 'Accepted files', extensions: accept.map((a) => a.replace('.', '')) }]
+    : undefined
+}
+
+/**
+ * Resolve `target` and follow its symlinks. A path that doesn't exist yet is resolved
+ * through its nearest existing ancestor; a dangling symlink throws ENOENT instead, since
+ * writing through it would land wherever it points.
+ */
+async function realTarget(fs: NodeFS, path: NodePath, target: string): Promise<string> {
+  const resolved = path.resolve(target)
+  try {
+    return await fs.realpath(resolved)
+  } catch (e) {
+    const parent = path.dirname(resolved)
+    if ((e as { code?: string }).code !== 'ENOENT' || parent === resolved) throw e
+    if (await fs.lstat(resolved).then(() => true, () => false)) throw e
+    return path.join(await realTarget(fs, path, parent), path.basename(resolved))
+  }
+}
+
+/**
+ * The default scope: real paths of what the dialogs returned, each covering everything
+ * under it, like Tauri's dialog scope. It only lives as long as the handlers do.
+ */
+interface DialogScope {
+  grant(path: string): Promise<void>
+  includes(realPath: string): boolean
+  isRoot(realPath: string): boolean
+  /** Replace a root that was renamed */
+  move(from: string, to: string): void
+}
+
+function createDialogScope(): DialogScope {
+  const roots = new Set<string>()
+  return {
+    async grant(target) {
+      const { fs, path } = await loadModules()
+      roots.add(await realTarget(fs, path, target).catch(() => path.resolve(target)))
+    },
+    includes: (realPath) => [...roots].some((root) => isPathWithin(realPath, root)),
+    isRoot: (realPath) => roots.has(realPath),
+    move(from, to) {
+      roots.delete(from)
+      roots.add(to)
+    },
+  }
+}
+
+/** Handlers for one dialog scope, with dialogs parented to `window` when given */
+function createHandlers(
+  dialog: OneFSElectronDialog,
+  { allowPath }: OneFSElectronHandlerOptions,
+  scope: DialogScope,
+  window?: unknown
+): OneFSElectronBridge {
+  const isAllowed = (realPath: string) => (allowPath ? allowPath(realPath) : scope.includes(realPath))
+
+  /**
+   * Resolve the paths, then run `action` on them once their real paths are all allowed,
+   * mapping thrown errno errors to results. Checking real paths keeps a symlink inside
+   * the scope from reaching outside it.
+   */
+  async function guard<T>(
+    paths: string[],
+    fallback: string,
+    action: (fs: NodeFS, resolved: string[], real: string[]) => Promise<OneFSResult<T>>
+  ): Promise<OneFSResult<T>> {
+    try {
+      const { fs, path } = await loadModules()
+      const resolved = paths.map((p) => path.resolve(p))
+      const real = await Promise.all(resolved.map((p) => realTarget(fs, path, p)))
+      const denied = real.findIndex((p) => !isAllowed(p))
+      if (denied !== -1) {
+        return err('permission_denied', `Access to "${resolved[denied]}" is not allowed`)
+      }
+      return await action(fs, resolved, real)
+    } catch (e) {
+      return nodeError(e, fallback, 'No such file or directory')
+    }
+  }
+
+  return {
+    async showOpenDialog({ directory, multiple, accept }) {
+      const options: OneFSElectronOpenDialogOptions = {
+        properties: directory
+          ? ['openDirectory', 'createDirectory']
+          : multiple ? ['openFile', 'multiSelections'] : ['openFile'],
+        filters: directory ? undefined : toFilters(accept),
+      }
+      const result = await (window ? dialog.showOpenDialog(window, options) : dialog.showOpenDialog(options))
+      if (result.canceled || result.filePaths.length === 0) {
+        return err('cancelled', directory ? 'User cancelled directory picker' : 'User cancelled file picker')
+      }
+      await Promise.all(result.filePaths.map((path) => scope.grant(path)))
+      return ok(result.filePaths)
+    },
+
+    async showSaveDialog({ suggestedName, accept }) {
+      const options: OneFSElectronSaveDialogOptions = { defaultPath: suggestedName, filters: toFilters(accept) }
+      const result = await (window ? dialog.showSaveDialog(window, options) : dialog.showSaveDialog(options))
+      if (result.canceled || !result.filePath) {
+        return err('cancelled', 'User cancelled save dialog')
+      }
+      await scope.grant(result.filePath)
+      return ok(result.filePath)
+    },
+
+    stat: (path) => guard([path], 'Failed to stat path', async (fs, [target]) => ok(toStat(await fs.stat(target)))),
+
+    readDir: (path) =>
+      guard([path], 'Failed to read directory', async (fs, [dir]) => {
+        const entries: OneFSElectronDirEntry[] = []
+        for (const dirent of await fs.readdir(dir, { withFileTypes: true })) {
+          if (dirent.isDirectory()) {
+            entries.push({ name: dirent.name, kind: 'directory' })
+          } else if (dirent.isFile()) {
+            const stat = await fs.stat(`${dir}/${dirent.name}`).catch(() => null)
+            entries.push(stat
+              ? { name: dirent.name, kind: 'file', size: stat.size, lastModified: stat.mtimeMs }
+              : { name: dirent.name, kind: 'file' })
+          }
+        }
+        return ok(entries)
+      }),
+
+    readFile: (path, range) =>
+      guard([path], 'Failed to read file', async (fs, [target]) =>
+        ok(range
+          ? await readNodeRange(fs, target, range.offset, range.length)
+          : new Uint8Array(await fs.readFile(target)))
+      ),
+
+    writeFile: (path, data, { atomic = true, overwrite = true } = {}) =>
+      guard([path], 'Failed to write file', async (fs, [target]) => {
+        if (overwrite) {
+          await writeNodeFile(fs, target, data, atomic)
+        } else {
+          // 'wx' fails with EEXIST instead of replacing the file
+          await fs.writeFile(target, data, { flag: 'wx' })
+        }
+        return ok(toStat(await fs.stat(target)))
+      }),
+
+    mkdir: (path, { recursive = false } = {}) =>
+      guard([path], 'Failed to create directory', async (fs, [target]) => {
+        await fs.mkdir(target, { recursive })
+        return ok(true as const)
+      }),
+
+    remove: (path, { recursive = false } = {}) =>
+      guard([path], 'Failed to delete entry', async (fs, [target]) => {
+        const stat = await fs.lstat(target)
+        if (stat.isDirectory() && !recursive) {
+          await fs.rmdir(target)
+        } else {
+          await fs.rm(target, { recursive })
+        }
+        return ok(true as const)
+      }),
+
+    rename: (from, to) =>
+      guard([from, to], 'Failed to rename', async (fs, [source, target], [realFrom, realTo]) => {
+        if (normalizePath(source) !== normalizePath(target) && await fs.stat(target).catch(() => null)) {
+          return err('already_exists', `"${to}" already exists`)
+        }
+        await fs.rename(source, target)
+        // A renamed root keeps its grant under the new name only
+        if (scope.isRoot(realFrom)) scope.move(realFrom, realTo)
+        return ok(true as const)
+      }),
+  }
+}
+
+/**
+ * The main-process side of the Electron bridge over node:fs/promises and the given
+ * dialog module. registerElectronHandlers() serves these over IPC; call it directly to
+ * wire the bridge some other way.
+ *
+ * Without `allowPath`, only paths the dialogs returned - and everything under them -
+ * can be touched, so a compromised renderer can't reach the rest of the disk. Renames
+ * need both names in scope, so a picked file can only be renamed inside a picked folder.
+ */
+export function createElectronHandlers(
+  dialog: OneFSElectronDialog,
+  options: OneFSElectronHandlerOptions = {}
+): OneFSElectronBridge {
+  return createHandlers(dialog, options, createDialogScope())
+}
+
+/**
+ * Serve the Electron bridge from the main process. Call once before creating windows.
+ * Dialogs are parented to the calling window when `BrowserWindow` is passed. All windows
+ * share one dialog scope.
+ *
+ * @returns A function that removes the handlers
+ *
+ * @example
+ * ```typescript
+ * // main.ts
+ * import { ipcMain, dialog, BrowserWindow } from 'electron'
+ * registerElectronHandlers({ ipcMain, dialog, BrowserWindow })
+ * ```
+ */
+export function registerElectronHandlers(
+  { ipcMain, dialog, BrowserWindow }: OneFSElectronMainModules,
+  options: OneFSElectronHandlerOptions = {}
+): () => void {
+  const scope = createDialogScope()
+  const shared = createHandlers(dialog, options, scope)
+
+  for (const method of BRIDGE_METHODS) {
+    ipcMain.handle(ELECTRON_CHANNEL_PREFIX + method, async (event, ...args) => {
+      const window = BrowserWindow?.fromWebContents(event.sender)
+      const handlers = window ? createHandlers(dialog, options, scope, window) : shared
+      const call = handlers[method] as (...args: unknown[]) => Promise<OneFSResult<unknown>>
+      const result = await call(...args)
+      // Error causes don't survive structured cloning - send the code and message only
+      return result.ok ? result : { ok: false, error: { code: result.error.code, message: result.error.message } }
+    })
+  }
+
+  return () => {
+    for (const method of BRIDGE_METHODS) {
+      ipcMain.removeHandler(ELECTRON_CHANNEL_PREFIX + method)
+    }
+  }
+}
@@ -31,7 +31,8 @@ interface FileSystemFileHandle {
   move(name: string): Promise<void>
   move(directory: FileSystemDirectoryHandle): Promise<void>
   move(directory: FileSystemDirectoryHandle, name: string): Promise<void>
-  remove(): Promise<void>
+  remove(options?: { recursive?: boolean }): Promise<void>
+  isSameEntry(other: FileSystemHandle): Promise<boolean>
   queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>
   requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>
 }
@@ -43,6 +44,11 @@ interface FileSystemDirectoryHandle {
   getFileHandle(name: string, options?: { create?: boolean }): Promise<FileSystemFileHandle>
   getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<FileSystemDirectoryHandle>
   removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>
+  resolve(possibleDescendant: FileSystemHandle): Promise<string[] | null>
+  move(name: string): Promise<void>
+  move(directory: FileSystemDirectoryHandle): Promise<void>
+  move(directory: FileSystemDirectoryHandle, name: string): Promise<void>
+  remove(options?: { recursive?: boolean }): Promise<void>
   queryPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>
   requestPermission(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>
 }
@@ -58,3 +64,17 @@ interface Window {
   showSaveFilePicker(options?: SaveFilePickerOptions): Promise<FileSystemFileHandle>
   showDirectoryPicker(options?: DirectoryPickerOptions): Promise<FileSystemDirectoryHandle>
 }
+
+interface FileSystemChangeRecord {
+  changedHandle: FileSystemFileHandle | FileSystemDirectoryHandle
+  relativePathComponents: string[]
+  relativePathMovedFrom: string[] | null
+  root: FileSystemHandle
+  type: 'appeared' | 'disappeared' | 'errored' | 'modified' | 'moved' | 'unknown'
+}
+
+declare class FileSystemObserver {
+  constructor(callback: (records: FileSystemChangeRecord[], observer: FileSystemObserver) => void)
+  observe(handle: FileSystemHandle, options?: { recursive?: boolean }): Promise<void>
+  disconnect(): void
+}
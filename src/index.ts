@@ -2,18 +2,55 @@ import type {
   OneFSAdapter,
   OneFSConfig,
   OneFSFile,
+  OneFSLazyFile,
   OneFSOpenOptions,
+  OneFSRestoreOptions,
   OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSWritableFile,
   OneFSDirectory,
   OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSTransferOptions,
+  OneFSWatchEvent,
+  OneFSWatchEventType,
+  OneFSWatchCallback,
+  OneFSWatchOptions,
   OneFSReadDirectoryOptions,
   OneFSScanOptions,
   OneFSEntry,
   StoredHandle,
   Platform,
+  BuiltInPlatform,
+  OneFSAdapterFactory,
+  OneFSRegisterAdapterOptions,
+  OneFSNodeOptions,
+  OneFSPrompt,
+  OneFSPromptRequest,
+  OneFSElectronBridge,
+  OneFSElectronStat,
+  OneFSElectronDirEntry,
+  OneFSElectronDialog,
+  OneFSElectronHandlerOptions,
+  OneFSElectronMainModules,
+  OneFSElectronPreloadModules,
+  OneFSElectronOpenDialogOptions,
+  OneFSElectronSaveDialogOptions,
   OneFSResult,
   OneFSErrorCode,
   OneFSError,
+  OneFSFileStat,
+  OneFSBackup,
+  OneFSBackupConfig,
+  OneFSBackupLocation,
+  OneFSVersion,
+  OneFSPruneVersionsOptions,
+  OneFSDeleteFileOptions,
+  OneFSTrashItem,
+  OneFSEmptyTrashOptions,
+  OneFSHashAlgorithm,
+  OneFSHashOptions,
   OneFSCapabilities,
   PermissionMode,
   PermissionStatus,
@@ -24,31 +61,76 @@ import { FSAccessAdapter } from './adapters/fs-access'
 import { PickerIDBAdapter } from './adapters/picker-idb'
 import { TauriAdapter } from './adapters/tauri'
 import { CapacitorAdapter } from './adapters/capacitor'
-import { toArrayBuffer, uint8ArrayToBase64 } from './utils'
+import { ElectronAdapter } from './adapters/electron'
+import { MemoryAdapter } from './adapters/memory'
+import { registerAdapter, getAdapterRegistration, getAdapterRegistrations, createAdapter } from './registry'
+import { exposeElectronBridge } from './electron-bridge'
+import { IDBStorage } from './storage/idb'
+import { selectVersionsToPrune } from './versions'
+import { hashBytes, hashStream } from './hash'
+import { generateId, toArrayBuffer, uint8ArrayToBase64 } from './utils'
 
 export type {
   OneFSAdapter,
   OneFSConfig,
   OneFSFile,
+  OneFSLazyFile,
   OneFSOpenOptions,
+  OneFSRestoreOptions,
   OneFSSaveOptions,
+  OneFSWriteOptions,
+  OneFSWritableFile,
   OneFSDirectory,
   OneFSDirectoryOptions,
+  OneFSCreateDirectoryOptions,
+  OneFSDeleteOptions,
+  OneFSTransferOptions,
+  OneFSWatchEvent,
+  OneFSWatchEventType,
+  OneFSWatchCallback,
+  OneFSWatchOptions,
   OneFSReadDirectoryOptions,
   OneFSScanOptions,
   OneFSEntry,
   StoredHandle,
   Platform,
+  BuiltInPlatform,
+  OneFSAdapterFactory,
+  OneFSRegisterAdapterOptions,
+  OneFSNodeOptions,
+  OneFSPrompt,
+  OneFSPromptRequest,
+  OneFSElectronBridge,
+  OneFSElectronStat,
+  OneFSElectronDirEntry,
+  OneFSElectronDialog,
+  OneFSElectronHandlerOptions,
+  OneFSElectronMainModules,
+  OneFSElectronPreloadModules,
+  OneFSElectronOpenDialogOptions,
+  OneFSElectronSaveDialogOptions,
   OneFSResult,
   OneFSErrorCode,
   OneFSError,
+  OneFSFileStat,
+  OneFSBackup,
+  OneFSBackupConfig,
+  OneFSBackupLocation,
+  OneFSVersion,
+  OneFSPruneVersionsOptions,
+  OneFSDeleteFileOptions,
+  OneFSTrashItem,
+  OneFSEmptyTrashOptions,
+  OneFSHashAlgorithm,
+  OneFSHashOptions,
   OneFSCapabilities,
   PermissionMode,
   PermissionStatus,
 }
 
 export { ok, err, PLATFORM_CAPABILITIES }
-export { FSAccessAdapter, PickerIDBAdapter, TauriAdapter, CapacitorAdapter }
+export { FSAccessAdapter, PickerIDBAdapter, TauriAdapter, CapacitorAdapter, ElectronAdapter, MemoryAdapter, registerAdapter }
+export { exposeElectronBridge }
 
 /**
  * Cross-platform file system abstraction.
@@ -58,6 +140,9 @@ export { FSAccessAdapter, PickerIDBAdapter, TauriAdapter, CapacitorAdapter }
  * - Fallback browsers (file picker + IndexedDB)
  * - Tauri desktop apps
  * - Capacitor mobile apps
+ * - Electron renderers (through a preload bridge)
+ * - Node.js (CLIs, Electron main process)
+ * - An in-memory tree (tests, server-side rendering)
  *
  * @example
  * ```typescript
@@ -81,6 +166,8 @@ export { FSAccessAdapter, PickerIDBAdapter, TauriAdapter, CapacitorAdapter }
 export class OneFS {
   private adapter: OneFSAdapter
   private config: OneFSConfig
+  private watchers = new Set<() => void>()
+  private history: IDBStorage | null = null
 
   constructor(config: OneFSConfig) {
     this.config = {
@@ -93,31 +180,30 @@ export class OneFS {
     this.adapter = this.selectAdapter()
   }
 
+  /** Version storage, created on first use so platforms without IndexedDB never open it */
+  private getHistory(): IDBStorage {
+    this.history ??= new IDBStorage(this.config.appName)
+    return this.history
+  }
+
   private selectAdapter(): OneFSAdapter {
     const { appName, maxRecentFiles, persistByDefault, useNativeFSAccess, preferredAdapter } = this.config
+    if (this.config.adapter) return this.config.adapter
 
-    const adapters: Record<Platform, () => OneFSAdapter> = {
-      tauri: () => new TauriAdapter(appName, maxRecentFiles, persistByDefault),
-      capacitor: () => new CapacitorAdapter(appName, maxRecentFiles, persistByDefault),
-      'web-fs-access': () => new FSAccessAdapter(appName, maxRecentFiles, persistByDefault),
-      'web-fallback': () => new PickerIDBAdapter(appName, maxRecentFiles, persistByDefault),
-    }
-
-    if (preferredAdapter && adapters[preferredAdapter]) {
-      const adapter = adapters[preferredAdapter]()
+    const preferred = preferredAdapter && getAdapterRegistration(preferredAdapter)
+    if (preferred) {
+      const adapter = createAdapter(preferred, this.config)
       if (adapter.isSupported()) return adapter
     }
 
-    const order: Platform[] = useNativeFSAccess
-      ? ['tauri', 'capacitor', 'web-fs-access', 'web-fallback']
-      : ['tauri', 'capacitor', 'web-fallback']
-
-    for (const platform of order) {
-      const adapter = adapters[platform]()
+    for (const registration of getAdapterRegistrations()) {
+      if (registration.platform === 'web-fs-access' && !useNativeFSAccess) continue
+      const adapter = createAdapter(registration, this.config)
       if (adapter.isSupported()) return adapter
     }
 
-    return new PickerIDBAdapter(appName, maxRecentFiles, persistByDefault)
+    // No DOM or native APIs (e.g. server-side rendering)
+    return new MemoryAdapter(appName, maxRecentFiles, persistByDefault)
   }
 
   /** Current platform identifier */
@@ -125,9 +211,9 @@ export class OneFS {
     return this.adapter.platform
   }
 
-  /** Platform capabilities (what operations are available) */
+  /** Capabilities reported by the active adapter (what operations are available) */
   get capabilities(): OneFSCapabilities {
-    return PLATFORM_CAPABILITIES[this.adapter.platform]
+    return this.adapter.capabilities
   }
 
   /** Whether directory operations are supported */
@@ -137,14 +223,17 @@ export class OneFS {
 
   /** Whether file handles can be persisted and restored across sessions */
   get supportsHandlePersistence(): boolean {
-    return this.adapter.platform === 'web-fs-access'
+    return this.capabilities.handlePersistence
   }
 
   /**
    * Open a file picker dialog.
-   * @param options - Picker configuration (accept, startIn, persist)
-   * @returns The selected file with content loaded as Uint8Array
+   * @param options - Picker configuration (accept, startIn, persist, loadContent)
+   * @returns The selected file with content loaded as Uint8Array, or a lazy file
+   *   (metadata only, with read()/text()/stream()) when `loadContent: false`
    */
+  async openFile(options: OneFSOpenOptions & { multiple: true; loadContent: false }): Promise<OneFSResult<OneFSLazyFile[]>>
+  async openFile(options: OneFSOpenOptions & { loadContent: false }): Promise<OneFSResult<OneFSLazyFile>>
   async openFile(options?: OneFSOpenOptions): Promise<OneFSResult<OneFSFile>>
   async openFile(options: OneFSOpenOptions & { multiple: true }): Promise<OneFSResult<OneFSFile[]>>
   async openFile(options: OneFSOpenOptions = {}): Promise<OneFSResult<OneFSFile | OneFSFile[]>> {
@@ -155,6 +244,8 @@ export class OneFS {
    * Open a file picker for multiple files.
    * Convenience wrapper around openFile with multiple: true.
    */
+  async openFiles(options: Omit<OneFSOpenOptions, 'multiple'> & { loadContent: false }): Promise<OneFSResult<OneFSLazyFile[]>>
+  async openFiles(options?: Omit<OneFSOpenOptions, 'multiple'>): Promise<OneFSResult<OneFSFile[]>>
   async openFiles(options: Omit<OneFSOpenOptions, 'multiple'> = {}): Promise<OneFSResult<OneFSFile[]>> {
     const result = await this.adapter.openFile({ ...options, multiple: true })
     if (!result.ok) return result
@@ -175,10 +266,38 @@ export class OneFS {
    *
    * @param file - The file to save to (must have handle/path from openFile)
    * @param content - New content as string or Uint8Array
-   * @param options - Save options (persist)
+   * With `backups` configured, the previous version is kept first (see listBackups()).
+   * With `versionHistory` configured, the saved content is recorded (see getVersions()).
+   *
+   * @param options - Save options (persist, ifUnmodifiedSince, atomic, backup)
    */
   async saveFile(file: OneFSFile, content: Uint8Array | string, options?: OneFSSaveOptions): Promise<OneFSResult<boolean>> {
-    return this.adapter.saveFile(file, content, options)
+    const result = await this.adapter.saveFile(file, content, options)
+    if (result.ok && this.config.versionHistory) {
+      await this.recordVersion(file, content, options?.versionLabel).catch(() => {})
+    }
+    return result
+  }
+
+  /**
+   * Add a saved version to the history, then apply the configured prune limits.
+   * Content over the IndexedDB cache limit is not recorded.
+   */
+  private async recordVersion(file: OneFSFile, content: Uint8Array | string, label?: string): Promise<void> {
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content
+    const stored = await this.getHistory().storeVersion({
+      id: generateId(),
+      fileId: file.id,
+      name: file.name,
+      size: bytes.byteLength,
+      createdAt: Date.now(),
+      label,
+      content: bytes,
+    })
+
+    if (stored && typeof this.config.versionHistory === 'object') {
+      await this.pruneVersions(this.config.versionHistory)
+    }
   }
 
   /**
@@ -191,6 +310,50 @@ export class OneFS {
     return this.adapter.saveFileAs(content, options)
   }
 
+  /**
+   * Open a writable stream that replaces an existing file's content.
+   * Write Uint8Array chunks and call close() to commit.
+   *
+   * - web-fs-access: `createWritable()` (committed atomically on close)
+   * - tauri: incremental writes through a plugin-fs file handle
+   * - capacitor: chunked `appendFile` calls into the app's Documents directory
+   * - web-fallback: chunks are buffered into a Blob and downloaded on close
+   *
+   * Tauri and Capacitor truncate the file when the stream opens, so abort() there
+   * leaves it empty or partially written.
+   *
+   * @param file - The file to overwrite (must have handle/path from openFile)
+   * @param options - Save options (persist)
+   */
+  async createWriteStream(file: OneFSFile, options?: OneFSSaveOptions): Promise<OneFSResult<WritableStream<Uint8Array>>> {
+    if (!this.adapter.createWriteStream) {
+      return err('not_supported', `createWriteStream not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.createWriteStream(file, options)
+    } catch (e) {
+      return err('io_error', 'Failed to open write stream', e)
+    }
+  }
+
+  /**
+   * Open a save dialog and return a writable stream for the new file.
+   * Use for large generated exports that shouldn't be held in memory.
+   *
+   * @param options - Save options (suggestedName, accept, persist)
+   * @returns The new file (with empty content) and its writable stream
+   */
+  async saveFileAsStream(options?: OneFSSaveOptions): Promise<OneFSResult<OneFSWritableFile>> {
+    if (!this.adapter.saveFileAsStream) {
+      return err('not_supported', `saveFileAsStream not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.saveFileAsStream(options)
+    } catch (e) {
+      return err('io_error', 'Failed to open write stream', e)
+    }
+  }
+
   /**
    * Open a directory picker dialog.
    * Not available on web-fallback platform.
@@ -214,7 +377,13 @@ export class OneFS {
     if (!this.adapter.readDirectory) {
       return err('not_supported', `Directory operations not supported on ${this.adapter.platform}`)
     }
-    return this.adapter.readDirectory(directory, options)
+    const result = await this.adapter.readDirectory(directory, options)
+    if (result.ok && options?.hash) {
+      for (const entry of result.data) {
+        await this.hashEntry(entry, options)
+      }
+    }
+    return result
   }
 
   /**
@@ -223,7 +392,7 @@ export class OneFS {
    *
    * @param directory - Directory containing the file
    * @param entry - Entry from readDirectory() with kind === 'file'
-   * @param options - Optional: maxBytes to read only first N bytes (for metadata extraction)
+   * @param options - Optional: maxBytes to read only first N bytes (for metadata extraction, see capabilities.rangeReads)
    * @returns The file with content loaded
    */
   async readFileFromDirectory(directory: OneFSDirectory, entry: OneFSEntry, options?: { maxBytes?: number }): Promise<OneFSResult<OneFSFile>> {
@@ -234,8 +403,150 @@ export class OneFS {
   }
 
   /**
-   * Recursively scan a directory for files.
-   * Available on Tauri and Capacitor platforms.
+   * Look up a file or directory by its path relative to a directory, e.g. `sub/folder/file.txt`,
+   * without listing each level. `..` segments that climb out of the directory fail with
+   * `permission_denied`; missing entries with `not_found`.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   */
+  async getEntry(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>> {
+    if (!this.adapter.getEntry) {
+      return err('not_supported', `getEntry not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.getEntry(directory, relativePath)
+    } catch (e) {
+      return err('io_error', 'Failed to resolve path', e)
+    }
+  }
+
+  /**
+   * Read a file by its path relative to a directory - getEntry() followed by
+   * readFileFromDirectory().
+   *
+   * @param options - Optional: maxBytes to read only first N bytes
+   */
+  async readFileByPath(
+    directory: OneFSDirectory,
+    relativePath: string,
+    options?: { maxBytes?: number }
+  ): Promise<OneFSResult<OneFSFile>> {
+    const entry = await this.getEntry(directory, relativePath)
+    if (!entry.ok) return entry
+    if (entry.data.kind !== 'file') {
+      return err('io_error', `"${relativePath}" is a directory`)
+    }
+    return this.readFileFromDirectory(directory, entry.data, options)
+  }
+
+  /**
+   * Create a new file inside a directory.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   *
+   * - web-fs-access: `getFileHandle(name, { create: true })` (needs readwrite permission)
+   * - tauri: writes to `directory.path/name`
+   * - capacitor: writes under the directory in the app's Documents folder
+   *
+   * @param directory - Directory from openDirectory()
+   * @param name - File name (path separators are stripped)
+   * @param content - Content as string or Uint8Array
+   * @param options - overwrite (default false - fails with 'already_exists'), persist
+   * @returns The newly created file
+   */
+  async writeFileToDirectory(
+    directory: OneFSDirectory,
+    name: string,
+    content: Uint8Array | string,
+    options?: OneFSWriteOptions
+  ): Promise<OneFSResult<OneFSFile>> {
+    if (!this.adapter.writeFileToDirectory) {
+      return err('not_supported', `writeFileToDirectory not supported on ${this.adapter.platform}`)
+    }
+    if (!name || typeof name !== 'string') {
+      return err('io_error', 'File name must be a non-empty string')
+    }
+    try {
+      return await this.adapter.writeFileToDirectory(directory, name, content, options)
+    } catch (e) {
+      return err('io_error', 'Failed to write file', e)
+    }
+  }
+
+  /**
+   * Create a directory inside a parent directory.
+   * Check `capabilities.createDirectory` - on Capacitor this is limited to the Documents folder.
+   *
+   * @param parent - Directory from openDirectory()
+   * @param relativePath - Path relative to parent (e.g. "exports" or "exports/2024/march")
+   * @param options - recursive: create missing intermediate directories and succeed if it exists
+   * @returns The created (or, with recursive, existing) directory
+   */
+  async createDirectory(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options?: OneFSCreateDirectoryOptions
+  ): Promise<OneFSResult<OneFSDirectory>> {
+    if (!this.adapter.createDirectory) {
+      return err('not_supported', `createDirectory not supported on ${this.adapter.platform}`)
+    }
+    if (!relativePath || typeof relativePath !== 'string') {
+      return err('io_error', 'Directory path must be a non-empty string')
+    }
+    try {
+      return await this.adapter.createDirectory(parent, relativePath, options)
+    } catch (e) {
+      return err('io_error', 'Failed to create directory', e)
+    }
+  }
+
+  /**
+   * Open a byte stream over a file or directory entry without loading it into memory.
+   * Use for large media files where `file.content` would be too expensive.
+   *
+   * - web-fs-access / web-fallback: backed by `File.stream()`
+   * - tauri: chunked reads through a plugin-fs file handle
+   * - capacitor: chunked reads through the native file server
+   *
+   * @param target - File from openFile() or entry from readDirectory()/scanDirectory()
+   * @returns A ReadableStream yielding Uint8Array chunks
+   */
+  async openReadStream(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>> {
+    if (!this.adapter.openReadStream) {
+      return err('not_supported', `openReadStream not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.openReadStream(target)
+    } catch (e) {
+      return err('io_error', 'Failed to open read stream', e)
+    }
+  }
+
+  /**
+   * Read a byte range from a file or directory entry without loading the whole file.
+   * Returns fewer than `length` bytes when the range extends past the end of the file.
+   * Check `capabilities.rangeReads` - on Capacitor this is best effort.
+   *
+   * @param target - File from openFile() or entry from readDirectory()/scanDirectory()
+   * @param offset - Byte offset to start reading at
+   * @param length - Maximum number of bytes to read
+   */
+  async readRange(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>> {
+    if (!this.adapter.readRange) {
+      return err('not_supported', `readRange not supported on ${this.adapter.platform}`)
+    }
+    if (!Number.isInteger(offset) || !Number.isInteger(length) || offset < 0 || length < 0) {
+      return err('io_error', 'Offset and length must be non-negative integers')
+    }
+    try {
+      return await this.adapter.readRange(target, offset, length)
+    } catch (e) {
+      return err('io_error', 'Failed to read file range', e)
+    }
+  }
+
+  /**
+   * Recursively scan a directory for files and return them once the scan completes.
+   * Use walk() to process entries as they are found.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
    *
    * @param directory - Directory to scan
    * @param options - Scan options (extensions filter, progress callback, abort signal)
@@ -244,7 +555,112 @@ export class OneFS {
     if (!this.adapter.scanDirectory) {
       return err('not_supported', `Recursive scanning not supported on ${this.adapter.platform}`)
     }
-    return this.adapter.scanDirectory(directory, options)
+    const result = await this.adapter.scanDirectory(directory, options)
+    if (result.ok && options?.hash) {
+      for (const entry of result.data) {
+        await this.hashEntry(entry, options)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Recursively walk a directory, yielding file entries as they are discovered.
+   * Unlike scanDirectory(), results stream in while the walk runs - `break` out of
+   * the loop or abort `signal` to stop early.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   *
+   * Never throws: unreadable subdirectories and fatal errors (including
+   * `not_supported`) are reported through `options.onError`.
+   *
+   * @param directory - Directory to walk
+   * @param options - Same options as scanDirectory()
+   */
+  async *walk(directory: OneFSDirectory, options: OneFSScanOptions = {}): AsyncGenerator<OneFSEntry> {
+    if (!this.adapter.walk) {
+      options.onError?.(
+        directory.path ?? directory.name,
+        { code: 'not_supported', message: `Recursive scanning not supported on ${this.adapter.platform}` }
+      )
+      return
+    }
+    for await (const entry of this.adapter.walk(directory, options)) {
+      if (options.hash) {
+        await this.hashEntry(entry, options)
+      }
+      yield entry
+    }
+  }
+
+  /**
+   * Hash a file's content. Loaded files are digested in one SubtleCrypto call; lazy
+   * files and directory entries are streamed through openReadStream(), so large files
+   * are never held in memory (SHA-256 only - other algorithms buffer the stream).
+   *
+   * @param target - File from openFile() or entry from readDirectory()/scanDirectory()
+   * @param options - algorithm (default: 'SHA-256')
+   * @returns Lowercase hex digest
+   */
+  async hash(target: OneFSFile | OneFSEntry, options: OneFSHashOptions = {}): Promise<OneFSResult<string>> {
+    const algorithm = options.algorithm ?? 'SHA-256'
+    try {
+      if ('content' in target && target.content.byteLength === target.size) {
+        return ok(await hashBytes(target.content, algorithm))
+      }
+
+      const stream = await this.openReadStream(target)
+      if (!stream.ok) return stream
+      return ok(await hashStream(stream.data, algorithm))
+    } catch (e) {
+      return err('io_error', 'Failed to hash file', e)
+    }
+  }
+
+  /** Fill `entry.hash` for the `hash` read/scan option - failures go to onError */
+  private async hashEntry(entry: OneFSEntry, options: OneFSReadDirectoryOptions): Promise<void> {
+    if (entry.kind !== 'file') return
+    const algorithm = options.hash === true ? 'SHA-256' : options.hash || 'SHA-256'
+    const result = await this.hash(entry, { algorithm })
+    if (result.ok) {
+      entry.hash = result.data
+    } else {
+      options.onError?.(entry.path ?? entry.relativePath ?? entry.name, result.error)
+    }
+  }
+
+  /**
+   * Watch a directory for created, modified, deleted, and renamed entries.
+   * Check `capabilities.watch` - Tauri uses native events, web-fs-access uses
+   * FileSystemObserver (polling where unavailable), and Capacitor polls.
+   * Active watchers are stopped by dispose().
+   *
+   * @param directory - Directory from openDirectory()
+   * @param options - recursive, pollInterval, debounceMs (Tauri), onError
+   * @param callback - Called once per change event
+   * @returns Function that stops watching
+   */
+  async watch(
+    directory: OneFSDirectory,
+    options: OneFSWatchOptions,
+    callback: OneFSWatchCallback
+  ): Promise<OneFSResult<() => void>> {
+    if (!this.adapter.watch) {
+      return err('not_supported', `watch not supported on ${this.adapter.platform}`)
+    }
+    try {
+      const result = await this.adapter.watch(directory, options, callback)
+      if (!result.ok) return result
+
+      const stop = result.data
+      const unwatch = () => {
+        this.watchers.delete(unwatch)
+        stop()
+      }
+      this.watchers.add(unwatch)
+      return ok(unwatch)
+    } catch (e) {
+      return err('io_error', 'Failed to watch directory', e)
+    }
   }
 
   /**
@@ -302,9 +718,12 @@ export class OneFS {
    * On other platforms: Returns cached content from IndexedDB
    *
    * @param stored - Handle from getRecentFiles()
+   * @param options - Pass `loadContent: false` to get a lazy file without reading content
    */
-  async restoreFile(stored: StoredHandle): Promise<OneFSResult<OneFSFile>> {
-    return this.adapter.restoreFile(stored)
+  async restoreFile(stored: StoredHandle, options: OneFSRestoreOptions & { loadContent: false }): Promise<OneFSResult<OneFSLazyFile>>
+  async restoreFile(stored: StoredHandle, options?: OneFSRestoreOptions): Promise<OneFSResult<OneFSFile>>
+  async restoreFile(stored: StoredHandle, options?: OneFSRestoreOptions): Promise<OneFSResult<OneFSFile>> {
+    return this.adapter.restoreFile(stored, options)
   }
 
   /**
@@ -389,20 +808,140 @@ export class OneFS {
   }
 
   /**
-   * Delete a file and remove it from storage.
+   * Delete a file and remove it from storage. With `trash` (per call or in the config)
+   * the file is moved to the app's trash instead - see listTrash().
    * Available on web-fs-access, Tauri, and Capacitor platforms.
    */
-  async deleteFile(file: OneFSFile): Promise<OneFSResult<boolean>> {
+  async deleteFile(file: OneFSFile, options?: OneFSDeleteFileOptions): Promise<OneFSResult<boolean>> {
     if (!this.adapter.deleteFile) {
       return err('not_supported', `deleteFile not supported on ${this.adapter.platform}`)
     }
     try {
-      return await this.adapter.deleteFile(file)
+      const trash = options?.trash ?? this.config.trash ?? false
+      return await this.adapter.deleteFile(file, { ...options, trash })
     } catch (e) {
       return err('io_error', 'Failed to delete file', e)
     }
   }
 
+  /**
+   * List files moved to the trash by deleteFile(), newest first.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   */
+  async listTrash(): Promise<OneFSResult<OneFSTrashItem[]>> {
+    if (!this.adapter.listTrash) {
+      return err('not_supported', `listTrash not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.listTrash()
+    } catch (e) {
+      return err('io_error', 'Failed to list trash', e)
+    }
+  }
+
+  /**
+   * Move a trashed file back to its original location. Fails with 'already_exists'
+   * if a file has been created there since (Tauri/Capacitor). On web-fs-access the
+   * content is written back through the original handle, or a save dialog if that fails.
+   * @returns The restored file
+   */
+  async restoreFromTrash(item: OneFSTrashItem): Promise<OneFSResult<OneFSFile>> {
+    if (!this.adapter.restoreFromTrash) {
+      return err('not_supported', `restoreFromTrash not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.restoreFromTrash(item)
+    } catch (e) {
+      return err('io_error', 'Failed to restore file from trash', e)
+    }
+  }
+
+  /**
+   * Permanently delete trashed files, optionally only those trashed before `olderThan`.
+   * @returns Number of items removed
+   */
+  async emptyTrash(options?: OneFSEmptyTrashOptions): Promise<OneFSResult<number>> {
+    if (!this.adapter.emptyTrash) {
+      return err('not_supported', `emptyTrash not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.emptyTrash(options)
+    } catch (e) {
+      return err('io_error', 'Failed to empty trash', e)
+    }
+  }
+
+  /**
+   * Delete a file or directory entry from a directory.
+   * Unlike deleteFile(), works on entries from readDirectory()/scanDirectory() without loading them.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   *
+   * @param directory - Directory containing the entry
+   * @param entry - Entry to delete (file or directory)
+   * @param options - recursive: required to delete non-empty directories
+   */
+  async deleteEntry(directory: OneFSDirectory, entry: OneFSEntry, options?: OneFSDeleteOptions): Promise<OneFSResult<boolean>> {
+    if (!this.adapter.deleteEntry) {
+      return err('not_supported', `deleteEntry not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.deleteEntry(directory, entry, options)
+    } catch (e) {
+      return err('io_error', 'Failed to delete entry', e)
+    }
+  }
+
+  /**
+   * Move a file or directory entry into another directory.
+   * On web-fs-access, browsers without cross-directory move() fall back to copy + delete.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   *
+   * @param entry - Entry to move (from readDirectory()/scanDirectory())
+   * @param targetDirectory - Destination directory
+   * @param newName - Optional new name (defaults to the entry's name)
+   * @param options - overwrite, onProgress (when falling back to copy), signal
+   */
+  async moveEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options?: OneFSTransferOptions
+  ): Promise<OneFSResult<OneFSEntry>> {
+    if (!this.adapter.moveEntry) {
+      return err('not_supported', `moveEntry not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.moveEntry(entry, targetDirectory, newName, options)
+    } catch (e) {
+      return err('io_error', 'Failed to move entry', e)
+    }
+  }
+
+  /**
+   * Copy a file or directory entry into another directory. Directories are copied recursively.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   *
+   * @param entry - Entry to copy (from readDirectory()/scanDirectory())
+   * @param targetDirectory - Destination directory
+   * @param newName - Optional new name (defaults to the entry's name)
+   * @param options - overwrite, onProgress(copied, total) counted in files, signal
+   */
+  async copyEntry(
+    entry: OneFSEntry,
+    targetDirectory: OneFSDirectory,
+    newName?: string,
+    options?: OneFSTransferOptions
+  ): Promise<OneFSResult<OneFSEntry>> {
+    if (!this.adapter.copyEntry) {
+      return err('not_supported', `copyEntry not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.copyEntry(entry, targetDirectory, newName, options)
+    } catch (e) {
+      return err('io_error', 'Failed to copy entry', e)
+    }
+  }
+
   /**
    * Rename a file and update storage.
    * Available on web-fs-access, Tauri, and Capacitor platforms.
@@ -421,6 +960,120 @@ export class OneFS {
     }
   }
 
+  /**
+   * List the backups saveFile() kept of a file, newest first.
+   * Available on web-fs-access, Tauri, and Capacitor platforms.
+   */
+  async listBackups(file: OneFSFile): Promise<OneFSResult<OneFSBackup[]>> {
+    if (!this.adapter.listBackups) {
+      return err('not_supported', `listBackups not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.listBackups(file)
+    } catch (e) {
+      return err('io_error', 'Failed to list backups', e)
+    }
+  }
+
+  /**
+   * Write a backup from listBackups() back over the file. The version being replaced
+   * is backed up first, so a restore can itself be undone.
+   * @returns The file with the restored content
+   */
+  async restoreBackup(file: OneFSFile, backup: OneFSBackup): Promise<OneFSResult<OneFSFile>> {
+    if (!this.adapter.restoreBackup) {
+      return err('not_supported', `restoreBackup not supported on ${this.adapter.platform}`)
+    }
+    try {
+      return await this.adapter.restoreBackup(file, backup)
+    } catch (e) {
+      return err('io_error', 'Failed to restore backup', e)
+    }
+  }
+
+  /**
+   * Rename a directory and update stored records (recent directories and files inside it).
+   * Accepts a directory from openDirectory() or a directory entry from readDirectory().
+   * Available on web-fs-access (where FileSystemHandle.move() exists), Tauri, and Capacitor platforms.
+   */
+  async renameDirectory(target: OneFSDirectory | OneFSEntry, newName: string): Promise<OneFSResult<OneFSDirectory>> {
+    if (!this.adapter.renameDirectory) {
+      return err('not_supported', `renameDirectory not supported on ${this.adapter.platform}`)
+    }
+    if (!newName || typeof newName !== 'string') {
+      return err('io_error', 'New name must be a non-empty string')
+    }
+    try {
+      return await this.adapter.renameDirectory(target, newName)
+    } catch (e) {
+      return err('io_error', 'Failed to rename directory', e)
+    }
+  }
+
+  /**
+   * List the versions recorded for a file by saveFile(), newest first.
+   * Works on every platform - versions live in IndexedDB and are keyed by file id.
+   */
+  async getVersions(file: OneFSFile): Promise<OneFSResult<OneFSVersion[]>> {
+    try {
+      return ok(await this.getHistory().listVersions(file.id))
+    } catch (e) {
+      return err('io_error', 'Failed to list versions', e)
+    }
+  }
+
+  /**
+   * Read the content of one version of a file.
+   */
+  async readVersion(file: OneFSFile, versionId: string): Promise<OneFSResult<Uint8Array>> {
+    try {
+      const version = await this.getHistory().getVersion(versionId)
+      if (!version || version.fileId !== file.id) {
+        return err('not_found', 'Version not found for this file')
+      }
+      return ok(version.content)
+    } catch (e) {
+      return err('io_error', 'Failed to read version', e)
+    }
+  }
+
+  /**
+   * Save an earlier version's content over the file with saveFile(), which records
+   * the revert as a new version. On web-fallback this triggers a download.
+   * @returns The file with the reverted content
+   */
+  async revertToVersion(
+    file: OneFSFile,
+    versionId: string,
+    options?: OneFSSaveOptions
+  ): Promise<OneFSResult<OneFSFile>> {
+    const version = await this.readVersion(file, versionId)
+    if (!version.ok) return version
+
+    const content = version.data
+    const saved = await this.saveFile(file, content, options)
+    if (!saved.ok) return saved
+
+    return ok({ ...file, content, size: content.byteLength, lastModified: Date.now() })
+  }
+
+  /**
+   * Remove versions of all files by age, per-file count, or total size.
+   * @returns Number of versions removed
+   */
+  async pruneVersions(options: OneFSPruneVersionsOptions): Promise<OneFSResult<number>> {
+    try {
+      const history = this.getHistory()
+      const ids = selectVersionsToPrune(await history.listVersions(), options)
+      if (ids.length > 0) {
+        await history.removeVersions(ids)
+      }
+      return ok(ids.length)
+    } catch (e) {
+      return err('io_error', 'Failed to prune versions', e)
+    }
+  }
+
   /**
    * Remove a file from the recent files list.
    */
@@ -436,7 +1089,12 @@ export class OneFS {
   }
 
   dispose(): void {
+    for (const unwatch of this.watchers) {
+      unwatch()
+    }
+    this.watchers.clear()
     this.adapter.dispose?.()
+    this.history?.dispose()
   }
 
   // ─────────────────────────────────────────────────────────────
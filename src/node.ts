@@ -0,0 +1,24 @@
+/**
+ * Node.js entry - `import 'onefs/node'` registers NodeAdapter with platform detection.
+ * It lives apart from the main entry so browser bundles never see node: imports.
+ *
+ * @example
+ * ```typescript
+ * import { createOneFS } from 'onefs'
+ * import 'onefs/node'
+ *
+ * const fs = createOneFS({ appName: 'mycli' })   // platform 'node' when there is no DOM
+ * ```
+ */
+import { NodeAdapter } from './adapters/node'
+import { registerAdapter } from './registry'
+
+export type { OneFSNodeOptions, OneFSPrompt, OneFSPromptRequest } from './types'
+export { NodeAdapter }
+
+registerAdapter(
+  'node',
+  ({ appName, maxRecentFiles, persistByDefault, node }) =>
+    new NodeAdapter(appName, maxRecentFiles, persistByDefault, node),
+  { priority: 5 }
+)
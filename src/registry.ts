@@ -0,0 +1,118 @@
+import type {
+  OneFSAdapter,
+  OneFSAdapterFactory,
+  OneFSCapabilities,
+  OneFSConfig,
+  OneFSRegisterAdapterOptions,
+  Platform,
+} from './types'
+import { FSAccessAdapter } from './adapters/fs-access'
+import { PickerIDBAdapter } from './adapters/picker-idb'
+import { TauriAdapter } from './adapters/tauri'
+import { CapacitorAdapter } from './adapters/capacitor'
+import { ElectronAdapter } from './adapters/electron'
+import { MemoryAdapter } from './adapters/memory'
+
+export interface AdapterRegistration {
+  platform: Platform
+  factory: OneFSAdapterFactory
+  priority: number
+  capabilities?: Partial<OneFSCapabilities>
+  /** Registration sequence - breaks priority ties in favour of the earlier registration */
+  order: number
+}
+
+const registry = new Map<Platform, AdapterRegistration>()
+let registrations = 0
+
+/**
+ * Add an adapter to platform detection, or replace the one registered for `platform`.
+ * createOneFS() tries registered adapters from the highest priority down and uses the
+ * first whose isSupported() returns true; `preferredAdapter` picks one by id.
+ *
+ * @returns A function that unregisters the adapter and restores the one it replaced
+ *
+ * @example
+ * ```typescript
+ * registerAdapter('my-platform', (config) => new MyAdapter(config.appName), { priority: 60 })
+ * ```
+ */
+export function registerAdapter(
+  platform: Platform,
+  factory: OneFSAdapterFactory,
+  options: OneFSRegisterAdapterOptions = {}
+): () => void {
+  const previous = registry.get(platform)
+  const registration: AdapterRegistration = {
+    platform,
+    factory,
+    priority: options.priority ?? 0,
+    capabilities: options.capabilities,
+    order: registrations++,
+  }
+  registry.set(platform, registration)
+
+  return () => {
+    if (registry.get(platform) !== registration) return
+    if (previous) {
+      registry.set(platform, previous)
+    } else {
+      registry.delete(platform)
+    }
+  }
+}
+
+export function getAdapterRegistration(platform: Platform): AdapterRegistration | undefined {
+  return registry.get(platform)
+}
+
+/** Registered adapters in detection order */
+export function getAdapterRegistrations(): AdapterRegistration[] {
+  return [...registry.values()].sort((a, b) => b.priority - a.priority || a.order - b.order)
+}
+
+/** Create an adapter, applying the capability overrides it was registered with */
+export function createAdapter(registration: AdapterRegistration, config: OneFSConfig): OneFSAdapter {
+  const adapter = registration.factory(config)
+  if (registration.capabilities) {
+    adapter.capabilities = { ...adapter.capabilities, ...registration.capabilities }
+  }
+  return adapter
+}
+
+// Ahead of web-fs-access - Electron renderers have showOpenFilePicker too, but no real paths
+registerAdapter(
+  'electron',
+  ({ appName, maxRecentFiles, persistByDefault }) => new ElectronAdapter(appName, maxRecentFiles, persistByDefault),
+  { priority: 50 }
+)
+registerAdapter(
+  'tauri',
+  ({ appName, maxRecentFiles, persistByDefault, backups }) =>
+    new TauriAdapter(appName, maxRecentFiles, persistByDefault, backups),
+  { priority: 40 }
+)
+registerAdapter(
+  'capacitor',
+  ({ appName, maxRecentFiles, persistByDefault, backups }) =>
+    new CapacitorAdapter(appName, maxRecentFiles, persistByDefault, backups),
+  { priority: 30 }
+)
+registerAdapter(
+  'web-fs-access',
+  ({ appName, maxRecentFiles, persistByDefault, backups }) =>
+    new FSAccessAdapter(appName, maxRecentFiles, persistByDefault, backups),
+  { priority: 20 }
+)
+registerAdapter(
+  'web-fallback',
+  ({ appName, maxRecentFiles, persistByDefault }) => new PickerIDBAdapter(appName, maxRecentFiles, persistByDefault),
+  { priority: 10 }
+)
+// 'node' (priority 5) is registered by the onefs/node entry, keeping node: imports out of browser bundles
+// Always supported - the last resort when no DOM or native APIs exist (e.g. server-side rendering)
+registerAdapter(
+  'memory',
+  ({ appName, maxRecentFiles, persistByDefault }) => new MemoryAdapter(appName, maxRecentFiles, persistByDefault),
+  { priority: -1 }
+)
@@ -0,0 +1,192 @@
+import type { OneFSScanOptions } from './types'
+
+const DEFAULT_IGNORE_FILES = ['.gitignore', '.onefsignore']
+
+interface IgnoreRule {
+  regex: RegExp
+  negate: boolean
+  directoryOnly: boolean
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Convert a glob to a RegExp matched against a relative path with `/` separators.
+ * Supports `*`, `?`, `**`, `[abc]` / `[!abc]`, `{a,b}` and backslash escapes. A trailing `/**` also
+ * matches the directory itself, so `node_modules/**` prunes `node_modules`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[i + 1])
+      i += 1
+    } else if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/'
+        if (atSegmentStart && pattern[i + 2] === '/') {
+          source += '(?:.*/)?'
+          i += 2
+        } else if (atSegmentStart && i + 2 === pattern.length && source.endsWith('/')) {
+          source = source.slice(0, -1) + '(?:/.*)?'
+          i += 1
+        } else {
+          source += '.*'
+          i += 1
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\')
+        source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`
+        i = end
+      }
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i + 1)
+      if (end === -1) {
+        source += '\\{'
+      } else {
+        const options = pattern.slice(i + 1, end).split(',').map(escapeRegExp)
+        source += `(?:${options.join('|')})`
+        i = end
+      }
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/** Patterns without a slash match the entry name at any depth, like `*.md` */
+function compilePattern(pattern: string): RegExp {
+  const trimmed = pattern.replace(/^\.?\//, '')
+  return globToRegExp(trimmed.includes('/') ? trimmed : `**/${trimmed}`)
+}
+
+/**
+ * Parse a .gitignore-style file. Rules are scoped to `base`, the path of the
+ * directory containing the file relative to the scan root ('' for the root).
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = []
+  const prefix = base ? `${escapeGlob(base)}/` : ''
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '')
+    if (!line || line.startsWith('#')) continue
+
+    const negate = line.startsWith('!')
+    if (negate) line = line.slice(1)
+    if (line.startsWith('\\')) line = line.slice(1)
+
+    const directoryOnly = line.endsWith('/')
+    if (directoryOnly) line = line.slice(0, -1)
+    if (!line) continue
+
+    const anchored = line.includes('/')
+    const pattern = anchored ? `${prefix}${line.replace(/^\//, '')}` : `${prefix}**/${line}`
+    rules.push({ regex: globToRegExp(pattern), negate, directoryOnly })
+  }
+
+  return rules
+}
+
+function escapeGlob(path: string): string {
+  return path.replace(/[*?[\]{}]/g, '\\$&')
+}
+
+/**
+ * Path and metadata filters for scanDirectory()/walk(), shared by every adapter.
+ * Adapters call skipDirectory() before descending so excluded and ignored
+ * subtrees are never read.
+ */
+export class ScanFilter {
+  readonly ignoreFileNames: string[]
+
+  private constructor(
+    private options: OneFSScanOptions,
+    private extensionSet: Set<string> | null,
+    private include: RegExp[],
+    private exclude: RegExp[],
+    private rules: IgnoreRule[]
+  ) {
+    this.ignoreFileNames = options.ignoreFiles === true
+      ? DEFAULT_IGNORE_FILES
+      : Array.isArray(options.ignoreFiles) ? options.ignoreFiles : []
+  }
+
+  static create(options: OneFSScanOptions = {}): ScanFilter {
+    const { extensions, include = [], exclude = [] } = options
+    const extensionSet = extensions?.length
+      ? new Set(extensions.map((e) => e.toLowerCase().replace(/^\./, '')))
+      : null
+
+    return new ScanFilter(
+      options,
+      extensionSet,
+      include.filter((p) => !p.startsWith('!')).map(compilePattern),
+      [...exclude, ...include.filter((p) => p.startsWith('!')).map((p) => p.slice(1))].map(compilePattern),
+      []
+    )
+  }
+
+  /** Add the rules of an ignore file found in `base` - applies to that directory and below */
+  withIgnoreFile(base: string, content: string): ScanFilter {
+    const rules = parseIgnoreFile(content, base)
+    if (rules.length === 0) return this
+    return new ScanFilter(this.options, this.extensionSet, this.include, this.exclude, [...this.rules, ...rules])
+  }
+
+  skipDirectory(path: string): boolean {
+    return this.exclude.some((regex) => regex.test(path)) || this.isIgnored(path, true)
+  }
+
+  /** Name-based checks, run before any stat call */
+  matchesPath(path: string): boolean {
+    if (this.extensionSet) {
+      const ext = path.split('.').pop()?.toLowerCase()
+      if (!ext || !this.extensionSet.has(ext)) return false
+    }
+    if (this.include.length > 0 && !this.include.some((regex) => regex.test(path))) return false
+    if (this.exclude.some((regex) => regex.test(path))) return false
+    return !this.isIgnored(path, false)
+  }
+
+  /** Size and date checks - entries without metadata (skipStats) always pass */
+  matchesStats(size?: number, lastModified?: number): boolean {
+    const { minSize, maxSize, modifiedSince } = this.options
+    if (size !== undefined) {
+      if (minSize !== undefined && size < minSize) return false
+      if (maxSize !== undefined && size > maxSize) return false
+    }
+    if (lastModified !== undefined && modifiedSince !== undefined) {
+      const since = modifiedSince instanceof Date ? modifiedSince.getTime() : modifiedSince
+      if (lastModified < since) return false
+    }
+    return true
+  }
+
+  private isIgnored(path: string, isDirectory: boolean): boolean {
+    let ignored = false
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue
+      if (rule.regex.test(path)) {
+        ignored = !rule.negate
+      }
+    }
+    return ignored
+  }
+}
@@ -1,6 +1,6 @@
-import type { StoredHandle, StoredFile } from '../types'
+import type { StoredHandle, StoredFile, StoredBackup, StoredVersion, OneFSVersion, StoredTrashItem } from '../types'
 
-const DB_VERSION = 2
+const DB_VERSION = 5
 const PRUNE_BUFFER = 5
 
 export class IDBStorage {
@@ -50,6 +50,20 @@ export class IDBStorage {
         if (!db.objectStoreNames.contains('namedHandles')) {
           db.createObjectStore('namedHandles', { keyPath: 'key' })
         }
+
+        if (!db.objectStoreNames.contains('backups')) {
+          const backupStore = db.createObjectStore('backups', { keyPath: 'id' })
+          backupStore.createIndex('fileKey', 'fileKey', { unique: false })
+        }
+
+        if (!db.objectStoreNames.contains('versions')) {
+          const versionStore = db.createObjectStore('versions', { keyPath: 'id' })
+          versionStore.createIndex('fileId', 'fileId', { unique: false })
+        }
+
+        if (!db.objectStoreNames.contains('trash')) {
+          db.createObjectStore('trash', { keyPath: 'id' })
+        }
       }
     })
   }
@@ -118,6 +132,29 @@ export class IDBStorage {
     })
   }
 
+  async updateHandle(
+    id: string,
+    handle: FileSystemFileHandle | FileSystemDirectoryHandle
+  ): Promise<void> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(['handles', 'handleObjects'], 'readwrite')
+      tx.onerror = () => reject(tx.error)
+
+      const handleStore = tx.objectStore('handles')
+      const request = handleStore.get(id)
+      request.onsuccess = () => {
+        const existing = request.result as StoredHandle | undefined
+        if (!existing) return
+        handleStore.put({ ...existing, name: handle.name })
+        tx.objectStore('handleObjects').put({ id, handle })
+      }
+
+      tx.oncomplete = () => resolve()
+    })
+  }
+
   async removeHandle(id: string): Promise<void> {
     const db = await this.getDB()
 
@@ -263,6 +300,204 @@ export class IDBStorage {
     })
   }
 
+  /** Store a backup - skipped like cached files when larger than the cache limit */
+  async storeBackup(backup: StoredBackup): Promise<boolean> {
+    if (backup.content.byteLength > this.maxCacheSize) return false
+
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('backups', 'readwrite')
+      tx.onerror = () => reject(tx.error)
+
+      tx.objectStore('backups').put(backup)
+
+      tx.oncomplete = () => resolve(true)
+    })
+  }
+
+  /** Backups of one file, newest first */
+  async getBackups(fileKey: string): Promise<StoredBackup[]> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('backups', 'readonly')
+      const request = tx.objectStore('backups').index('fileKey').getAll(fileKey)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const backups = request.result as StoredBackup[]
+        resolve(backups.sort((a, b) => b.createdAt - a.createdAt))
+      }
+    })
+  }
+
+  async getBackup(id: string): Promise<StoredBackup | null> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('backups', 'readonly')
+      const request = tx.objectStore('backups').get(id)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result ?? null)
+    })
+  }
+
+  async removeBackups(ids: string[]): Promise<void> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('backups', 'readwrite')
+      tx.onerror = () => reject(tx.error)
+
+      const store = tx.objectStore('backups')
+      for (const id of ids) {
+        store.delete(id)
+      }
+
+      tx.oncomplete = () => resolve()
+    })
+  }
+
+  /** Store a version - skipped like cached files when larger than the cache limit */
+  async storeVersion(version: StoredVersion): Promise<boolean> {
+    if (version.content.byteLength > this.maxCacheSize) return false
+
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('versions', 'readwrite')
+      tx.onerror = () => reject(tx.error)
+
+      tx.objectStore('versions').put(version)
+
+      tx.oncomplete = () => resolve(true)
+    })
+  }
+
+  /**
+   * Version metadata for one file, or for every file when `fileId` is omitted, newest first.
+   * Walks a cursor so content is never held for more than one version at a time.
+   */
+  async listVersions(fileId?: string): Promise<OneFSVersion[]> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('versions', 'readonly')
+      const store = tx.objectStore('versions')
+      const request = fileId === undefined ? store.openCursor() : store.index('fileId').openCursor(fileId)
+      const versions: OneFSVersion[] = []
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) {
+          resolve(versions.sort((a, b) => b.createdAt - a.createdAt))
+          return
+        }
+        const { content: _content, ...version } = cursor.value as StoredVersion
+        versions.push(version)
+        cursor.continue()
+      }
+    })
+  }
+
+  async getVersion(id: string): Promise<StoredVersion | null> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('versions', 'readonly')
+      const request = tx.objectStore('versions').get(id)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result ?? null)
+    })
+  }
+
+  async removeVersions(ids: string[]): Promise<void> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('versions', 'readwrite')
+      tx.onerror = () => reject(tx.error)
+
+      const store = tx.objectStore('versions')
+      for (const id of ids) {
+        store.delete(id)
+      }
+
+      tx.oncomplete = () => resolve()
+    })
+  }
+
+  /** Store a trash item - refused when its content is larger than the cache limit */
+  async storeTrashItem(item: StoredTrashItem): Promise<boolean> {
+    if (item.content && item.content.byteLength > this.maxCacheSize) return false
+
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('trash', 'readwrite')
+      tx.onerror = () => reject(tx.error)
+
+      tx.objectStore('trash').put(item)
+
+      tx.oncomplete = () => resolve(true)
+    })
+  }
+
+  /** All trash items without their content, newest first */
+  async listTrashItems(): Promise<StoredTrashItem[]> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('trash', 'readonly')
+      const request = tx.objectStore('trash').openCursor()
+      const items: StoredTrashItem[] = []
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const cursor = request.result
+        if (!cursor) {
+          resolve(items.sort((a, b) => b.deletedAt - a.deletedAt))
+          return
+        }
+        const { content: _content, ...item } = cursor.value as StoredTrashItem
+        items.push(item)
+        cursor.continue()
+      }
+    })
+  }
+
+  async getTrashItem(id: string): Promise<StoredTrashItem | null> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('trash', 'readonly')
+      const request = tx.objectStore('trash').get(id)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result ?? null)
+    })
+  }
+
+  async removeTrashItems(ids: string[]): Promise<void> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('trash', 'readwrite')
+      tx.onerror = () => reject(tx.error)
+
+      const store = tx.objectStore('trash')
+      for (const id of ids) {
+        store.delete(id)
+      }
+
+      tx.oncomplete = () => resolve()
+    })
+  }
+
   async setNamedHandle(
     key: string,
     handle: FileSystemFileHandle | FileSystemDirectoryHandle
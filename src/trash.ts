@@ -0,0 +1,16 @@
+import type { OneFSEmptyTrashOptions, OneFSTrashItem, StoredTrashItem } from './types'
+
+export const TRASH_FOLDER = 'trash'
+
+export function toTrashItem({ id, name, originalPath, size, deletedAt }: StoredTrashItem): OneFSTrashItem {
+  return originalPath === undefined
+    ? { id, name, size, deletedAt }
+    : { id, name, originalPath, size, deletedAt }
+}
+
+/** Trash items emptyTrash() should remove */
+export function selectExpiredTrash<T extends OneFSTrashItem>(items: T[], options: OneFSEmptyTrashOptions = {}): T[] {
+  if (options.olderThan === undefined) return items
+  const cutoff = options.olderThan instanceof Date ? options.olderThan.getTime() : options.olderThan
+  return items.filter((item) => item.deletedAt < cutoff)
+}
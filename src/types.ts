@@ -3,6 +3,8 @@ export type OneFSErrorCode =
   | 'permission_denied'
   | 'not_supported'
   | 'not_found'
+  | 'already_exists'
+  | 'conflict'
   | 'io_error'
   | 'unknown'
 
@@ -10,6 +12,16 @@ export interface OneFSError {
   code: OneFSErrorCode
   message: string
   cause?: unknown
+  /** The file's current on-disk metadata ('conflict' errors only) */
+  current?: OneFSFileStat
+}
+
+/**
+ * On-disk size and modification time of a file.
+ */
+export interface OneFSFileStat {
+  size: number
+  lastModified: number
 }
 
 export type OneFSResult<T> =
@@ -56,6 +68,21 @@ export interface OneFSFile {
   handle?: FileSystemFileHandle
 }
 
+/**
+ * A file opened with `loadContent: false`.
+ * Metadata (name, size, lastModified) and handle/path are populated, but `content`
+ * is empty - use the accessors to fetch content on demand. Nothing is cached, so each
+ * call reads from disk again.
+ */
+export interface OneFSLazyFile extends OneFSFile {
+  /** Read the full file content */
+  read(): Promise<OneFSResult<Uint8Array>>
+  /** Read the full file content as a UTF-8 string */
+  text(): Promise<OneFSResult<string>>
+  /** Open a chunked stream over the file content (see openReadStream) */
+  stream(): Promise<OneFSResult<ReadableStream<Uint8Array>>>
+}
+
 /**
  * Represents a directory entry without loaded content.
  * Use `readFileFromDirectory()` to load a specific file's content.
@@ -73,6 +100,19 @@ export interface OneFSEntry {
   path?: string
   /** Native handle (web-fs-access only) */
   handle?: FileSystemHandle
+  /** Path relative to the scanned directory with `/` separators (scanDirectory/walk results only) */
+  relativePath?: string
+  /** Nesting level below the scanned directory - 0 for its direct children (scanDirectory/walk results only) */
+  depth?: number
+  /** Hex content digest (files only, when the `hash` read/scan option is set) */
+  hash?: string
+}
+
+export type OneFSHashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'
+
+export interface OneFSHashOptions {
+  /** Digest algorithm (default: 'SHA-256' - the only one hashed incrementally when streaming) */
+  algorithm?: OneFSHashAlgorithm
 }
 
 export interface OneFSOpenOptions {
@@ -84,6 +124,18 @@ export interface OneFSOpenOptions {
   startIn?: 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos'
   /** Whether to persist file/handle for later restoration (default: true) */
   persist?: boolean
+  /**
+   * Whether to read file content before returning (default: true).
+   * When false, returns OneFSLazyFile objects with metadata only and lazy read()/text()/stream().
+   */
+  loadContent?: boolean
+  /** Open these paths instead of asking the prompt (node only) */
+  path?: string | string[]
+}
+
+export interface OneFSRestoreOptions {
+  /** Whether to read file content before returning (default: true) - see OneFSOpenOptions.loadContent */
+  loadContent?: boolean
 }
 
 export interface OneFSSaveOptions {
@@ -95,6 +147,102 @@ export interface OneFSSaveOptions {
   startIn?: 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos'
   /** Whether to persist file/handle for later restoration (default: true) */
   persist?: boolean
+  /**
+   * Refuse to write with a 'conflict' error if the file changed on disk after this
+   * timestamp - usually `file.lastModified` (web-fs-access and Tauri only)
+   */
+  ifUnmodifiedSince?: number
+  /**
+   * Write to a sibling temp file and rename it over the target so an interrupted save
+   * never leaves a truncated file (Tauri/Capacitor, default: true). web-fs-access
+   * writables already commit through a swap file.
+   */
+  atomic?: boolean
+  /** Keep the previous version before overwriting - set false to skip it for this save (default: true when backups are configured) */
+  backup?: boolean
+  /** Label for the version recorded by this save (requires `versionHistory`) */
+  versionLabel?: string
+  /** saveFileAs() target path, used instead of asking the prompt (node only) */
+  path?: string
+}
+
+/**
+ * Where saveFile() keeps previous versions:
+ * - 'sibling': `doc.txt~` next to the file (a single backup)
+ * - 'folder': a `.backups/` folder next to the file
+ * - 'idb': IndexedDB, keyed by path (Tauri/Capacitor) or file id (web-fs-access)
+ */
+export type OneFSBackupLocation = 'sibling' | 'folder' | 'idb'
+
+export interface OneFSBackupConfig {
+  /** Where backups are kept (default: 'folder'). web-fs-access can't reach a file's folder and always uses 'idb' */
+  location?: OneFSBackupLocation
+  /** Backups kept per file - older ones are deleted after each save (default: 5) */
+  maxBackups?: number
+}
+
+/**
+ * A previous version of a file, as returned by listBackups().
+ */
+export interface OneFSBackup {
+  /** Backup path for 'sibling' and 'folder' backups, IndexedDB key for 'idb' */
+  id: string
+  /** Name of the file that was backed up */
+  name: string
+  /** Backup file path ('sibling' and 'folder' only) */
+  path?: string
+  size: number
+  /** When the backup was taken */
+  createdAt: number
+  location: OneFSBackupLocation
+}
+
+export interface OneFSWriteOptions {
+  /** Replace the file if it already exists (default: false - fails with 'already_exists') */
+  overwrite?: boolean
+  /** Whether to persist the new file for later restoration (default: true) */
+  persist?: boolean
+}
+
+export interface OneFSCreateDirectoryOptions {
+  /** Create missing intermediate directories and succeed if the directory exists, like mkdir -p (default: false) */
+  recursive?: boolean
+}
+
+export interface OneFSDeleteOptions {
+  /** Delete directories together with their contents (default: false - non-empty directories fail) */
+  recursive?: boolean
+}
+
+export interface OneFSDeleteFileOptions {
+  /** Move the file to the app's trash instead of deleting it (default: `OneFSConfig.trash`) */
+  trash?: boolean
+}
+
+/**
+ * A file moved to the trash by deleteFile(), as returned by listTrash().
+ */
+export interface OneFSTrashItem {
+  id: string
+  name: string
+  /** Where the file was before it was trashed (Tauri/Capacitor only) */
+  originalPath?: string
+  size: number
+  deletedAt: number
+}
+
+export interface OneFSEmptyTrashOptions {
+  /** Only remove items trashed before this time (default: everything) */
+  olderThan?: number | Date
+}
+
+export interface OneFSTransferOptions {
+  /** Replace an existing entry with the same name in the target directory, once the transfer succeeds (default: false) */
+  overwrite?: boolean
+  /** Callback for progress updates while copying - counts files, including when a move falls back to copy */
+  onProgress?: (copied: number, total: number) => void
+  /** AbortSignal for cancelling recursive copies between files */
+  signal?: AbortSignal
 }
 
 export interface OneFSDirectoryOptions {
@@ -104,6 +252,8 @@ export interface OneFSDirectoryOptions {
   mode?: 'read' | 'readwrite'
   /** Whether to persist directory handle for later restoration (default: true) */
   persist?: boolean
+  /** Open this directory instead of asking the prompt (node only) */
+  path?: string
 }
 
 export interface OneFSReadDirectoryOptions {
@@ -111,6 +261,8 @@ export interface OneFSReadDirectoryOptions {
   skipStats?: boolean
   /** Callback for errors encountered while reading entries (e.g. stat failures) */
   onError?: (path: string, error: unknown) => void
+  /** Fill `hash` on file entries - `true` for SHA-256. Reads every file, so use with filters on large trees */
+  hash?: boolean | OneFSHashAlgorithm
 }
 
 export interface OneFSScanOptions extends OneFSReadDirectoryOptions {
@@ -120,6 +272,54 @@ export interface OneFSScanOptions extends OneFSReadDirectoryOptions {
   onProgress?: (scanned: number, found: number) => void
   /** AbortSignal for cancellation support */
   signal?: AbortSignal
+  /** Maximum depth to descend - 0 scans only direct children (default: unlimited) */
+  maxDepth?: number
+  /** Also return directory entries, emitted before their contents (default: false) */
+  includeDirectories?: boolean
+  /**
+   * Glob patterns relative to the scanned directory (e.g. `*.md`, `docs/**`). Files must match at least one.
+   * Patterns starting with `!` exclude instead. Patterns without a slash match the name at any depth.
+   */
+  include?: string[]
+  /** Glob patterns to skip (e.g. ['node_modules/**']). Matching directories are not descended into. */
+  exclude?: string[]
+  /** Minimum file size in bytes */
+  minSize?: number
+  /** Maximum file size in bytes */
+  maxSize?: number
+  /** Only include files modified at or after this time (timestamp or Date) */
+  modifiedSince?: number | Date
+  /**
+   * Honour ignore files found during traversal - `true` reads .gitignore and .onefsignore,
+   * or pass the file names to read. Ignored directories are not descended into.
+   */
+  ignoreFiles?: boolean | string[]
+}
+
+export type OneFSWatchEventType = 'created' | 'modified' | 'deleted' | 'renamed'
+
+/**
+ * A change reported by watch(). Entries carry `relativePath` from the watched directory.
+ */
+export interface OneFSWatchEvent {
+  type: OneFSWatchEventType
+  /** The affected entry - for renames, the entry at its new location */
+  entry: OneFSEntry
+  /** The entry's previous location (renamed only) */
+  oldEntry?: OneFSEntry
+}
+
+export type OneFSWatchCallback = (event: OneFSWatchEvent) => void
+
+export interface OneFSWatchOptions {
+  /** Watch subdirectories too (default: false) */
+  recursive?: boolean
+  /** Polling interval in ms where changes are detected by polling - Capacitor, and web-fs-access without FileSystemObserver (default: 2000) */
+  pollInterval?: number
+  /** Tauri debounce delay in ms - 0 uses watchImmediate (default: plugin-fs default) */
+  debounceMs?: number
+  /** Called when watching fails after it started (e.g. a poll could not read the directory) */
+  onError?: (error: unknown) => void
 }
 
 export type PermissionMode = 'read' | 'readwrite'
@@ -139,6 +339,22 @@ export interface OneFSDirectory {
   handle?: FileSystemDirectoryHandle
 }
 
+/**
+ * A newly created file paired with the stream that writes its content.
+ * Returned by saveFileAsStream() - the file's `content` stays empty since
+ * the data is never held in memory.
+ */
+export interface OneFSWritableFile {
+  /** The file being written (handle/path are set, content is empty) */
+  file: OneFSFile
+  /**
+   * Writable stream for the file's content - close() to commit. abort() discards the
+   * write on web-fs-access and web-fallback only: Tauri and Capacitor truncate the file
+   * when the stream opens, so an aborted stream leaves it empty or partially written.
+   */
+  stream: WritableStream<Uint8Array>
+}
+
 /**
  * Metadata for a stored file or directory handle.
  * Used by getRecentFiles() to list previously opened items.
@@ -166,7 +382,70 @@ export interface StoredFile {
   storedAt: number
 }
 
-export type Platform = 'web-fs-access' | 'web-fallback' | 'tauri' | 'capacitor'
+/**
+ * One entry in a file's version history, as returned by getVersions().
+ */
+export interface OneFSVersion {
+  id: string
+  /** Id of the OneFSFile the version was saved from */
+  fileId: string
+  name: string
+  size: number
+  /** When the version was saved */
+  createdAt: number
+  label?: string
+}
+
+/**
+ * Limits for pruneVersions() - versions matching any limit are removed, oldest first.
+ */
+export interface OneFSPruneVersionsOptions {
+  /** Remove versions older than this many milliseconds */
+  maxAge?: number
+  /** Keep at most this many versions per file */
+  maxCount?: number
+  /** Keep the total content size of all versions under this many bytes */
+  maxBytes?: number
+}
+
+/**
+ * Internal storage format for version history.
+ */
+export interface StoredVersion extends OneFSVersion {
+  content: Uint8Array
+}
+
+/**
+ * Internal storage format for trash items. Tauri and Capacitor keep the file in a
+ * trash folder (`trashPath`); web-fs-access keeps its content and handle here.
+ */
+export interface StoredTrashItem extends OneFSTrashItem {
+  /** Id of the deleted OneFSFile - restored files get it back */
+  fileId: string
+  mimeType: string
+  trashPath?: string
+  content?: Uint8Array
+  /** Folder the file was deleted from, when it lies inside a recent directory (web-fs-access) */
+  parentHandle?: FileSystemDirectoryHandle
+}
+
+/**
+ * Internal storage format for 'idb' backups.
+ */
+export interface StoredBackup {
+  id: string
+  /** File path, or file id when there is no path */
+  fileKey: string
+  name: string
+  content: Uint8Array
+  size: number
+  createdAt: number
+}
+
+export type BuiltInPlatform = 'web-fs-access' | 'web-fallback' | 'tauri' | 'capacitor' | 'electron' | 'node' | 'memory'
+
+/** A built-in platform, or the id of an adapter added with registerAdapter() */
+export type Platform = BuiltInPlatform | (string & {})
 
 /**
  * Describes what operations are available on the current platform.
@@ -196,9 +475,27 @@ export interface OneFSCapabilities {
   deleteFile: boolean
   /** Can rename files (web-fs-access, Tauri, Capacitor) */
   renameFile: boolean
+  /**
+   * Can read a byte range without loading the whole file (readRange, maxBytes).
+   * - true: web-fs-access/web-fallback (File.slice), tauri (seek + read)
+   * - 'limited': capacitor (HTTP Range request, falls back to a full read)
+   */
+  rangeReads: boolean | 'limited'
+  /** Can create directories (false, true, or 'limited' for Capacitor - Documents only) */
+  createDirectory: boolean | 'limited'
+  /**
+   * Can watch directories for changes.
+   * - true: tauri (native watcher), web-fs-access (FileSystemObserver, polling fallback)
+   * - 'limited': capacitor (polling only)
+   */
+  watch: boolean | 'limited'
 }
 
-export const PLATFORM_CAPABILITIES: Record<Platform, OneFSCapabilities> = {
+/**
+ * Capabilities of the built-in adapters. Each adapter reports a copy of its entry
+ * through `adapter.capabilities`, which is what `OneFS.capabilities` returns.
+ */
+export const PLATFORM_CAPABILITIES: Record<BuiltInPlatform, OneFSCapabilities> = {
   'web-fs-access': {
     openFile: true,
     saveFile: true,
@@ -210,6 +507,9 @@ export const PLATFORM_CAPABILITIES: Record<Platform, OneFSCapabilities> = {
     permissions: true,
     deleteFile: true,
     renameFile: true,
+    rangeReads: true,
+    createDirectory: true,
+    watch: true,
   },
   'web-fallback': {
     openFile: true,
@@ -222,6 +522,9 @@ export const PLATFORM_CAPABILITIES: Record<Platform, OneFSCapabilities> = {
     permissions: false,
     deleteFile: false,
     renameFile: false,
+    rangeReads: true,
+    createDirectory: false,
+    watch: false,
   },
   tauri: {
     openFile: true,
@@ -234,6 +537,9 @@ export const PLATFORM_CAPABILITIES: Record<Platform, OneFSCapabilities> = {
     permissions: false,
     deleteFile: true,
     renameFile: true,
+    rangeReads: true,
+    createDirectory: true,
+    watch: true,
   },
   capacitor: {
     openFile: true,
@@ -246,6 +552,54 @@ export const PLATFORM_CAPABILITIES: Record<Platform, OneFSCapabilities> = {
     permissions: false,
     deleteFile: true,
     renameFile: true,
+    rangeReads: 'limited',
+    createDirectory: 'limited',
+    watch: 'limited',
+  },
+  electron: {
+    openFile: true,
+    saveFile: true,
+    saveFileAs: true,
+    openDirectory: true,
+    readDirectory: true,
+    handlePersistence: false,
+    canSaveInPlace: true,
+    permissions: false,
+    deleteFile: true,
+    renameFile: true,
+    rangeReads: true,
+    createDirectory: true,
+    watch: false,
+  },
+  node: {
+    openFile: true,
+    saveFile: true,
+    saveFileAs: true,
+    openDirectory: true,
+    readDirectory: true,
+    handlePersistence: false,
+    canSaveInPlace: true,
+    permissions: false,
+    deleteFile: true,
+    renameFile: true,
+    rangeReads: true,
+    createDirectory: true,
+    watch: false,
+  },
+  memory: {
+    openFile: true,
+    saveFile: true,
+    saveFileAs: true,
+    openDirectory: true,
+    readDirectory: true,
+    handlePersistence: false,
+    canSaveInPlace: true,
+    permissions: false,
+    deleteFile: true,
+    renameFile: true,
+    rangeReads: true,
+    createDirectory: true,
+    watch: true,
   },
 }
 
@@ -255,10 +609,13 @@ export const PLATFORM_CAPABILITIES: Record<Platform, OneFSCapabilities> = {
 export interface OneFSAdapter {
   platform: Platform
 
+  /** What this adapter supports (see PLATFORM_CAPABILITIES for the built-in adapters) */
+  capabilities: OneFSCapabilities
+
   /** Check if this adapter can run in the current environment */
   isSupported(): boolean
 
-  /** Open file picker and return selected file(s) with content */
+  /** Open file picker and return selected file(s) with content (or lazy files - see loadContent) */
   openFile(options?: OneFSOpenOptions): Promise<OneFSResult<OneFSFile | OneFSFile[]>>
 
   /** Save content to an existing file (behavior varies by platform - see canSaveInPlace) */
@@ -267,18 +624,72 @@ export interface OneFSAdapter {
   /** Open save dialog and write content to new file */
   saveFileAs(content: Uint8Array | string, options?: OneFSSaveOptions): Promise<OneFSResult<OneFSFile>>
 
+  /** Open a writable stream that replaces an existing file's content chunk by chunk */
+  createWriteStream?(file: OneFSFile, options?: OneFSSaveOptions): Promise<OneFSResult<WritableStream<Uint8Array>>>
+
+  /** Open save dialog and return a writable stream for the new file */
+  saveFileAsStream?(options?: OneFSSaveOptions): Promise<OneFSResult<OneFSWritableFile>>
+
   /** Open directory picker (optional - check capabilities first) */
   openDirectory?(options?: OneFSDirectoryOptions): Promise<OneFSResult<OneFSDirectory>>
 
   /** List directory contents as entries (metadata only, no content loaded) */
   readDirectory?(directory: OneFSDirectory, options?: OneFSReadDirectoryOptions): Promise<OneFSResult<OneFSEntry[]>>
 
-  /** Load a specific file from a directory. Supports partial reads via maxBytes option. */
+  /** Load a specific file from a directory. Supports partial reads via maxBytes option (see capabilities.rangeReads). */
   readFileFromDirectory?(directory: OneFSDirectory, entry: OneFSEntry, options?: { maxBytes?: number }): Promise<OneFSResult<OneFSFile>>
 
-  /** Recursively scan directory for files (Tauri/Capacitor only) */
+  /** Look up a file or directory by its path relative to a directory */
+  getEntry?(directory: OneFSDirectory, relativePath: string): Promise<OneFSResult<OneFSEntry>>
+
+  /** Create or overwrite a file inside a directory and return it */
+  writeFileToDirectory?(
+    directory: OneFSDirectory,
+    name: string,
+    content: Uint8Array | string,
+    options?: OneFSWriteOptions
+  ): Promise<OneFSResult<OneFSFile>>
+
+  /** Create a directory at a path relative to `parent` (optional - check capabilities.createDirectory) */
+  createDirectory?(
+    parent: OneFSDirectory,
+    relativePath: string,
+    options?: OneFSCreateDirectoryOptions
+  ): Promise<OneFSResult<OneFSDirectory>>
+
+  /** Delete a file or directory entry inside a directory */
+  deleteEntry?(directory: OneFSDirectory, entry: OneFSEntry, options?: OneFSDeleteOptions): Promise<OneFSResult<boolean>>
+
+  /** Move a file or directory entry into another directory, optionally renaming it */
+  moveEntry?(entry: OneFSEntry, targetDirectory: OneFSDirectory, newName?: string, options?: OneFSTransferOptions): Promise<OneFSResult<OneFSEntry>>
+
+  /** Copy a file or directory entry (recursively) into another directory */
+  copyEntry?(entry: OneFSEntry, targetDirectory: OneFSDirectory, newName?: string, options?: OneFSTransferOptions): Promise<OneFSResult<OneFSEntry>>
+
+  /** Rename a directory in place and update persisted records that point into it */
+  renameDirectory?(target: OneFSDirectory | OneFSEntry, newName: string): Promise<OneFSResult<OneFSDirectory>>
+
+  /** List backups of a file, newest first */
+  listBackups?(file: OneFSFile): Promise<OneFSResult<OneFSBackup[]>>
+
+  /** Save a backup's content over the file - the current version is backed up first */
+  restoreBackup?(file: OneFSFile, backup: OneFSBackup): Promise<OneFSResult<OneFSFile>>
+
+  /** Open a chunked byte stream over a file or entry without loading it into memory */
+  openReadStream?(target: OneFSFile | OneFSEntry): Promise<OneFSResult<ReadableStream<Uint8Array>>>
+
+  /** Read `length` bytes starting at `offset` without loading the whole file (see capabilities.rangeReads) */
+  readRange?(target: OneFSFile | OneFSEntry, offset: number, length: number): Promise<OneFSResult<Uint8Array>>
+
+  /** Recursively scan directory for files */
   scanDirectory?(directory: OneFSDirectory, options?: OneFSScanOptions): Promise<OneFSResult<OneFSEntry[]>>
 
+  /** Recursively walk a directory, yielding file entries as they are discovered */
+  walk?(directory: OneFSDirectory, options?: OneFSScanOptions): AsyncIterable<OneFSEntry>
+
+  /** Watch a directory for changes - resolves with an unsubscribe function */
+  watch?(directory: OneFSDirectory, options: OneFSWatchOptions, callback: OneFSWatchCallback): Promise<OneFSResult<() => void>>
+
   /** Get efficient URL for file playback without loading into memory (Tauri only) */
   getFileUrl?(file: OneFSFile): Promise<string>
 
@@ -289,13 +700,22 @@ export interface OneFSAdapter {
   getRecentFiles(): Promise<StoredHandle[]>
 
   /** Restore a previously opened file from storage */
-  restoreFile(stored: StoredHandle): Promise<OneFSResult<OneFSFile>>
+  restoreFile(stored: StoredHandle, options?: OneFSRestoreOptions): Promise<OneFSResult<OneFSFile>>
 
   /** Restore a previously opened directory from storage (optional - check capabilities) */
   restoreDirectory?(stored: StoredHandle, mode?: PermissionMode): Promise<OneFSResult<OneFSDirectory>>
 
-  /** Delete a file from disk and IDB storage (Tauri/Capacitor only) */
-  deleteFile?(file: OneFSFile): Promise<OneFSResult<boolean>>
+  /** Delete a file from disk and IDB storage, or move it to the trash */
+  deleteFile?(file: OneFSFile, options?: OneFSDeleteFileOptions): Promise<OneFSResult<boolean>>
+
+  /** List files moved to the trash by deleteFile(), newest first */
+  listTrash?(): Promise<OneFSResult<OneFSTrashItem[]>>
+
+  /** Move a trashed file back to where it was */
+  restoreFromTrash?(item: OneFSTrashItem): Promise<OneFSResult<OneFSFile>>
+
+  /** Permanently delete trashed files - resolves with the number removed */
+  emptyTrash?(options?: OneFSEmptyTrashOptions): Promise<OneFSResult<number>>
 
   /** Rename a file on disk and update IDB storage (Tauri/Capacitor only) */
   renameFile?(file: OneFSFile, newName: string): Promise<OneFSResult<OneFSFile>>
@@ -325,6 +745,127 @@ export interface OneFSAdapter {
   dispose?(): void
 }
 
+/**
+ * What a picker call asks for on platforms without dialogs (see OneFSNodeOptions.prompt).
+ */
+export interface OneFSPromptRequest {
+  type: 'openFile' | 'openDirectory' | 'saveFile'
+  /** openFile() with `multiple: true` */
+  multiple?: boolean
+  accept?: string[]
+  /** saveFile requests only */
+  suggestedName?: string
+}
+
+/** Answers a picker call with one or more paths, or null to cancel */
+export type OneFSPrompt = (request: OneFSPromptRequest) => string | string[] | null | Promise<string | string[] | null>
+
+export interface OneFSNodeOptions {
+  /** Asked for paths when a picker call has no `path` option - without it those calls are cancelled */
+  prompt?: OneFSPrompt
+  /** Where recent.json is kept (default: the per-user app data directory for appName) */
+  dataDir?: string
+}
+
+/** Size, mtime and kind of a path, as returned over the Electron bridge */
+export interface OneFSElectronStat {
+  kind: 'file' | 'directory'
+  size: number
+  lastModified: number
+}
+
+/** A directory listing entry - stats are missing if the main process couldn't read them */
+export interface OneFSElectronDirEntry {
+  name: string
+  kind: 'file' | 'directory'
+  size?: number
+  lastModified?: number
+}
+
+/**
+ * The preload API ElectronAdapter calls through `window.onefsElectron`.
+ * exposeElectronBridge() builds it over ipcRenderer and registerElectronHandlers()
+ * answers it in the main process. Every call resolves to a result because Electron
+ * drops error codes when a handler throws across IPC.
+ */
+export interface OneFSElectronBridge {
+  /** Native open dialog - `cancelled` when dismissed */
+  showOpenDialog(options: { directory?: boolean; multiple?: boolean; accept?: string[] }): Promise<OneFSResult<string[]>>
+  /** Native save dialog - `cancelled` when dismissed */
+  showSaveDialog(options: { suggestedName?: string; accept?: string[] }): Promise<OneFSResult<string>>
+  stat(path: string): Promise<OneFSResult<OneFSElectronStat>>
+  /** Files and directories in `path`; other entry types are skipped */
+  readDir(path: string): Promise<OneFSResult<OneFSElectronDirEntry[]>>
+  /** Whole file, or up to `range.length` bytes from `range.offset` */
+  readFile(path: string, range?: { offset: number; length: number }): Promise<OneFSResult<Uint8Array>>
+  /**
+   * Write a file and return its new stat. Atomic by default (temp file + rename);
+   * `overwrite: false` fails with `already_exists` instead of replacing a file.
+   */
+  writeFile(path: string, data: Uint8Array, options?: { atomic?: boolean; overwrite?: boolean }): Promise<OneFSResult<OneFSElectronStat>>
+  mkdir(path: string, options?: { recursive?: boolean }): Promise<OneFSResult<true>>
+  /** Delete a file, or a directory - non-empty directories need `recursive` */
+  remove(path: string, options?: { recursive?: boolean }): Promise<OneFSResult<true>>
+  /** Rename or move a path - fails with `already_exists` rather than replacing `to` */
+  rename(from: string, to: string): Promise<OneFSResult<true>>
+}
+
+/** Electron's `dialog` module, or anything with the same two methods */
+export interface OneFSElectronDialog {
+  showOpenDialog(options: OneFSElectronOpenDialogOptions): Promise<{ canceled: boolean; filePaths: string[] }>
+  /** Parents the dialog to `window` - Electron's own overload */
+  showOpenDialog(window: unknown, options: OneFSElectronOpenDialogOptions): Promise<{ canceled: boolean; filePaths: string[] }>
+  showSaveDialog(options: OneFSElectronSaveDialogOptions): Promise<{ canceled: boolean; filePath?: string }>
+  /** Parents the dialog to `window` - Electron's own overload */
+  showSaveDialog(window: unknown, options: OneFSElectronSaveDialogOptions): Promise<{ canceled: boolean; filePath?: string }>
+}
+
+export interface OneFSElectronOpenDialogOptions {
+  properties: ('openFile' | 'openDirectory' | 'multiSelections' | 'createDirectory')[]
+  filters?: { name: string; extensions: string[] }[]
+}
+
+export interface OneFSElectronSaveDialogOptions {
+  defaultPath?: string
+  filters?: { name: string; extensions: string[] }[]
+}
+
+export interface OneFSElectronHandlerOptions {
+  /**
+   * Called with the resolved absolute form of every path the renderer asks to touch,
+   * symlinks followed - return false to refuse it with `permission_denied`. Replaces the
+   * default scope, which allows only paths the dialogs returned and everything under them.
+   */
+  allowPath?: (path: string) => boolean
+}
+
+/** The main-process modules registerElectronHandlers() needs - pass Electron's own */
+export interface OneFSElectronMainModules {
+  ipcMain: {
+    handle(channel: string, listener: (event: { sender: unknown }, ...args: unknown[]) => unknown): void
+    removeHandler(channel: string): void
+  }
+  dialog: OneFSElectronDialog
+  /** Parents dialogs to the calling window when given */
+  BrowserWindow?: { fromWebContents(webContents: unknown): unknown }
+}
+
+/** The preload modules exposeElectronBridge() needs - pass Electron's own */
+export interface OneFSElectronPreloadModules {
+  contextBridge: { exposeInMainWorld(key: string, api: unknown): void }
+  ipcRenderer: { invoke(channel: string, ...args: unknown[]): Promise<unknown> }
+}
+
+/** Creates an adapter for registerAdapter() from the resolved OneFS config */
+export type OneFSAdapterFactory = (config: OneFSConfig) => OneFSAdapter
+
+export interface OneFSRegisterAdapterOptions {
+  /** Detection order - higher is checked first. Built-ins use 5 (node) to 50 (electron), and -1 for memory (default: 0) */
+  priority?: number
+  /** Override some of the capabilities the adapter reports */
+  capabilities?: Partial<OneFSCapabilities>
+}
+
 export interface OneFSConfig {
   /** Application name - used for IndexedDB database naming */
   appName: string
@@ -336,4 +877,17 @@ export interface OneFSConfig {
   useNativeFSAccess?: boolean
   /** Force a specific adapter (useful for testing) */
   preferredAdapter?: Platform
+  /** Use this adapter instance instead of detecting one - e.g. a MemoryAdapter with scripted picks in tests */
+  adapter?: OneFSAdapter
+  /** Keep previous versions when saveFile() overwrites - `true` uses the defaults (default: off) */
+  backups?: boolean | OneFSBackupConfig
+  /**
+   * Record every saveFile() in an IndexedDB version history (default: off).
+   * Pass prune limits to apply them after each save; `true` keeps everything.
+   */
+  versionHistory?: boolean | OneFSPruneVersionsOptions
+  /** Move files to the app's trash in deleteFile() instead of deleting them (default: false) */
+  trash?: boolean
+  /** NodeAdapter prompt and data directory */
+  node?: OneFSNodeOptions
 }
@@ -1,3 +1,6 @@
+import type { OneFSFile, OneFSFileStat, OneFSLazyFile, OneFSResult } from './types'
+import { ok } from './types'
+
 export function generateId(): string {
   return crypto.randomUUID()
 }
@@ -55,6 +58,22 @@ export function getFileName(path: string): string {
   return path.split(/[/\\]/).pop() || path
 }
 
+const ATOMIC_TEMP_SUFFIX = '.onefs-tmp'
+
+/**
+ * Sibling temp path used by atomic saves: `dir/report.txt` -> `dir/.report.txt.onefs-tmp`.
+ * The name is fixed per target so a temp file left behind by a crash is replaced on the next save.
+ */
+export function getAtomicTempPath(path: string): string {
+  const index = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'))
+  return `${path.slice(0, index + 1)}.${path.slice(index + 1)}${ATOMIC_TEMP_SUFFIX}`
+}
+
+/** Whether a file name is an atomic save's temp file - these are left out of listings, scans and watch events */
+export function isAtomicTempName(name: string): boolean {
+  return name.startsWith('.') && name.endsWith(ATOMIC_TEMP_SUFFIX)
+}
+
 export function uint8ArrayToBase64(bytes: Uint8Array): string {
   if (typeof Buffer !== 'undefined') {
     return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64')
@@ -105,3 +124,106 @@ export function isPathWithin(child: string, parent: string): boolean {
 export function sanitizeFileName(name: string): string {
   return name.replace(/[/\\\0]/g, '').replace(/\.\./g, '')
 }
+
+export function bytesToStream(bytes: Uint8Array, chunkSize = 64 * 1024): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close()
+        return
+      }
+      const end = Math.min(offset + chunkSize, bytes.byteLength)
+      controller.enqueue(bytes.slice(offset, end))
+      offset = end
+    },
+  })
+}
+
+export async function readStreamRange(
+  stream: ReadableStream<Uint8Array>,
+  start: number,
+  end: number
+): Promise<Uint8Array> {
+  const result = new Uint8Array(Math.max(0, end - start))
+  const reader = stream.getReader()
+  let position = 0
+  let filled = 0
+
+  try {
+    while (position < end) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      const chunkStart = Math.max(start - position, 0)
+      const chunkEnd = Math.min(end - position, value.byteLength)
+      if (chunkStart < chunkEnd) {
+        result.set(value.subarray(chunkStart, chunkEnd), filled)
+        filled += chunkEnd - chunkStart
+      }
+      position += value.byteLength
+    }
+  } finally {
+    reader.cancel().catch(() => {})
+  }
+
+  return result.subarray(0, filled)
+}
+
+export function withLazyContent(
+  file: OneFSFile,
+  loaders: {
+    read: (file: OneFSFile) => Promise<OneFSResult<Uint8Array>>
+    stream: (file: OneFSFile) => Promise<OneFSResult<ReadableStream<Uint8Array>>>
+  }
+): OneFSLazyFile {
+  // Accessors resolve against `this` so copies like `{ ...file, path: newPath }` read the new location
+  return {
+    ...file,
+    read(this: OneFSFile) {
+      return loaders.read(this)
+    },
+    async text(this: OneFSFile) {
+      const result = await loaders.read(this)
+      return result.ok ? ok(new TextDecoder().decode(result.data)) : result
+    },
+    stream(this: OneFSFile) {
+      return loaders.stream(this)
+    },
+  }
+}
+
+/**
+ * Resolve `.` and `..` in a path relative to a directory, with `/` separators.
+ * Returns null if the path climbs above the directory and '' if it names the directory itself.
+ */
+export function resolveRelativePath(path: string): string | null {
+  const result: string[] = []
+  for (const seg of path.split(/[/\\]/)) {
+    if (seg === '..') {
+      if (result.length === 0) return null
+      result.pop()
+    } else if (seg && seg !== '.') {
+      result.push(seg)
+    }
+  }
+  return result.join('/')
+}
+
+export function splitRelativePath(path: string): string[] | null {
+  const segments = path.split(/[/\\]/).filter((seg) => seg && seg !== '.')
+  if (segments.length === 0) return null
+  if (segments.some((seg) => seg === '..' || seg !== sanitizeFileName(seg))) return null
+  return segments
+}
+
+export function conflict<T>(current: OneFSFileStat): OneFSResult<T> {
+  return {
+    ok: false,
+    error: {
+      code: 'conflict',
+      message: `File was modified on disk at ${new Date(current.lastModified).toISOString()}`,
+      current,
+    },
+  }
+}
@@ -0,0 +1,39 @@
+import type { OneFSPruneVersionsOptions, OneFSVersion } from './types'
+
+/**
+ * Pick the versions pruneVersions() removes: anything older than `maxAge`, anything
+ * past the newest `maxCount` of its file, then the oldest of the rest until the
+ * total size fits in `maxBytes`.
+ */
+export function selectVersionsToPrune(
+  versions: OneFSVersion[],
+  options: OneFSPruneVersionsOptions,
+  now = Date.now()
+): string[] {
+  const { maxAge, maxCount, maxBytes } = options
+  const newestFirst = [...versions].sort((a, b) => b.createdAt - a.createdAt)
+  const remove = new Set<string>()
+  const perFile = new Map<string, number>()
+
+  for (const version of newestFirst) {
+    const count = (perFile.get(version.fileId) ?? 0) + 1
+    perFile.set(version.fileId, count)
+
+    if (maxAge !== undefined && version.createdAt < now - maxAge) {
+      remove.add(version.id)
+    } else if (maxCount !== undefined && count > maxCount) {
+      remove.add(version.id)
+    }
+  }
+
+  if (maxBytes !== undefined) {
+    let total = 0
+    for (const version of newestFirst) {
+      if (remove.has(version.id)) continue
+      total += version.size
+      if (total > maxBytes) remove.add(version.id)
+    }
+  }
+
+  return [...remove]
+}
@@ -0,0 +1,128 @@
+import type { OneFSEntry, OneFSWatchCallback, OneFSWatchEvent } from './types'
+import { isAtomicTempName } from './utils'
+import { isInBackupFolder } from './backups'
+
+export const DEFAULT_POLL_INTERVAL = 2000
+
+function entryKey(entry: OneFSEntry): string {
+  return entry.relativePath ?? entry.path ?? entry.name
+}
+
+/**
+ * Hide atomic saves' temp files from native watch events. A temp file renamed over its
+ * target is reported as the target being modified; any other temp file event is dropped.
+ */
+export function hideAtomicTempFiles(event: OneFSWatchEvent): OneFSWatchEvent | null {
+  if (isAtomicTempName(event.entry.name)) return null
+  if (event.oldEntry && isAtomicTempName(event.oldEntry.name)) {
+    return { type: 'modified', entry: event.entry }
+  }
+  return event
+}
+
+/**
+ * Hide the contents of `.backups/` folders from native watch events, as scans do.
+ * A file moved out of one is reported as created.
+ */
+export function hideBackupFolders(event: OneFSWatchEvent): OneFSWatchEvent | null {
+  if (isInBackupFolder(entryKey(event.entry))) return null
+  if (event.oldEntry && isInBackupFolder(entryKey(event.oldEntry))) {
+    return { type: 'created', entry: event.entry }
+  }
+  return event
+}
+
+/**
+ * Compare two directory snapshots keyed by relative path.
+ * A file that disappears while an identical one (same size and lastModified)
+ * appears elsewhere is reported as a single rename.
+ */
+export function diffSnapshots(
+  previous: Map<string, OneFSEntry>,
+  next: Map<string, OneFSEntry>
+): OneFSWatchEvent[] {
+  const events: OneFSWatchEvent[] = []
+  const deleted: OneFSEntry[] = []
+  const created: OneFSEntry[] = []
+
+  for (const [key, entry] of previous) {
+    const current = next.get(key)
+    if (!current || current.kind !== entry.kind) {
+      deleted.push(entry)
+    } else if (
+      entry.kind === 'file' &&
+      (current.size !== entry.size || current.lastModified !== entry.lastModified)
+    ) {
+      events.push({ type: 'modified', entry: current })
+    }
+  }
+
+  for (const [key, entry] of next) {
+    const old = previous.get(key)
+    if (!old || old.kind !== entry.kind) {
+      created.push(entry)
+    }
+  }
+
+  for (const oldEntry of deleted) {
+    const index = oldEntry.kind === 'file' && oldEntry.size !== undefined && oldEntry.lastModified !== undefined
+      ? created.findIndex((entry) =>
+          entry.kind === 'file' && entry.size === oldEntry.size && entry.lastModified === oldEntry.lastModified
+        )
+      : -1
+
+    if (index === -1) {
+      events.push({ type: 'deleted', entry: oldEntry })
+    } else {
+      events.push({ type: 'renamed', entry: created[index], oldEntry })
+      created.splice(index, 1)
+    }
+  }
+
+  for (const entry of created) {
+    events.push({ type: 'created', entry })
+  }
+
+  return events
+}
+
+/**
+ * Detect changes by diffing snapshots on an interval. The first snapshot is
+ * taken before resolving so a directory that can't be read fails up front.
+ */
+export async function createPollingWatcher(
+  snapshot: () => Promise<OneFSEntry[]>,
+  callback: OneFSWatchCallback,
+  options: { interval?: number; onError?: (error: unknown) => void } = {}
+): Promise<() => void> {
+  const toMap = (entries: OneFSEntry[]) => new Map(entries.map((entry) => [entryKey(entry), entry]))
+
+  let previous = toMap(await snapshot())
+  let stopped = false
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const poll = async () => {
+    try {
+      const next = toMap(await snapshot())
+      if (stopped) return
+      const events = diffSnapshots(previous, next)
+      previous = next
+      for (const event of events) {
+        callback(event)
+      }
+    } catch (e) {
+      options.onError?.(e)
+    }
+
+    if (!stopped) {
+      timer = setTimeout(poll, options.interval ?? DEFAULT_POLL_INTERVAL)
+    }
+  }
+
+  timer = setTimeout(poll, options.interval ?? DEFAULT_POLL_INTERVAL)
+
+  return () => {
+    stopped = true
+    clearTimeout(timer)
+  }
+}
@@ -10,10 +10,14 @@ export default defineConfig({
   ],
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        node: resolve(__dirname, 'src/node.ts'),
+        'electron-main': resolve(__dirname, 'src/electron-main.ts'),
+      },
       name: 'OneFS',
       formats: ['es', 'cjs'],
-      fileName: (format) => `index.${format === 'es' ? 'js' : 'cjs'}`,
+      fileName: (format, entryName) => `${entryName}.${format === 'es' ? 'js' : 'cjs'}`,
     },
     rollupOptions: {
       external: [
@@ -23,6 +27,9 @@ export default defineConfig({
         '@capacitor/filesystem',
         '@capacitor/core',
         '@capawesome/capacitor-file-picker',
+        'node:fs/promises',
+        'node:path',
+        'node:os',
       ],
     },
     sourcemap: true,